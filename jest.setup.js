@@ -24,3 +24,9 @@ Object.defineProperty(window, 'matchMedia', {
         dispatchEvent: jest.fn(),
     })),
 });
+
+// jsdom lacks SubtleCrypto and TextEncoder, use the Node implementations
+const { webcrypto } = require('crypto');
+const { TextEncoder } = require('util');
+Object.defineProperty(globalThis, 'crypto', { value: webcrypto });
+Object.defineProperty(globalThis, 'TextEncoder', { value: TextEncoder });
@@ -0,0 +1,147 @@
+import { EjabberdClient } from '../client';
+import { Element } from '@xmpp/xml';
+import { ConnectionManager } from '../core/connection';
+import { MessageNamespaces } from '../constants/namespaces';
+import { ChatMessage } from '../types/messages';
+
+jest.mock('../core/connection');
+
+const ROOM = 'team@conference.example.com';
+
+describe('EjabberdClient', () => {
+    let client: EjabberdClient;
+    let mockConnection: jest.Mocked<ConnectionManager>;
+
+    beforeEach(() => {
+        jest.mocked(ConnectionManager.prototype.connect).mockResolvedValue();
+        client = new EjabberdClient({
+            username: 'romeo@example.com',
+            password: 'secret',
+            domain: 'example.com',
+            service: 'wss://example.com/ws',
+        } as any);
+        mockConnection = jest
+            .mocked(ConnectionManager)
+            .mock.instances.slice(-1)[0] as jest.Mocked<ConnectionManager>;
+        mockConnection.sendStanza.mockResolvedValue();
+    });
+
+    afterEach(() => {
+        jest.clearAllMocks();
+    });
+
+    describe('correctMessage', () => {
+        it('should correct chat messages with a chat message', async () => {
+            await client.correctMessage('juliet@example.com', 'msg-1', 'Hi');
+
+            const message = mockConnection.sendStanza.mock.calls[0][0];
+            expect(message.attrs).toMatchObject({
+                to: 'juliet@example.com',
+                type: 'chat',
+            });
+        });
+
+        it('should correct room messages with a groupchat message', async () => {
+            jest.spyOn(client.rooms, 'getJoinedRooms').mockReturnValue([ROOM]);
+
+            await client.correctMessage(`${ROOM}/juliet`, 'msg-1', 'Hi all');
+
+            const message = mockConnection.sendStanza.mock.calls[0][0];
+            expect(message.attrs).toMatchObject({
+                to: ROOM,
+                type: 'groupchat',
+            });
+            expect(message.getChildText('body')).toBe('Hi all');
+            expect(
+                message.getChild('replace', MessageNamespaces.REPLACE)?.attrs
+                    .id,
+            ).toBe('msg-1');
+        });
+    });
+
+    describe('sendAttachment', () => {
+        it('should report files that fail to prepare with the upload id', async () => {
+            const failed = jest.fn();
+            client.on('upload:failed', failed);
+            const file = new File(['plain text'], 'report.pdf', {
+                type: 'application/pdf',
+            });
+
+            await expect(
+                client.sendAttachment('juliet@example.com', 'Report', file, {
+                    id: 'upload-1',
+                }),
+            ).rejects.toMatchObject({ code: 'TYPE_MISMATCH' });
+
+            expect(failed).toHaveBeenCalledWith(
+                expect.objectContaining({
+                    id: 'upload-1',
+                    code: 'TYPE_MISMATCH',
+                }),
+            );
+            expect(mockConnection.sendStanza).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('incoming messages', () => {
+        const receive = (stanza: Element) => {
+            const listener = mockConnection.on.mock.calls.find(
+                ([event]) => event === 'stanza',
+            )![1];
+            return listener(stanza);
+        };
+
+        it('should report reactions that carry a chat state', async () => {
+            const reactions = jest.fn();
+            client.on('message:reactions', reactions);
+            const stanza = new Element('message', {
+                from: 'juliet@example.com/balcony',
+                to: 'romeo@example.com',
+                type: 'chat',
+                id: 'reaction-1',
+            });
+            stanza
+                .c('reactions', {
+                    xmlns: MessageNamespaces.REACTIONS,
+                    id: 'msg-1',
+                })
+                .c('reaction')
+                .t('👍');
+            stanza.c('active', { xmlns: MessageNamespaces.CHAT_STATES });
+
+            await receive(stanza);
+
+            expect(reactions).toHaveBeenCalledWith(
+                expect.objectContaining({ id: 'msg-1', emojis: ['👍'] }),
+            );
+        });
+    });
+
+    describe('queryArchive', () => {
+        it('should fall back to an unread status when a status query fails', async () => {
+            const message: ChatMessage = {
+                type: 'chat',
+                id: 'msg-1',
+                stanza_id: '',
+                from: 'juliet@example.com',
+                to: 'romeo@example.com',
+                time: new Date(),
+                body: 'Hi',
+            };
+            mockConnection.getClient.mockReturnValue({} as any);
+            mockConnection.sendIQ.mockRejectedValue(new Error('Timeout'));
+            jest.spyOn(client.archive, 'query').mockResolvedValue({
+                queryId: 'query-1',
+                complete: true,
+                messages: [message],
+            });
+
+            const result = await client.queryArchive({});
+
+            expect(result.messages[0].readStatus).toEqual({
+                delivered: false,
+                read: false,
+            });
+        });
+    });
+});
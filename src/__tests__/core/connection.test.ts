@@ -1,7 +1,14 @@
 import { ConnectionManager } from '../../core/connection';
-import { ConnectionConfig } from '../../types/connection';
+import { ConnectionConfig, IQError } from '../../types/connection';
 import { client as XMPPClient } from '@xmpp/client';
 import { EventEmitter } from 'events';
+import { Element } from '@xmpp/xml';
+import {
+    EntityNamespaces,
+    PresenceNamespaces,
+    StanzaNamespaces,
+    StreamNamespaces,
+} from '../../constants/namespaces';
 
 // Create a mock XMPP client class that extends EventEmitter
 class MockXMPPClient extends EventEmitter {
@@ -66,4 +73,247 @@ describe('ConnectionManager', () => {
             );
         });
     });
+
+    describe('stream resumption', () => {
+        // Each connection attempt gets a client that runs the given nonzas before going online
+        const mockNextClient = (nonzas: Element[]) => {
+            const client = new MockXMPPClient() as any;
+            client.middleware = { use: jest.fn() };
+            client.streamManagement = { id: '', inbound: 0 };
+            client.start.mockImplementation(async () => {
+                setTimeout(() => {
+                    nonzas.forEach((nonza) => client.emit('nonza', nonza));
+                    client.emit('online', 'test@example.com/web');
+                }, 0);
+            });
+            (XMPPClient as jest.Mock).mockImplementationOnce(() => client);
+            return client;
+        };
+
+        it('should start a new session when the server refuses to resume', async () => {
+            const first = mockNextClient([
+                new Element('enabled', {
+                    xmlns: StreamNamespaces.SM,
+                    id: 'sm-1',
+                    resume: 'true',
+                }),
+            ]);
+            await connection.connect();
+            first.emit('offline');
+
+            const statuses: string[] = [];
+            connection.on('status', (status: string) => statuses.push(status));
+            mockNextClient([
+                new Element('failed', { xmlns: StreamNamespaces.SM }),
+            ]);
+            await connection.connect();
+
+            expect(statuses).toEqual(['resuming', 'connecting', 'online']);
+            expect(connection.getStreamManagementState().id).toBeNull();
+        });
+    });
+
+    describe('broadcastPresence', () => {
+        let sendStanza: jest.SpyInstance;
+
+        beforeEach(() => {
+            sendStanza = jest
+                .spyOn(connection, 'sendStanza')
+                .mockResolvedValue(undefined);
+        });
+
+        it('should send an available presence by default', async () => {
+            await connection.broadcastPresence();
+
+            const presence = sendStanza.mock.calls[0][0];
+            expect(presence.attrs.type).toBeUndefined();
+            expect(presence.children).toHaveLength(0);
+        });
+
+        it('should send an unavailable presence', async () => {
+            await connection.broadcastPresence('unavailable');
+
+            expect(sendStanza.mock.calls[0][0].attrs.type).toBe('unavailable');
+        });
+
+        it('should include show, status and priority', async () => {
+            await connection.broadcastPresence({
+                show: 'dnd',
+                status: 'In a meeting',
+                priority: 0,
+            });
+
+            const presence = sendStanza.mock.calls[0][0];
+            expect(presence.attrs.type).toBeUndefined();
+            expect(presence.getChildText('show')).toBe('dnd');
+            expect(presence.getChildText('status')).toBe('In a meeting');
+            expect(presence.getChildText('priority')).toBe('0');
+        });
+
+        it('should attach entity capabilities', async () => {
+            const caps = new Element('c', { xmlns: PresenceNamespaces.CAPS });
+
+            await connection.broadcastPresence('available', caps);
+
+            expect(
+                sendStanza.mock.calls[0][0].getChild(
+                    'c',
+                    PresenceNamespaces.CAPS,
+                ),
+            ).toBe(caps);
+        });
+    });
+
+    describe('subscriptions', () => {
+        let sendStanza: jest.SpyInstance;
+
+        beforeEach(() => {
+            sendStanza = jest
+                .spyOn(connection, 'sendStanza')
+                .mockResolvedValue(undefined);
+        });
+
+        it('should send a subscription request with nickname and message', async () => {
+            await connection.subscribeToPresence('juliet@example.com', {
+                nick: 'Romeo',
+                status: 'It is me',
+            });
+
+            const presence = sendStanza.mock.calls[0][0];
+            expect(presence.attrs).toEqual({
+                to: 'juliet@example.com',
+                type: 'subscribe',
+            });
+            expect(presence.getChildText('nick', PresenceNamespaces.NICK)).toBe(
+                'Romeo',
+            );
+            expect(presence.getChildText('status')).toBe('It is me');
+        });
+
+        it.each([
+            ['denySubscription', 'unsubscribed'],
+            ['cancelSubscription', 'unsubscribed'],
+            ['unsubscribe', 'unsubscribe'],
+        ] as const)('should send %s as %s', async (method, type) => {
+            await connection[method]('juliet@example.com');
+
+            expect(sendStanza.mock.calls[0][0].attrs).toEqual({
+                to: 'juliet@example.com',
+                type,
+            });
+        });
+
+        it('should refuse pre-approval the server does not advertise', async () => {
+            await expect(
+                connection.preApproveSubscription('juliet@example.com'),
+            ).rejects.toThrow(
+                'Server does not support subscription pre-approval',
+            );
+            expect(sendStanza).not.toHaveBeenCalled();
+        });
+
+        it('should pre-approve when the server advertises it', async () => {
+            jest.spyOn(connection, 'hasStreamFeature').mockReturnValue(true);
+
+            await connection.preApproveSubscription('juliet@example.com');
+
+            expect(connection.hasStreamFeature).toHaveBeenCalledWith(
+                'sub',
+                StreamNamespaces.PRE_APPROVAL,
+            );
+            expect(sendStanza.mock.calls[0][0].attrs.type).toBe('subscribed');
+        });
+    });
+
+    describe('IQ handlers', () => {
+        const createRequest = (xmlns: string, type = 'get'): Element => {
+            const iq = new Element('iq', {
+                type,
+                id: 'req-1',
+                from: 'juliet@example.com/balcony',
+            });
+            iq.c(xmlns === EntityNamespaces.TIME ? 'time' : 'query', {
+                xmlns,
+            });
+            return iq;
+        };
+
+        it('should answer pings with an empty result', async () => {
+            await expect(
+                connection.handleIQ(createRequest(EntityNamespaces.PING)),
+            ).resolves.toBe(true);
+        });
+
+        it('should answer software version requests', async () => {
+            const result = (await connection.handleIQ(
+                createRequest(EntityNamespaces.VERSION),
+            )) as Element;
+
+            expect(result.attrs.xmlns).toBe(EntityNamespaces.VERSION);
+            expect(result.getChildText('name')).toBe('next-ejabberd');
+        });
+
+        it('should answer entity time requests', async () => {
+            const result = (await connection.handleIQ(
+                createRequest(EntityNamespaces.TIME),
+            )) as Element;
+
+            expect(result.getChildText('tzo')).toMatch(/^[+-]\d{2}:\d{2}$/);
+            expect(result.getChildText('utc')).toMatch(
+                /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}Z$/,
+            );
+        });
+
+        it('should leave unhandled requests to xmpp.js', async () => {
+            await expect(
+                connection.handleIQ(createRequest('urn:example:unknown')),
+            ).resolves.toBeNull();
+            await expect(
+                connection.handleIQ(
+                    createRequest(EntityNamespaces.PING, 'set'),
+                ),
+            ).resolves.toBeNull();
+        });
+
+        it('should use registered handlers until they are removed', async () => {
+            const payload = new Element('query', { xmlns: 'urn:example' });
+            connection.registerIQHandler('urn:example', 'set', () => payload);
+
+            await expect(
+                connection.handleIQ(createRequest('urn:example', 'set')),
+            ).resolves.toBe(payload);
+
+            connection.unregisterIQHandler('urn:example', 'set');
+            await expect(
+                connection.handleIQ(createRequest('urn:example', 'set')),
+            ).resolves.toBeNull();
+        });
+
+        it('should turn thrown errors into error conditions', async () => {
+            connection.registerIQHandler('urn:example', 'get', () => {
+                throw new IQError('forbidden', 'auth');
+            });
+            connection.registerIQHandler('urn:other', 'get', async () => {
+                throw new Error('boom');
+            });
+
+            const forbidden = (await connection.handleIQ(
+                createRequest('urn:example'),
+            )) as Element;
+            expect(forbidden.attrs.type).toBe('auth');
+            expect(
+                forbidden.getChild('forbidden', StanzaNamespaces.ERRORS),
+            ).toBeDefined();
+
+            const failed = (await connection.handleIQ(
+                createRequest('urn:other'),
+            )) as Element;
+            expect(
+                failed.getChild(
+                    'internal-server-error',
+                    StanzaNamespaces.ERRORS,
+                ),
+            ).toBeDefined();
+        });
+    });
 });
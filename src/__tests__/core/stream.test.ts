@@ -0,0 +1,138 @@
+import { Element } from '@xmpp/xml';
+import { EventEmitter } from 'events';
+import { StreamManager } from '../../core/stream';
+import { StreamNamespaces } from '../../constants/namespaces';
+
+// Minimal stand-in for the xmpp.js client used by the stream manager
+class MockXMPPClient extends EventEmitter {
+    streamManagement = { id: '', inbound: 0 };
+    send = jest.fn().mockImplementation(async (element: Element) => {
+        this.emit('send', element);
+    });
+}
+
+const nonza = (name: string, attrs: Record<string, string> = {}) =>
+    new Element(name, { xmlns: StreamNamespaces.SM, ...attrs });
+
+describe('StreamManager', () => {
+    let streamManager: StreamManager;
+    let xmpp: MockXMPPClient;
+
+    const enable = () => {
+        xmpp.emit(
+            'nonza',
+            nonza('enabled', { id: 'sm-1', resume: 'true', max: '300' }),
+        );
+    };
+
+    beforeEach(() => {
+        jest.useFakeTimers();
+        streamManager = new StreamManager();
+        xmpp = new MockXMPPClient();
+        streamManager.attach(xmpp as any);
+    });
+
+    afterEach(() => {
+        jest.useRealTimers();
+    });
+
+    describe('enable', () => {
+        it('should store the resumption id from enabled', () => {
+            enable();
+            expect(streamManager.getState()).toMatchObject({
+                enabled: true,
+                resumable: true,
+                id: 'sm-1',
+                max: 300,
+            });
+        });
+    });
+
+    describe('acks', () => {
+        it('should queue sent stanzas and request an ack', async () => {
+            enable();
+            await xmpp.send(new Element('message', { id: 'm1' }));
+            await xmpp.send(new Element('message', { id: 'm2' }));
+
+            expect(streamManager.getState().unacked).toBe(2);
+
+            jest.advanceTimersByTime(250);
+            expect(xmpp.send).toHaveBeenLastCalledWith(
+                expect.objectContaining({ name: 'r' }),
+            );
+        });
+
+        it('should emit stanza:acked for handled stanzas', async () => {
+            const onAcked = jest.fn();
+            streamManager.on('stanza:acked', onAcked);
+            enable();
+
+            await xmpp.send(new Element('message', { id: 'm1' }));
+            await xmpp.send(new Element('message', { id: 'm2' }));
+            xmpp.emit('nonza', nonza('a', { h: '1' }));
+
+            expect(onAcked).toHaveBeenCalledTimes(1);
+            expect(onAcked.mock.calls[0][0].attrs.id).toBe('m1');
+            expect(streamManager.getState().unacked).toBe(1);
+        });
+    });
+
+    describe('resumption', () => {
+        it('should seed the next client and resend unhandled stanzas', async () => {
+            const onResumed = jest.fn();
+            streamManager.on('resumed', onResumed);
+            enable();
+            xmpp.streamManagement.inbound = 4;
+
+            await xmpp.send(new Element('message', { id: 'm1' }));
+            await xmpp.send(new Element('message', { id: 'm2' }));
+            streamManager.detach();
+
+            const next = new MockXMPPClient();
+            streamManager.attach(next as any);
+            expect(next.streamManagement).toEqual({ id: 'sm-1', inbound: 4 });
+
+            next.emit('nonza', nonza('resumed', { h: '1', previd: 'sm-1' }));
+            jest.runOnlyPendingTimers();
+
+            expect(onResumed).toHaveBeenCalled();
+            expect(next.send).toHaveBeenCalledWith(
+                expect.objectContaining({ attrs: { id: 'm2' } }),
+            );
+            expect(streamManager.getState()).toMatchObject({
+                outbound: 2,
+                unacked: 1,
+            });
+        });
+
+        it('should fail unacked stanzas when resumption fails', async () => {
+            const onFailed = jest.fn();
+            streamManager.on('stanza:failed', onFailed);
+            enable();
+            await xmpp.send(new Element('message', { id: 'm1' }));
+            streamManager.detach();
+
+            const next = new MockXMPPClient();
+            streamManager.attach(next as any);
+            next.emit('nonza', nonza('failed'));
+
+            expect(onFailed).toHaveBeenCalledTimes(1);
+            expect(streamManager.canResume()).toBe(false);
+        });
+
+        it('should emit resume:failed only for a refused resumption', () => {
+            const onResumeFailed = jest.fn();
+            streamManager.on('resume:failed', onResumeFailed);
+            xmpp.emit('nonza', nonza('failed'));
+            expect(onResumeFailed).not.toHaveBeenCalled();
+
+            enable();
+            streamManager.detach();
+            const next = new MockXMPPClient();
+            streamManager.attach(next as any);
+            next.emit('nonza', nonza('failed'));
+
+            expect(onResumeFailed).toHaveBeenCalledTimes(1);
+        });
+    });
+});
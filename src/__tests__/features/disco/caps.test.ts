@@ -0,0 +1,180 @@
+import { CapsManager, generateCapsHash } from '../../../features/disco/caps';
+import { DiscoManager } from '../../../features/disco/disco';
+import { PresenceNamespaces } from '../../../constants/namespaces';
+import { DiscoInfo } from '../../../types/disco';
+import { PresenceMessage } from '../../../types/messages';
+
+jest.mock('../../../features/disco/disco');
+
+const SIMPLE_INFO: DiscoInfo = {
+    jid: 'juliet@example.com/balcony',
+    identities: [{ category: 'client', type: 'pc', name: 'Exodus 0.9.1' }],
+    features: [
+        'http://jabber.org/protocol/disco#info',
+        'http://jabber.org/protocol/disco#items',
+        'http://jabber.org/protocol/muc',
+        'http://jabber.org/protocol/caps',
+    ],
+    extensions: [],
+};
+const SIMPLE_VER = 'QgayPKawpkPSDYmwT/WM94uAlu0=';
+
+const createPresence = (
+    from: string,
+    extra: Partial<PresenceMessage> = {},
+): PresenceMessage => ({
+    type: 'presence',
+    from,
+    status: 'available',
+    priority: 0,
+    caps: {
+        hash: 'sha-1',
+        node: 'http://code.google.com/p/exodus',
+        ver: SIMPLE_VER,
+    },
+    ...extra,
+});
+
+describe('generateCapsHash', () => {
+    it('should hash the simple example of XEP-0115', async () => {
+        await expect(generateCapsHash(SIMPLE_INFO)).resolves.toBe(SIMPLE_VER);
+    });
+
+    it('should hash the complex example of XEP-0115', async () => {
+        const ver = await generateCapsHash({
+            identities: [
+                {
+                    category: 'client',
+                    type: 'pc',
+                    lang: 'en',
+                    name: 'Psi 0.11',
+                },
+                { category: 'client', type: 'pc', lang: 'el', name: 'Ψ 0.11' },
+            ],
+            features: [
+                'http://jabber.org/protocol/caps',
+                'http://jabber.org/protocol/disco#info',
+                'http://jabber.org/protocol/disco#items',
+                'http://jabber.org/protocol/muc',
+            ],
+            extensions: [
+                {
+                    formType: 'urn:xmpp:dataforms:softwareinfo',
+                    fields: {
+                        ip_version: ['ipv6', 'ipv4'],
+                        os: ['Mac'],
+                        os_version: ['10.5.1'],
+                        software: ['Psi'],
+                        software_version: ['0.11'],
+                    },
+                },
+            ],
+        });
+
+        expect(ver).toBe('q07IKJEyjvHSyhy//CH0CxmKi8w=');
+    });
+});
+
+describe('CapsManager', () => {
+    let caps: CapsManager;
+    let mockDisco: jest.Mocked<DiscoManager>;
+
+    beforeEach(() => {
+        mockDisco = new DiscoManager({} as any) as jest.Mocked<DiscoManager>;
+        mockDisco.getCapsNode.mockReturnValue('https://example.com/client');
+        mockDisco.getLocalInfo.mockReturnValue(SIMPLE_INFO);
+        mockDisco.getInfo.mockResolvedValue(SIMPLE_INFO);
+        caps = new CapsManager(mockDisco);
+    });
+
+    it('should create the caps element of the client', async () => {
+        const element = await caps.createCapsElement();
+
+        expect(element?.attrs).toEqual({
+            xmlns: PresenceNamespaces.CAPS,
+            hash: 'sha-1',
+            node: 'https://example.com/client',
+            ver: SIMPLE_VER,
+        });
+    });
+
+    it('should create no caps element when hashing is unavailable', async () => {
+        const digest = jest
+            .spyOn(crypto.subtle, 'digest')
+            .mockRejectedValueOnce(new TypeError('crypto.subtle is undefined'));
+
+        try {
+            await expect(caps.createCapsElement()).resolves.toBeNull();
+        } finally {
+            digest.mockRestore();
+        }
+    });
+
+    it('should verify a hash once for every resource using it', async () => {
+        caps.handlePresence(createPresence('juliet@example.com/balcony'));
+        caps.handlePresence(createPresence('romeo@example.com/garden'));
+
+        await expect(
+            caps.peerSupports(
+                'romeo@example.com/garden',
+                'http://jabber.org/protocol/muc',
+            ),
+        ).resolves.toBe(true);
+        await expect(
+            caps.peerSupports(
+                'juliet@example.com/balcony',
+                'urn:xmpp:reactions:0',
+            ),
+        ).resolves.toBe(false);
+
+        expect(mockDisco.getInfo).toHaveBeenCalledTimes(1);
+        expect(mockDisco.getInfo).toHaveBeenCalledWith(
+            'juliet@example.com/balcony',
+            `http://code.google.com/p/exodus#${SIMPLE_VER}`,
+        );
+    });
+
+    it('should not trust hashes that do not match', async () => {
+        const presence = createPresence('mallory@example.com/evil', {
+            caps: { hash: 'sha-1', node: 'urn:evil', ver: 'bogus=' },
+        });
+        caps.handlePresence(presence);
+
+        await caps.peerSupports('mallory@example.com/evil', 'urn:example');
+        await caps.peerSupports('mallory@example.com/evil', 'urn:example');
+
+        // Every lookup falls back to querying the resource itself
+        expect(mockDisco.getInfo).toHaveBeenLastCalledWith(
+            'mallory@example.com/evil',
+        );
+        expect(mockDisco.getInfo).toHaveBeenCalledTimes(4);
+    });
+
+    it('should query resources without capabilities directly', async () => {
+        caps.handlePresence(
+            createPresence('juliet@example.com/balcony', { caps: undefined }),
+        );
+
+        await caps.peerSupports('juliet@example.com/balcony', 'urn:example');
+
+        expect(mockDisco.getInfo).toHaveBeenCalledWith(
+            'juliet@example.com/balcony',
+        );
+    });
+
+    it('should forget resources that went offline', async () => {
+        caps.handlePresence(createPresence('juliet@example.com/balcony'));
+        caps.handlePresence(
+            createPresence('juliet@example.com/balcony', {
+                status: 'unavailable',
+            }),
+        );
+        mockDisco.getInfo.mockClear();
+
+        await caps.peerSupports('juliet@example.com/balcony', 'urn:example');
+
+        expect(mockDisco.getInfo).toHaveBeenCalledWith(
+            'juliet@example.com/balcony',
+        );
+    });
+});
@@ -0,0 +1,214 @@
+import { Element } from '@xmpp/xml';
+import { DiscoManager } from '../../../features/disco/disco';
+import { generateCapsHash } from '../../../features/disco/caps';
+import { ConnectionManager } from '../../../core/connection';
+import { IQError } from '../../../types/connection';
+import {
+    DiscoNamespaces,
+    EntityNamespaces,
+    FileNamespaces,
+    MessageNamespaces,
+} from '../../../constants/namespaces';
+
+jest.mock('../../../core/connection');
+
+const createInfo = (features: string[]): Element => {
+    const iq = new Element('iq', { type: 'result' });
+    const query = iq.c('query', { xmlns: DiscoNamespaces.INFO });
+    features.forEach((feature) => query.c('feature', { var: feature }));
+    return iq;
+};
+
+const createItems = (jids: string[]): Element => {
+    const iq = new Element('iq', { type: 'result' });
+    const query = iq.c('query', { xmlns: DiscoNamespaces.ITEMS });
+    jids.forEach((jid) => query.c('item', { jid }));
+    return iq;
+};
+
+describe('DiscoManager', () => {
+    let disco: DiscoManager;
+    let mockConnection: jest.Mocked<ConnectionManager>;
+    let entities: Record<string, Element>;
+
+    beforeEach(() => {
+        mockConnection = new ConnectionManager(
+            {} as any,
+        ) as jest.Mocked<ConnectionManager>;
+        mockConnection.getConfig.mockReturnValue({
+            domain: 'example.com',
+        } as any);
+
+        entities = {
+            'info:example.com': createInfo([MessageNamespaces.CARBONS]),
+            'items:example.com': createItems([
+                'conference.example.com',
+                'upload.example.com',
+            ]),
+            'info:conference.example.com': createInfo([
+                'http://jabber.org/protocol/muc',
+            ]),
+            'info:upload.example.com': createInfo([FileNamespaces.HTTP_UPLOAD]),
+        };
+        mockConnection.sendIQ.mockImplementation(async (iq: Element) => {
+            const kind = iq.getChild('query', DiscoNamespaces.INFO)
+                ? 'info'
+                : 'items';
+            const response = entities[`${kind}:${iq.attrs.to}`];
+            if (!response) throw new Error('service-unavailable');
+            return response;
+        });
+
+        disco = new DiscoManager(mockConnection, { cacheTtl: 1000 });
+    });
+
+    afterEach(() => {
+        jest.useRealTimers();
+    });
+
+    it('should query the server by default', async () => {
+        const info = await disco.getInfo();
+
+        expect(info.jid).toBe('example.com');
+        expect(mockConnection.sendIQ.mock.calls[0][0].attrs.to).toBe(
+            'example.com',
+        );
+    });
+
+    it('should include the node in requests', async () => {
+        entities['info:pubsub.example.com'] = createInfo([]);
+
+        await disco.getInfo('pubsub.example.com', 'news');
+
+        const query = mockConnection.sendIQ.mock.calls[0][0].getChild(
+            'query',
+            DiscoNamespaces.INFO,
+        );
+        expect(query?.attrs.node).toBe('news');
+    });
+
+    it('should cache results until they expire', async () => {
+        jest.useFakeTimers();
+
+        await Promise.all([disco.getInfo(), disco.getInfo()]);
+        await disco.getInfo();
+        expect(mockConnection.sendIQ).toHaveBeenCalledTimes(1);
+
+        jest.advanceTimersByTime(1001);
+        await disco.getInfo();
+        expect(mockConnection.sendIQ).toHaveBeenCalledTimes(2);
+    });
+
+    it('should not cache failures', async () => {
+        await expect(disco.getInfo('missing.example.com')).rejects.toThrow(
+            'service-unavailable',
+        );
+        entities['info:missing.example.com'] = createInfo([]);
+
+        await expect(
+            disco.getInfo('missing.example.com'),
+        ).resolves.toBeDefined();
+    });
+
+    it('should forget the results of an entity', async () => {
+        await disco.getInfo();
+        disco.clearCache('example.com');
+        await disco.getInfo();
+
+        expect(mockConnection.sendIQ).toHaveBeenCalledTimes(2);
+    });
+
+    it('should find a service by feature', async () => {
+        const service = await disco.findServiceByFeature(
+            FileNamespaces.HTTP_UPLOAD,
+        );
+
+        expect(service?.jid).toBe('upload.example.com');
+    });
+
+    it('should return the server when it offers the feature itself', async () => {
+        const service = await disco.findServiceByFeature(
+            MessageNamespaces.CARBONS,
+        );
+
+        expect(service?.jid).toBe('example.com');
+        expect(mockConnection.sendIQ).toHaveBeenCalledTimes(1);
+    });
+
+    it('should skip items that do not answer', async () => {
+        entities['items:example.com'] = createItems([
+            'gone.example.com',
+            'upload.example.com',
+        ]);
+
+        const service = await disco.findServiceByFeature(
+            FileNamespaces.HTTP_UPLOAD,
+        );
+
+        expect(service?.jid).toBe('upload.example.com');
+        await expect(
+            disco.findServiceByFeature('urn:example:missing'),
+        ).resolves.toBeNull();
+    });
+
+    describe('disco#info requests', () => {
+        const answer = (node?: string) => {
+            const handler = mockConnection.registerIQHandler.mock.calls.find(
+                ([namespace]) => namespace === DiscoNamespaces.INFO,
+            )![2];
+            const iq = new Element('iq', { type: 'get', id: 'info-1' });
+            iq.c('query', { xmlns: DiscoNamespaces.INFO, node });
+            return handler(iq);
+        };
+
+        it('should advertise the identity and features of the client', async () => {
+            disco.addFeature('urn:example:feature');
+
+            const query = (await answer()) as Element;
+
+            expect(query.getChild('identity')?.attrs).toEqual({
+                category: 'client',
+                type: 'web',
+                name: 'next-ejabberd',
+            });
+            const features = query
+                .getChildren('feature')
+                .map((feature) => feature.attrs.var);
+            expect(features).toContain(DiscoNamespaces.INFO);
+            expect(features).toContain(EntityNamespaces.PING);
+            expect(features).toContain('urn:example:feature');
+        });
+
+        it('should stop advertising removed features', () => {
+            disco.removeFeature(EntityNamespaces.TIME);
+
+            expect(disco.getLocalInfo().features).not.toContain(
+                EntityNamespaces.TIME,
+            );
+        });
+
+        it('should answer the node of the capabilities hash', async () => {
+            const ver = await generateCapsHash(disco.getLocalInfo());
+
+            const query = (await answer(
+                `${disco.getCapsNode()}#${ver}`,
+            )) as Element;
+
+            expect(query.attrs.node).toBe(`${disco.getCapsNode()}#${ver}`);
+            expect(query.getChildren('feature').length).toBeGreaterThan(0);
+        });
+
+        it('should reject unknown nodes', async () => {
+            await expect(answer('urn:example#node')).rejects.toThrow(IQError);
+        });
+    });
+
+    it('should check server features', async () => {
+        await expect(disco.hasFeature(MessageNamespaces.CARBONS)).resolves.toBe(
+            true,
+        );
+        await expect(disco.getServerFeatures()).resolves.toEqual([
+            MessageNamespaces.CARBONS,
+        ]);
+    });
+});
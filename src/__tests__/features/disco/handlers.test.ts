@@ -0,0 +1,80 @@
+import { Element } from '@xmpp/xml';
+import { DiscoHandler } from '../../../features/disco/handlers';
+import {
+    DiscoNamespaces,
+    FileNamespaces,
+    MAMNamespaces,
+} from '../../../constants/namespaces';
+
+describe('DiscoHandler', () => {
+    let handler: DiscoHandler;
+
+    beforeEach(() => {
+        handler = new DiscoHandler();
+    });
+
+    describe('parseInfo', () => {
+        it('should parse identities, features and extensions', () => {
+            const iq = new Element('iq', { type: 'result' });
+            const query = iq.c('query', { xmlns: DiscoNamespaces.INFO });
+            query.c('identity', {
+                category: 'store',
+                type: 'file',
+                name: 'HTTP File Upload',
+            });
+            query.c('feature', { var: FileNamespaces.HTTP_UPLOAD });
+            const form = query.c('x', {
+                xmlns: MAMNamespaces.DATAFORM,
+                type: 'result',
+            });
+            form.c('field', { var: 'FORM_TYPE', type: 'hidden' })
+                .c('value')
+                .t(FileNamespaces.HTTP_UPLOAD);
+            form.c('field', { var: 'max-file-size' }).c('value').t('1048576');
+
+            expect(handler.parseInfo(iq, 'upload.example.com')).toEqual({
+                jid: 'upload.example.com',
+                identities: [
+                    {
+                        category: 'store',
+                        type: 'file',
+                        name: 'HTTP File Upload',
+                    },
+                ],
+                features: [FileNamespaces.HTTP_UPLOAD],
+                extensions: [
+                    {
+                        formType: FileNamespaces.HTTP_UPLOAD,
+                        fields: { 'max-file-size': ['1048576'] },
+                    },
+                ],
+            });
+        });
+
+        it('should ignore extension forms without FORM_TYPE', () => {
+            const iq = new Element('iq', { type: 'result' });
+            iq.c('query', { xmlns: DiscoNamespaces.INFO, node: 'n' })
+                .c('x', { xmlns: MAMNamespaces.DATAFORM })
+                .c('field', { var: 'other' });
+
+            const info = handler.parseInfo(iq, 'example.com', 'n');
+            expect(info.node).toBe('n');
+            expect(info.extensions).toEqual([]);
+        });
+    });
+
+    describe('parseItems', () => {
+        it('should parse items with a JID', () => {
+            const iq = new Element('iq', { type: 'result' });
+            const query = iq.c('query', { xmlns: DiscoNamespaces.ITEMS });
+            query.c('item', { jid: 'upload.example.com', name: 'Upload' });
+            query.c('item', { jid: 'pubsub.example.com', node: 'news' });
+            query.c('item', { name: 'broken' });
+
+            expect(handler.parseItems(iq)).toEqual([
+                { jid: 'upload.example.com', name: 'Upload' },
+                { jid: 'pubsub.example.com', node: 'news' },
+            ]);
+        });
+    });
+});
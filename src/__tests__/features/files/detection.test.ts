@@ -0,0 +1,124 @@
+import {
+    detectContentType,
+    sniffContentType,
+} from '../../../features/files/detection';
+
+const bytes = (...values: (number | string)[]): Uint8Array =>
+    Uint8Array.from(
+        values.flatMap((value) =>
+            typeof value === 'string'
+                ? [...value].map((char) => char.charCodeAt(0))
+                : [value],
+        ),
+    );
+
+const PNG = bytes(0x89, 'PNG', 0x0d, 0x0a, 0x1a, 0x0a, 0, 0, 0, 0x0d);
+const PDF = bytes('%PDF-1.7\n');
+const ZIP = bytes('PK', 0x03, 0x04, 0x14, 0);
+const BINARY = bytes(0x00, 0x01, 0x02, 0x03, 0xff);
+
+describe('sniffContentType', () => {
+    it('should recognise image signatures', () => {
+        expect(sniffContentType(bytes(0xff, 0xd8, 0xff, 0xe0))).toEqual([
+            'image/jpeg',
+        ]);
+        expect(sniffContentType(PNG)).toEqual(['image/png']);
+        expect(sniffContentType(bytes('GIF89a', 1, 0))).toEqual(['image/gif']);
+        expect(
+            sniffContentType(bytes('RIFF', 0x24, 0, 0, 0, 'WEBPVP8 ')),
+        ).toEqual(['image/webp']);
+    });
+
+    it('should recognise documents and archives', () => {
+        expect(sniffContentType(PDF)).toEqual(['application/pdf']);
+        expect(sniffContentType(bytes('Rar!', 0x1a, 0x07, 0x01))).toEqual([
+            'application/x-rar-compressed',
+        ]);
+        expect(
+            sniffContentType(bytes('7z', 0xbc, 0xaf, 0x27, 0x1c, 0)),
+        ).toEqual(['application/x-7z-compressed']);
+    });
+
+    it('should return the whole family of container formats', () => {
+        expect(sniffContentType(ZIP)).toEqual([
+            'application/zip',
+            'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+            'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+        ]);
+        expect(
+            sniffContentType(
+                bytes(0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1),
+            ),
+        ).toEqual(['application/msword', 'application/vnd.ms-excel']);
+    });
+
+    it('should recognise text by the absence of binary data', () => {
+        expect(sniffContentType(bytes('# Notes\r\n\tdone é'))).toEqual([
+            'text/plain',
+            'text/markdown',
+        ]);
+        expect(sniffContentType(BINARY)).toBeNull();
+    });
+});
+
+describe('detectContentType', () => {
+    it('should keep a declared type the content agrees with', () => {
+        expect(detectContentType(ZIP, 'report.bin', 'application/zip')).toEqual(
+            {
+                type: 'application/zip',
+                detected: expect.arrayContaining(['application/zip']),
+                mismatch: null,
+            },
+        );
+        expect(detectContentType(bytes('# Title'), 'notes.md').type).toBe(
+            'text/markdown',
+        );
+    });
+
+    it('should detect the type when none is declared', () => {
+        expect(detectContentType(PNG, 'upload', '')).toEqual({
+            type: 'image/png',
+            detected: ['image/png'],
+            mismatch: null,
+        });
+        expect(
+            detectContentType(PDF, 'upload', 'application/octet-stream').type,
+        ).toBe('application/pdf');
+    });
+
+    it('should fall back to the extension for unrecognised content', () => {
+        expect(detectContentType(BINARY, 'archive.tar')).toEqual({
+            type: 'application/x-tar',
+            detected: null,
+            mismatch: null,
+        });
+        expect(detectContentType(BINARY, 'blob').type).toBe(
+            'application/octet-stream',
+        );
+    });
+
+    it('should report a declared type the content contradicts', () => {
+        expect(detectContentType(PDF, 'photo.png', 'image/png')).toEqual({
+            type: 'application/pdf',
+            detected: ['application/pdf'],
+            mismatch: 'image/png',
+        });
+        expect(
+            detectContentType(BINARY, 'notes.txt', 'text/plain').mismatch,
+        ).toBe('text/plain');
+    });
+
+    it('should report a spoofed extension', () => {
+        expect(detectContentType(PDF, 'photo.jpg').mismatch).toBe('image/jpeg');
+    });
+
+    it('should not verify empty files', () => {
+        expect(
+            detectContentType(new Uint8Array(), 'empty.pdf', 'application/pdf'),
+        ).toEqual({
+            type: 'application/pdf',
+            detected: null,
+            mismatch: null,
+        });
+    });
+});
@@ -1,6 +1,7 @@
 import { Element } from '@xmpp/xml';
 import { FileHandler } from '../../../features/files/handlers';
 import { FileNamespaces } from '../../../constants/namespaces';
+import { DiscoInfo } from '../../../types/disco';
 
 describe('FileHandler', () => {
     let fileHandler: FileHandler;
@@ -153,4 +154,51 @@ describe('FileHandler', () => {
             expect(fileHandler.isUploadSlotResponse(mockElement)).toBe(false);
         });
     });
+
+    describe('parseUploadService', () => {
+        const info: DiscoInfo = {
+            jid: 'files.example.com',
+            identities: [{ category: 'store', type: 'file' }],
+            features: [FileNamespaces.HTTP_UPLOAD],
+            extensions: [],
+        };
+
+        it('should read max-file-size from the upload form', () => {
+            const service = fileHandler.parseUploadService({
+                ...info,
+                extensions: [
+                    {
+                        formType: 'urn:example:other',
+                        fields: { 'max-file-size': ['1'] },
+                    },
+                    {
+                        formType: FileNamespaces.HTTP_UPLOAD,
+                        fields: { 'max-file-size': ['5242880'] },
+                    },
+                ],
+            });
+
+            expect(service).toEqual({
+                jid: 'files.example.com',
+                maxFileSize: 5242880,
+            });
+        });
+
+        it('should omit the limit when none is advertised', () => {
+            expect(fileHandler.parseUploadService(info)).toEqual({
+                jid: 'files.example.com',
+            });
+            expect(
+                fileHandler.parseUploadService({
+                    ...info,
+                    extensions: [
+                        {
+                            formType: FileNamespaces.HTTP_UPLOAD,
+                            fields: { 'max-file-size': ['unlimited'] },
+                        },
+                    ],
+                }),
+            ).toEqual({ jid: 'files.example.com' });
+        });
+    });
 });
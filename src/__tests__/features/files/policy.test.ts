@@ -0,0 +1,81 @@
+import {
+    MimeTypePolicy,
+    matchesMimePattern,
+} from '../../../features/files/policy';
+
+describe('matchesMimePattern', () => {
+    it('should match exact types, wildcards and any type', () => {
+        expect(matchesMimePattern('image/png', 'image/png')).toBe(true);
+        expect(matchesMimePattern('image/png', 'IMAGE/*')).toBe(true);
+        expect(matchesMimePattern('image/png', '*')).toBe(true);
+        expect(matchesMimePattern('image/png', '*/*')).toBe(true);
+        expect(matchesMimePattern('image/png', 'image/jpeg')).toBe(false);
+        expect(matchesMimePattern('imagex/png', 'image/*')).toBe(false);
+    });
+});
+
+describe('MimeTypePolicy', () => {
+    it('should allow the supported types by default', () => {
+        const policy = new MimeTypePolicy();
+
+        expect(policy.isAllowed('application/pdf')).toBe(true);
+        expect(policy.isAllowed('text/plain; charset=utf-8')).toBe(true);
+        expect(policy.isAllowed('video/mp4')).toBe(false);
+        expect(policy.isAllowed('')).toBe(false);
+    });
+
+    it('should use allowedMimeTypes when the policy has no allow list', () => {
+        expect(
+            new MimeTypePolicy({}, ['image/png']).isAllowed('image/jpeg'),
+        ).toBe(false);
+        expect(
+            new MimeTypePolicy({ allow: ['image/*'] }, ['image/png']).isAllowed(
+                'image/jpeg',
+            ),
+        ).toBe(true);
+    });
+
+    it('should let denied patterns win over allowed ones', () => {
+        const policy = new MimeTypePolicy({
+            allow: ['audio/*', 'video/*', 'text/csv'],
+            deny: ['video/quicktime'],
+        });
+
+        expect(policy.isAllowed('audio/ogg')).toBe(true);
+        expect(policy.isAllowed('video/mp4')).toBe(true);
+        expect(policy.isAllowed('text/csv')).toBe(true);
+        expect(policy.isAllowed('video/quicktime')).toBe(false);
+        expect(policy.isAllowed('image/png')).toBe(false);
+    });
+
+    it('should apply the most specific size limit', () => {
+        const policy = new MimeTypePolicy({
+            maxSizes: { '*': 100, 'video/*': 50, 'video/mp4': 80 },
+        });
+
+        expect(policy.getMaxSize('video/mp4')).toBe(80);
+        expect(policy.getMaxSize('video/webm')).toBe(50);
+        expect(policy.getMaxSize('image/png')).toBe(100);
+        expect(new MimeTypePolicy().getMaxSize('image/png')).toBeNull();
+    });
+
+    it('should map custom extensions before the built-in ones', () => {
+        const policy = new MimeTypePolicy({
+            extensions: {
+                'audio/ogg': ['opus', '.OGA'],
+                'text/x-log': ['.txt'],
+            },
+        });
+
+        expect(policy.lookupType('voice.opus')).toBe('audio/ogg');
+        expect(policy.lookupType('voice.oga')).toBe('audio/ogg');
+        expect(policy.lookupType('server.txt')).toBe('text/x-log');
+        expect(policy.lookupType('clip.mp4')).toBe('video/mp4');
+        expect(policy.lookupType('README')).toBeUndefined();
+        expect(policy.getExtensions('audio/ogg')).toEqual(
+            expect.arrayContaining(['.opus', '.oga', '.ogg']),
+        );
+        expect(policy.getExtensions('audio/ogg')[0]).toBe('.opus');
+        expect(policy.getExtensions('image/jpeg')).toEqual(['.jpg', '.jpeg']);
+    });
+});
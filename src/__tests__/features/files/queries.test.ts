@@ -1,5 +1,6 @@
 import { Element } from '@xmpp/xml';
 import { FileQueryBuilder } from '../../../features/files/queries';
+import { MimeTypePolicy } from '../../../features/files/policy';
 import { FileUploadError } from '../../../types/files';
 import { FileNamespaces } from '../../../constants/namespaces';
 
@@ -71,6 +72,37 @@ describe('FileQueryBuilder', () => {
             ).toThrow('Unsupported content type');
         });
 
+        it('should enforce the configured policy', () => {
+            const builder = new FileQueryBuilder(
+                new MimeTypePolicy({
+                    allow: ['audio/*', 'image/*'],
+                    deny: ['image/gif'],
+                    maxSizes: { 'audio/*': 512 },
+                }),
+            );
+
+            expect(() =>
+                builder['validateOptions']({
+                    ...validOptions,
+                    filename: 'note.ogg',
+                    contentType: 'audio/ogg',
+                    size: 512,
+                }),
+            ).not.toThrow();
+            expect(() =>
+                builder['validateOptions']({
+                    ...validOptions,
+                    contentType: 'audio/ogg',
+                }),
+            ).toThrow('File size exceeds the limit for its content type');
+            expect(() =>
+                builder['validateOptions']({
+                    ...validOptions,
+                    contentType: 'image/gif',
+                }),
+            ).toThrow('Unsupported content type');
+        });
+
         it('should not throw for valid options', () => {
             expect(() =>
                 queryBuilder['validateOptions'](validOptions),
@@ -126,6 +158,15 @@ describe('FileQueryBuilder', () => {
                 to: 'upload.example.com',
             });
         });
+
+        it('should target a discovered upload service', () => {
+            const iq = queryBuilder['createIQStanza'](
+                'example.com',
+                'files.example.com',
+            );
+
+            expect(iq.attrs.to).toBe('files.example.com');
+        });
     });
 
     describe('createUploadSlotRequest', () => {
@@ -0,0 +1,179 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { Readable } from 'stream';
+import {
+    PreparedAttachment,
+    isReadable,
+    prepareAttachment,
+} from '../../../features/files/sources';
+
+describe('prepareAttachment', () => {
+    it('should use the metadata of a File', async () => {
+        const file = new File(['hello'], 'hello.txt', { type: 'text/plain' });
+
+        const attachment = await prepareAttachment(file);
+
+        expect(attachment).toMatchObject({
+            name: 'hello.txt',
+            size: 5,
+            type: 'text/plain',
+            replayable: true,
+        });
+        expect(attachment.createBody()).toBe(file);
+    });
+
+    it('should prepare Buffers and Uint8Arrays', async () => {
+        const buffer = Buffer.from('hello');
+
+        const attachment = await prepareAttachment({
+            data: buffer,
+            name: 'hello.txt',
+        });
+        const bytes = await prepareAttachment({
+            data: new Uint8Array([1, 2, 3]),
+            name: 'data.bin',
+            type: 'application/zip',
+        });
+
+        expect(attachment).toMatchObject({
+            name: 'hello.txt',
+            size: 5,
+            type: 'text/plain',
+        });
+        expect(attachment.createBody()).toBe(buffer);
+        expect(bytes).toMatchObject({ size: 3, type: 'application/zip' });
+    });
+
+    it('should use the type of a Blob', async () => {
+        const blob = new Blob(['{}'], { type: 'application/json' });
+
+        const attachment = await prepareAttachment({
+            data: blob,
+            name: 'data',
+        });
+
+        expect(attachment).toMatchObject({
+            name: 'data',
+            size: 2,
+            type: 'application/json',
+        });
+    });
+
+    it('should fall back to a generic content type', async () => {
+        const attachment = await prepareAttachment({
+            data: Buffer.from('x'),
+            name: 'unknown',
+        });
+
+        expect(attachment.type).toBe('application/octet-stream');
+    });
+
+    it('should prepare streams that cannot be replayed', async () => {
+        const stream = Readable.from(['hello']);
+
+        const attachment = await prepareAttachment({
+            stream,
+            size: 5,
+            name: 'hello.md',
+        });
+
+        expect(attachment).toMatchObject({
+            size: 5,
+            type: 'text/markdown',
+            replayable: false,
+        });
+        expect(attachment.createBody()).toBe(stream);
+    });
+
+    it('should read the header of a stream without consuming it', async () => {
+        const stream = Readable.from([Buffer.from('%PDF-1.7 content')]);
+        const attachment = await prepareAttachment({
+            stream,
+            size: 16,
+            name: 'doc.pdf',
+        });
+
+        const header = await attachment.readHeader(8);
+        const chunks: Buffer[] = [];
+        for await (const chunk of stream) chunks.push(chunk);
+
+        expect(Buffer.from(header).toString()).toBe('%PDF-1.7');
+        expect(Buffer.concat(chunks).toString()).toBe('%PDF-1.7 content');
+    });
+
+    it('should read the header of in-memory data', async () => {
+        const attachment = await prepareAttachment({
+            data: Buffer.from('hello world'),
+            name: 'hello.txt',
+        });
+
+        const header = await attachment.readHeader(5);
+
+        expect(Buffer.from(header).toString()).toBe('hello');
+        expect(attachment.withType('text/markdown')).toMatchObject({
+            name: 'hello.txt',
+            size: 11,
+            type: 'text/markdown',
+        });
+    });
+
+    it('should require the size of a stream', async () => {
+        await expect(
+            prepareAttachment({
+                stream: Readable.from([]),
+                size: undefined as unknown as number,
+                name: 'hello.txt',
+            }),
+        ).rejects.toThrow('The size of a stream attachment must be given');
+    });
+
+    describe('paths', () => {
+        let dir: string;
+
+        beforeEach(async () => {
+            dir = await fs.mkdtemp(path.join(os.tmpdir(), 'attachments-'));
+        });
+
+        afterEach(async () => {
+            await fs.rm(dir, { recursive: true, force: true });
+        });
+
+        it('should stream files from disk on every attempt', async () => {
+            const file = path.join(dir, 'report.pdf');
+            await fs.writeFile(file, '%PDF-1.7');
+
+            const attachment = await prepareAttachment({ path: file });
+            const first = attachment.createBody();
+            const second = attachment.createBody();
+
+            expect(attachment).toMatchObject({
+                name: 'report.pdf',
+                size: 8,
+                type: 'application/pdf',
+                replayable: true,
+            });
+            expect(isReadable(first)).toBe(true);
+            expect(Buffer.from(await attachment.readHeader(4)).toString()).toBe(
+                '%PDF',
+            );
+            expect(second).not.toBe(first);
+            (first as Readable).destroy();
+            (second as Readable).destroy();
+        });
+
+        it('should reject paths that are not files', async () => {
+            await expect(prepareAttachment({ path: dir })).rejects.toThrow(
+                `${dir} is not a file`,
+            );
+        });
+    });
+
+    it('should return prepared attachments unchanged', async () => {
+        const prepared = new PreparedAttachment('a.txt', 1, 'text/plain', () =>
+            Buffer.from('a'),
+        );
+
+        await expect(prepareAttachment(prepared)).resolves.toBe(prepared);
+    });
+});
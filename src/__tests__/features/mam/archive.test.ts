@@ -0,0 +1,177 @@
+import { Element } from '@xmpp/xml';
+import { ArchiveManager } from '../../../features/mam/archive';
+import { MAMHandler } from '../../../features/mam/handlers';
+import { MAMQueryBuilder } from '../../../features/mam/queries';
+import { ConnectionManager } from '../../../core/connection';
+import { MAMNamespaces } from '../../../constants/namespaces';
+
+jest.mock('../../../core/connection');
+
+// Archive of 5 messages served in pages by the mocked server
+const ARCHIVE = ['msg-1', 'msg-2', 'msg-3', 'msg-4', 'msg-5'];
+
+const createResultMessage = (queryId: string, id: string): Element => {
+    const stanza = new Element('message');
+    const result = stanza.c('result', {
+        xmlns: MAMNamespaces.MAM,
+        queryid: queryId,
+        id,
+    });
+    result
+        .c('forwarded', { xmlns: 'urn:xmpp:forward:0' })
+        .c('message', { from: 'user@domain', to: 'other@domain', id })
+        .c('body')
+        .t(id);
+    return stanza;
+};
+
+const createFin = (queryId: string, ids: string[], complete: boolean) => {
+    const iq = new Element('iq', { type: 'result', id: queryId });
+    const set = iq
+        .c('fin', { xmlns: MAMNamespaces.MAM, complete: String(complete) })
+        .c('set', { xmlns: MAMNamespaces.RSM });
+    if (ids.length) {
+        set.c('first').t(ids[0]);
+        set.c('last').t(ids[ids.length - 1]);
+    }
+    return iq;
+};
+
+describe('ArchiveManager', () => {
+    let archive: ArchiveManager;
+    let handler: MAMHandler;
+    let mockConnection: jest.Mocked<ConnectionManager>;
+
+    beforeEach(() => {
+        handler = new MAMHandler();
+        mockConnection = new ConnectionManager(
+            {} as any,
+        ) as jest.Mocked<ConnectionManager>;
+        archive = new ArchiveManager(
+            mockConnection,
+            handler,
+            new MAMQueryBuilder(),
+        );
+
+        // Simulate the server: stream result messages, then answer with fin
+        mockConnection.sendIQ.mockImplementation(async (iq: Element) => {
+            const query = iq.getChild('query')!;
+            const set = query.getChild('set')!;
+            const max = parseInt(set.getChildText('max')!, 10);
+            const after = set.getChildText('after');
+            const before = set.getChild('before');
+
+            let ids: string[];
+            if (before) {
+                const end = before.text()
+                    ? ARCHIVE.indexOf(before.text())
+                    : ARCHIVE.length;
+                ids = ARCHIVE.slice(Math.max(0, end - max), end);
+            } else {
+                const start = after ? ARCHIVE.indexOf(after) + 1 : 0;
+                ids = ARCHIVE.slice(start, start + max);
+            }
+
+            const queryId = query.attrs.queryid;
+            ids.forEach((id) =>
+                handler.parseResult(createResultMessage(queryId, id)),
+            );
+            const complete = before
+                ? ids[0] === ARCHIVE[0]
+                : ids[ids.length - 1] === ARCHIVE[ARCHIVE.length - 1];
+            return createFin(queryId, ids, complete);
+        });
+    });
+
+    describe('query', () => {
+        it('should resolve with the messages of the query', async () => {
+            const result = await archive.query({ rsm: { max: 2 } });
+            expect(result.messages.map((m) => m.id)).toEqual([
+                'msg-1',
+                'msg-2',
+            ]);
+            expect(result.complete).toBe(false);
+        });
+
+        it('should reject on IQ errors', async () => {
+            mockConnection.sendIQ.mockRejectedValue(new Error('forbidden'));
+            await expect(archive.query({})).rejects.toThrow('forbidden');
+        });
+    });
+
+    describe('iteratePages', () => {
+        it('should follow RSM cursors forward until complete', async () => {
+            const pages: string[][] = [];
+            for await (const page of archive.iteratePages({ pageSize: 2 })) {
+                pages.push(page.messages.map((m) => m.id));
+            }
+
+            expect(pages).toEqual([
+                ['msg-1', 'msg-2'],
+                ['msg-3', 'msg-4'],
+                ['msg-5'],
+            ]);
+            expect(mockConnection.sendIQ).toHaveBeenCalledTimes(3);
+        });
+
+        it('should abort a pending query and discard its results', async () => {
+            const controller = new AbortController();
+            let queryId = '';
+            let answer: (fin: Element) => void = () => undefined;
+            mockConnection.sendIQ.mockImplementationOnce((iq: Element) => {
+                queryId = iq.getChild('query')!.attrs.queryid;
+                handler.parseResult(createResultMessage(queryId, 'msg-1'));
+                return new Promise((resolve) => {
+                    answer = resolve;
+                });
+            });
+
+            const pages = archive.iteratePages({ signal: controller.signal });
+            const next = pages.next();
+            await Promise.resolve();
+            controller.abort();
+
+            await expect(next).rejects.toThrow('Archive iteration aborted');
+
+            // The server keeps streaming until it answers the query
+            handler.parseResult(createResultMessage(queryId, 'msg-2'));
+            answer(createFin(queryId, ['msg-1', 'msg-2'], true));
+            await new Promise((resolve) => setTimeout(resolve, 0));
+
+            const late = handler.parseResult(createFin(queryId, [], true));
+            expect(late?.messages).toEqual([]);
+        });
+    });
+
+    describe('iterate', () => {
+        it('should yield messages newest first when iterating backward', async () => {
+            const ids: string[] = [];
+            for await (const message of archive.iterate({
+                pageSize: 2,
+                direction: 'backward',
+            })) {
+                ids.push(message.id);
+            }
+
+            expect(ids).toEqual(['msg-5', 'msg-4', 'msg-3', 'msg-2', 'msg-1']);
+        });
+
+        it('should stop with an AbortError when the signal aborts', async () => {
+            const controller = new AbortController();
+            const ids: string[] = [];
+
+            await expect(
+                (async () => {
+                    for await (const message of archive.iterate({
+                        pageSize: 2,
+                        signal: controller.signal,
+                    })) {
+                        ids.push(message.id);
+                        controller.abort();
+                    }
+                })(),
+            ).rejects.toThrow('Archive iteration aborted');
+            expect(ids).toEqual(['msg-1']);
+        });
+    });
+});
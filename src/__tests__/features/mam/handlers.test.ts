@@ -1,8 +1,81 @@
 import { Element } from '@xmpp/xml';
 import { MAMHandler } from '../../../features/mam/handlers';
-import { FileNamespaces } from '../../../constants/namespaces';
+import {
+    FileNamespaces,
+    MAMNamespaces,
+    MessageNamespaces,
+} from '../../../constants/namespaces';
 import { Client } from '@xmpp/client';
 
+const createResultMessage = (queryId: string, id: string): Element => {
+    const stanza = new Element('message');
+    const result = new Element('result', {
+        xmlns: MAMNamespaces.MAM,
+        queryid: queryId,
+        id,
+    });
+    const forwarded = new Element('forwarded', {
+        xmlns: 'urn:xmpp:forward:0',
+    });
+    const message = new Element('message', {
+        from: 'user@domain',
+        to: 'other@domain',
+        id,
+    });
+    message.append(new Element('body').t('Hello'));
+    forwarded.append(message);
+    result.append(forwarded);
+    stanza.append(result);
+    return stanza;
+};
+
+const createFin = (queryId: string): Element => {
+    const iq = new Element('iq', { type: 'result', id: queryId });
+    const fin = new Element('fin', {
+        xmlns: MAMNamespaces.MAM,
+        complete: 'true',
+    });
+    const set = new Element('set', { xmlns: MAMNamespaces.RSM });
+    set.append(new Element('first').t('msg-1'));
+    set.append(new Element('last').t('msg-2'));
+    set.append(new Element('count').t('2'));
+    fin.append(set);
+    iq.append(fin);
+    return iq;
+};
+
+const ROOM = 'team@conference.domain';
+
+/**
+ * Result of a room archive query; the payload element is added to the message
+ */
+const createRoomResult = (
+    queryId: string,
+    id: string,
+    nickname: string,
+    body: string,
+    payload?: Element,
+): Element => {
+    const stanza = createResultMessage(queryId, id);
+    const message = stanza
+        .getChild('result')!
+        .getChild('forwarded')!
+        .getChild('message')!;
+    message.attrs.type = 'groupchat';
+    message.attrs.from = `${ROOM}/${nickname}`;
+    message.attrs.to = 'user@domain';
+    message.getChild('body')!.children = [body];
+    message.append(
+        new Element('stanza-id', {
+            xmlns: 'urn:xmpp:sid:0',
+            by: ROOM,
+            id: `sid-${id}`,
+        }),
+    );
+    if (payload) message.append(payload);
+    return stanza;
+};
+
 describe('MAMHandler', () => {
     let handler: MAMHandler;
     let mockClient: jest.Mocked<Client>;
@@ -38,6 +111,217 @@ describe('MAMHandler', () => {
 
             expect(handler.parseResult(stanza)).toBeNull();
         });
+
+        it('should return collected messages when fin arrives', () => {
+            handler.parseResult(createResultMessage('query-1', 'msg-1'));
+            handler.parseResult(createResultMessage('query-1', 'msg-2'));
+
+            const result = handler.parseResult(createFin('query-1'));
+            expect(result).toMatchObject({
+                queryId: 'query-1',
+                complete: true,
+                rsm: { first: 'msg-1', last: 'msg-2', count: 2 },
+            });
+            expect(result?.messages.map((m) => m.id)).toEqual([
+                'msg-1',
+                'msg-2',
+            ]);
+        });
+
+        it('should fold corrections into the original message', () => {
+            handler.parseResult(createResultMessage('query-1', 'msg-1'));
+            const correction = createResultMessage('query-1', 'msg-2');
+            const message = correction
+                .getChild('result')!
+                .getChild('forwarded')!
+                .getChild('message')!;
+            message.getChild('body')!.children = ['Hello, fixed'];
+            message.append(
+                new Element('replace', {
+                    xmlns: MessageNamespaces.REPLACE,
+                    id: 'msg-1',
+                }),
+            );
+            handler.parseResult(correction);
+
+            const result = handler.parseResult(createFin('query-1'));
+            expect(result?.messages).toHaveLength(1);
+            expect(result?.messages[0]).toMatchObject({
+                id: 'msg-1',
+                body: 'Hello, fixed',
+                corrected: true,
+            });
+        });
+    });
+
+    describe('room archives', () => {
+        it('should type archived room messages as groupchat and keep them markable', () => {
+            handler.parseResult(
+                createRoomResult(
+                    'query-1',
+                    'msg-1',
+                    'alice',
+                    'Hello',
+                    new Element('markable', {
+                        xmlns: MessageNamespaces.CHAT_MARKERS,
+                    }),
+                ),
+            );
+
+            const result = handler.parseResult(createFin('query-1'));
+            expect(result?.messages[0]).toMatchObject({
+                type: 'groupchat',
+                roomJid: ROOM,
+                nickname: 'alice',
+                stanza_id: 'sid-msg-1',
+                markable: true,
+            });
+        });
+
+        it('should fold reactions onto the room stanza id', () => {
+            const reactions = new Element('reactions', {
+                xmlns: MessageNamespaces.REACTIONS,
+                id: 'sid-msg-1',
+            });
+            reactions.children.push(new Element('reaction').t('👍'));
+            handler.parseResult(
+                createRoomResult('query-1', 'msg-1', 'alice', 'Hello'),
+            );
+            handler.parseResult(
+                createRoomResult('query-1', 'msg-2', 'bob', '', reactions),
+            );
+
+            const result = handler.parseResult(createFin('query-1'));
+            expect(result!.messages).toHaveLength(1);
+            expect(result!.messages[0].reactions).toEqual([
+                { emoji: '👍', senders: [`${ROOM}/bob`] },
+            ]);
+        });
+
+        it('should ignore corrections from other occupants', () => {
+            const replace = (id: string) =>
+                new Element('replace', {
+                    xmlns: MessageNamespaces.REPLACE,
+                    id,
+                });
+            handler.parseResult(
+                createRoomResult('query-1', 'msg-1', 'bob', 'Hello'),
+            );
+            handler.parseResult(
+                createRoomResult(
+                    'query-1',
+                    'msg-2',
+                    'mallory',
+                    'edited by mallory',
+                    replace('msg-1'),
+                ),
+            );
+            handler.parseResult(
+                createRoomResult(
+                    'query-1',
+                    'msg-3',
+                    'bob',
+                    'Hello, fixed',
+                    replace('msg-1'),
+                ),
+            );
+
+            const result = handler.parseResult(createFin('query-1'));
+            expect(result!.messages).toHaveLength(2);
+            expect(result!.messages[0]).toMatchObject({
+                id: 'msg-1',
+                body: 'Hello, fixed',
+                corrected: true,
+            });
+            expect(result!.messages[1]).toMatchObject({
+                id: 'msg-2',
+                nickname: 'mallory',
+                body: 'edited by mallory',
+            });
+        });
+
+        it('should ignore retractions from other occupants', () => {
+            const retract = (id: string) =>
+                new Element('retract', {
+                    xmlns: MessageNamespaces.RETRACT,
+                    id,
+                });
+            handler.parseResult(
+                createRoomResult('query-1', 'msg-1', 'alice', 'Hello'),
+            );
+            handler.parseResult(
+                createRoomResult('query-1', 'msg-2', 'bob', 'Hi'),
+            );
+            handler.parseResult(
+                createRoomResult(
+                    'query-1',
+                    'msg-3',
+                    'mallory',
+                    'retracted',
+                    retract('msg-1'),
+                ),
+            );
+            handler.parseResult(
+                createRoomResult(
+                    'query-1',
+                    'msg-4',
+                    'bob',
+                    'retracted',
+                    retract('msg-2'),
+                ),
+            );
+
+            const result = handler.parseResult(createFin('query-1'));
+            const [alice, bob] = result!.messages;
+            expect(alice).toMatchObject({ id: 'msg-1', body: 'Hello' });
+            expect(alice.retracted).toBeUndefined();
+            expect(bob).toMatchObject({ id: 'msg-2', body: '' });
+            expect(bob.retracted).toBeDefined();
+            expect(result!.messages.map((m) => m.id)).toEqual([
+                'msg-1',
+                'msg-2',
+                'msg-3',
+            ]);
+        });
+    });
+
+    describe('parseFormFields', () => {
+        it('should list advertised fields without FORM_TYPE', () => {
+            const iq = new Element('iq', { type: 'result' });
+            const x = iq
+                .c('query', { xmlns: MAMNamespaces.MAM })
+                .c('x', { xmlns: MAMNamespaces.DATAFORM, type: 'form' });
+            x.c('field', { var: 'FORM_TYPE', type: 'hidden' });
+            x.c('field', { var: 'with', type: 'jid-single' });
+            x.c('field', { var: 'withtext', type: 'text-single' });
+
+            expect(handler.parseFormFields(iq)).toEqual([
+                { name: 'with', type: 'jid-single', label: undefined },
+                { name: 'withtext', type: 'text-single', label: undefined },
+            ]);
+        });
+
+        it('should read the form of a custom namespace', () => {
+            const iq = new Element('iq', { type: 'result' });
+            iq.c('query', { xmlns: 'urn:xmpp:mam:1' })
+                .c('x', { xmlns: MAMNamespaces.DATAFORM, type: 'form' })
+                .c('field', { var: 'with', type: 'jid-single' });
+
+            expect(handler.parseFormFields(iq)).toEqual([]);
+            expect(handler.parseFormFields(iq, 'urn:xmpp:mam:1')).toEqual([
+                { name: 'with', type: 'jid-single', label: undefined },
+            ]);
+        });
+    });
+
+    describe('discardQuery', () => {
+        it('should drop messages collected for the query', () => {
+            handler.parseResult(createResultMessage('query-1', 'msg-1'));
+            handler.discardQuery('query-1');
+
+            const result = handler.parseResult(createFin('query-1'));
+            expect(result?.messages).toEqual([]);
+        });
     });
 
     describe('parseForwardedMessage', () => {
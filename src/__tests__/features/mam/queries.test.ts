@@ -1,7 +1,12 @@
 import { Element } from '@xmpp/xml';
 import { MAMQueryBuilder } from '../../../features/mam/queries';
 import { MAMNamespaces } from '../../../constants/namespaces';
-import { FormField, MAMQueryOptions, RSMOptions } from '../../../types/mam';
+import {
+    FormField,
+    MAMQueryError,
+    MAMQueryOptions,
+    RSMOptions,
+} from '../../../types/mam';
 
 // Mock uuid to have consistent IDs in tests
 jest.mock('uuid', () => ({
@@ -149,7 +154,143 @@ describe('MAMQueryBuilder', () => {
         });
     });
 
+    describe('createFilterFields with optional filters', () => {
+        it('should map fullText, hasFile and messageTypes', () => {
+            queryBuilder.setServerFields([
+                'withtext',
+                '{urn:xmpp:http:upload:0}has-file',
+                '{urn:xmpp:mam:2}message-type',
+            ]);
+            const fields = queryBuilder['createFilterFields']({
+                fullText: 'hello',
+                hasFile: true,
+                messageTypes: ['chat', 'groupchat'],
+            });
+
+            expect(fields).toEqual([
+                { name: 'withtext', value: 'hello' },
+                {
+                    name: '{urn:xmpp:http:upload:0}has-file',
+                    value: true,
+                    type: 'boolean',
+                },
+                {
+                    name: '{urn:xmpp:mam:2}message-type',
+                    value: ['chat', 'groupchat'],
+                    type: 'list-multi',
+                },
+            ]);
+        });
+
+        it('should require a discovered form for hasFile and messageTypes', () => {
+            expect(() =>
+                queryBuilder['createFilterFields']({ hasFile: true }),
+            ).toThrow(
+                "The hasFile filter requires the server's query form, discover the archive fields first",
+            );
+            expect(() =>
+                queryBuilder['createFilterFields']({
+                    messageTypes: ['chat'],
+                }),
+            ).toThrow(MAMQueryError);
+        });
+
+        it('should use the full text field advertised by the server', () => {
+            queryBuilder.setServerFields([
+                'with',
+                '{urn:xmpp:fulltext:0}fulltext',
+            ]);
+            const fields = queryBuilder['createFilterFields']({
+                fullText: 'hello',
+            });
+            expect(fields).toEqual([
+                { name: '{urn:xmpp:fulltext:0}fulltext', value: 'hello' },
+            ]);
+        });
+
+        it('should include custom fields', () => {
+            const fields = queryBuilder['createFilterFields']({
+                fields: { '{urn:example}tag': 'work' },
+            });
+            expect(fields).toEqual([
+                { name: '{urn:example}tag', value: 'work' },
+            ]);
+        });
+    });
+
     describe('createQuery', () => {
+        it('should map top-level options to filters and RSM', () => {
+            const start = new Date('2024-01-01T00:00:00Z');
+            const query = queryBuilder.createQuery({
+                with: 'user@domain',
+                start,
+                before: 'id-9',
+                limit: 20,
+            });
+            const queryElement = query.getChild('query');
+
+            const fields = queryElement?.getChild('x')?.getChildren('field');
+            expect(fields?.map((f) => f.attrs.var)).toEqual([
+                'FORM_TYPE',
+                'with',
+                'start',
+            ]);
+
+            const set = queryElement?.getChild('set');
+            expect(set?.getChildText('max')).toBe('20');
+            expect(set?.getChildText('before')).toBe('id-9');
+        });
+
+        it('should write every value of a multi-value field', () => {
+            queryBuilder.setServerFields(['{urn:xmpp:mam:2}message-type']);
+            const query = queryBuilder.createQuery({
+                filters: { messageTypes: ['chat', 'normal'] },
+            });
+            const field = query
+                .getChild('query')
+                ?.getChild('x')
+                ?.getChildren('field')
+                .find((f) => f.attrs.var === '{urn:xmpp:mam:2}message-type');
+            expect(field?.getChildren('value').map((v) => v.text())).toEqual([
+                'chat',
+                'normal',
+            ]);
+        });
+
+        it('should reject filters the server does not advertise', () => {
+            queryBuilder.setServerFields(['with', 'start', 'end']);
+
+            expect(() =>
+                queryBuilder.createQuery({ filters: { hasFile: true } }),
+            ).toThrow(MAMQueryError);
+            expect(() =>
+                queryBuilder.createQuery({
+                    filters: { fields: { '{urn:example}tag': 'work' } },
+                }),
+            ).toThrow('Server does not support the {urn:example}tag filter');
+        });
+
+        it('should keep the fields of every archive apart', () => {
+            const room = 'team@conference.example.com';
+            queryBuilder.setServerFields(['{urn:xmpp:http:upload:0}has-file']);
+            queryBuilder.setServerFields(['with'], { to: room });
+
+            const own = queryBuilder.createQuery({
+                filters: { hasFile: true },
+            });
+            expect(own.attrs.to).toBeUndefined();
+            expect(() =>
+                queryBuilder.createQuery({
+                    to: room,
+                    filters: { hasFile: true },
+                }),
+            ).toThrow(MAMQueryError);
+            expect(
+                queryBuilder.createQuery({ to: room, with: 'user@domain' })
+                    .attrs.to,
+            ).toBe(room);
+        });
+
         it('should create basic query', () => {
             const query = queryBuilder.createQuery();
             expect(query.is('iq')).toBe(true);
@@ -198,4 +339,19 @@ describe('MAMQueryBuilder', () => {
             expect(set?.getChildText('after')).toBe('id-123');
         });
     });
+
+    describe('createFormRequest', () => {
+        it('should create a form request IQ', () => {
+            const iq = queryBuilder.createFormRequest();
+            expect(iq.attrs.type).toBe('get');
+            expect(iq.getChild('query')?.attrs.xmlns).toBe(MAMNamespaces.MAM);
+        });
+
+        it('should address the form request to the archive', () => {
+            const iq = queryBuilder.createFormRequest({
+                to: 'team@conference.example.com',
+            });
+            expect(iq.attrs.to).toBe('team@conference.example.com');
+        });
+    });
 });
@@ -3,7 +3,16 @@ import {
     FileError,
 } from '../../../features/messaging/attachments';
 import { ConnectionManager } from '../../../core/connection';
-import { FileUploadSlot, SUPPORTED_MIME_TYPES } from '../../../types/files';
+import { PreparedAttachment } from '../../../features/files/sources';
+import { Readable } from 'stream';
+import {
+    FileUploadSlot,
+    SUPPORTED_MIME_TYPES,
+    UploadConfig,
+} from '../../../types/files';
+import { DiscoInfo } from '../../../types/disco';
+import { FileNamespaces } from '../../../constants/namespaces';
+import { Element } from '@xmpp/xml';
 import axios from 'axios';
 
 // Mock dependencies
@@ -11,6 +20,7 @@ jest.mock('axios');
 jest.mock('../../../core/connection');
 jest.mock('mime-types', () => ({
     lookup: jest.fn().mockReturnValue('application/pdf'),
+    extensions: {},
 }));
 
 describe('AttachmentManager', () => {
@@ -86,7 +96,7 @@ describe('AttachmentManager', () => {
     });
 
     describe('requestUploadSlot', () => {
-        const mockFile = new File([''], 'test.pdf', {
+        const mockFile = new File(['%PDF-1.7'], 'test.pdf', {
             type: 'application/pdf',
         });
         const mockSlot: FileUploadSlot = {
@@ -108,6 +118,29 @@ describe('AttachmentManager', () => {
                 (attachmentManager as any).requestUploadSlot(mockFile),
             ).rejects.toThrow('XMPP connection not available');
         });
+
+        it('should resolve with the slot of the response', async () => {
+            mockConnection.sendIQ.mockResolvedValue(new Element('iq'));
+
+            await expect(
+                (attachmentManager as any).requestUploadSlot(mockFile),
+            ).resolves.toBe(mockSlot);
+        });
+
+        it('should fail with UPLOAD_CANCELLED while waiting for the slot', async () => {
+            const controller = new AbortController();
+            mockConnection.sendIQ.mockReturnValue(new Promise(() => {}));
+
+            const request = (attachmentManager as any).requestUploadSlot(
+                mockFile,
+                controller.signal,
+            );
+            controller.abort();
+
+            await expect(request).rejects.toMatchObject({
+                code: 'UPLOAD_CANCELLED',
+            });
+        });
     });
 
     describe('uploadFileToSlot', () => {
@@ -118,6 +151,12 @@ describe('AttachmentManager', () => {
             getHeaders: { Accept: 'application/pdf' },
         };
         const mockBuffer = Buffer.from('test content');
+        const mockAttachment = new PreparedAttachment(
+            'test.pdf',
+            mockBuffer.length,
+            'application/pdf',
+            () => mockBuffer,
+        );
 
         it('should upload file successfully', async () => {
             (axios.put as jest.Mock).mockResolvedValue({});
@@ -125,7 +164,7 @@ describe('AttachmentManager', () => {
             await expect(
                 (attachmentManager as any).uploadFileToSlot(
                     mockSlot,
-                    mockBuffer,
+                    mockAttachment,
                 ),
             ).resolves.not.toThrow();
 
@@ -145,20 +184,20 @@ describe('AttachmentManager', () => {
             await expect(
                 (attachmentManager as any).uploadFileToSlot(
                     mockSlot,
-                    mockBuffer,
+                    mockAttachment,
                 ),
             ).rejects.toThrow(FileError);
             await expect(
                 (attachmentManager as any).uploadFileToSlot(
                     mockSlot,
-                    mockBuffer,
+                    mockAttachment,
                 ),
             ).rejects.toThrow(/File upload failed/);
         });
     });
 
     describe('uploadFile', () => {
-        const mockFile = new File(['test content'], 'test.pdf', {
+        const mockFile = new File(['%PDF-1.7 doc'], 'test.pdf', {
             type: 'application/pdf',
         });
         Object.defineProperty(mockFile, 'size', { value: 1024 });
@@ -246,4 +285,447 @@ describe('AttachmentManager', () => {
             expect(jpegExtensions).toContain('.jpeg');
         });
     });
+
+    describe('discover', () => {
+        const uploadInfo: DiscoInfo = {
+            jid: 'files.test.com',
+            identities: [{ category: 'store', type: 'file' }],
+            features: [FileNamespaces.HTTP_UPLOAD],
+            extensions: [
+                {
+                    formType: FileNamespaces.HTTP_UPLOAD,
+                    fields: { 'max-file-size': ['1048576'] },
+                },
+            ],
+        };
+        let mockDisco: { findServiceByFeature: jest.Mock };
+
+        beforeEach(() => {
+            mockDisco = {
+                findServiceByFeature: jest.fn().mockResolvedValue(uploadInfo),
+            };
+        });
+
+        const createManager = (config: UploadConfig = {}) =>
+            new AttachmentManager(config, mockConnection, mockDisco as any);
+
+        it('should derive the service and size limit from disco', async () => {
+            const manager = createManager();
+
+            await expect(manager.discover()).resolves.toEqual({
+                jid: 'files.test.com',
+                maxFileSize: 1048576,
+            });
+            expect(mockDisco.findServiceByFeature).toHaveBeenCalledWith(
+                FileNamespaces.HTTP_UPLOAD,
+            );
+            expect(manager.getConfig()).toEqual(
+                expect.objectContaining({
+                    service: 'files.test.com',
+                    maxFileSize: 1048576,
+                }),
+            );
+        });
+
+        it('should let explicit config override discovered values', async () => {
+            const manager = createManager({
+                service: 'custom.test.com',
+                maxFileSize: 2048,
+            });
+
+            await manager.discover();
+
+            expect(manager.getConfig()).toEqual(
+                expect.objectContaining({
+                    service: 'custom.test.com',
+                    maxFileSize: 2048,
+                }),
+            );
+        });
+
+        it('should discover only once per session', async () => {
+            const manager = createManager();
+
+            await Promise.all([manager.discover(), manager.discover()]);
+            expect(mockDisco.findServiceByFeature).toHaveBeenCalledTimes(1);
+
+            manager.reset();
+            expect(manager.getConfig().service).toBeUndefined();
+            await manager.discover();
+            expect(mockDisco.findServiceByFeature).toHaveBeenCalledTimes(2);
+        });
+
+        it('should retry a failed discovery', async () => {
+            mockDisco.findServiceByFeature.mockRejectedValueOnce(
+                new Error('timeout'),
+            );
+            const manager = createManager();
+
+            await expect(manager.discover()).rejects.toThrow('timeout');
+            await expect(manager.discover()).resolves.toEqual(
+                expect.objectContaining({ jid: 'files.test.com' }),
+            );
+        });
+
+        it('should request the slot from the discovered service', async () => {
+            const manager = createManager();
+            (mockConnection.sendIQ as jest.Mock).mockResolvedValue(
+                new Element('iq', { type: 'result' }),
+            );
+            (manager as any).fileHandler.parseUploadSlotResponse = jest
+                .fn()
+                .mockReturnValue({});
+            const file = new File(['%PDF-1.7'], 'test.pdf', {
+                type: 'application/pdf',
+            });
+
+            await manager.discover();
+            await (manager as any).requestUploadSlot(file);
+
+            const iq = (mockConnection.sendIQ as jest.Mock).mock.calls[0][0];
+            expect(iq.attrs.to).toBe('files.test.com');
+        });
+
+        it('should apply the discovered limit before uploading', async () => {
+            const manager = createManager();
+            const file = new File([''], 'large.pdf', {
+                type: 'application/pdf',
+            });
+            Object.defineProperty(file, 'size', { value: 2 * 1048576 });
+
+            await expect(manager.uploadFile(file)).rejects.toThrow(
+                /exceeds maximum allowed size \(1048576 bytes\)/,
+            );
+        });
+
+        it('should fail uploads when the server has no upload service', async () => {
+            mockDisco.findServiceByFeature.mockResolvedValue(null);
+            const manager = createManager();
+            const file = new File(['%PDF-1.7'], 'test.pdf', {
+                type: 'application/pdf',
+            });
+
+            await expect(manager.uploadFile(file)).rejects.toThrow(
+                'The server does not offer an HTTP upload service',
+            );
+            expect(mockConnection.sendIQ).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('upload progress, cancellation and retry', () => {
+        const mockFile = new File(['%PDF-1.7 doc'], 'test.pdf', {
+            type: 'application/pdf',
+        });
+        const slots: FileUploadSlot[] = [1, 2, 3].map((n) => ({
+            getUrl: `http://test.com/get/${n}`,
+            putUrl: `http://test.com/put/${n}`,
+            putHeaders: {},
+            getHeaders: {},
+        }));
+        const httpError = (status?: number) =>
+            Object.assign(new Error('Request failed'), {
+                isAxiosError: true,
+                response: status ? { status } : undefined,
+            });
+
+        beforeEach(() => {
+            const requestUploadSlot = jest.fn();
+            slots.forEach((slot) =>
+                requestUploadSlot.mockResolvedValueOnce(slot),
+            );
+            (attachmentManager as any).requestUploadSlot = requestUploadSlot;
+            (attachmentManager as any).wait = jest
+                .fn()
+                .mockResolvedValue(undefined);
+        });
+
+        it('should report progress and completion with the upload id', async () => {
+            (axios.put as jest.Mock).mockImplementation(
+                async (_url, _data, config) => {
+                    config.onUploadProgress({ loaded: 6 });
+                    config.onUploadProgress({ loaded: 12, total: 12 });
+                },
+            );
+            const onProgress = jest.fn();
+            const progress = jest.fn();
+            const complete = jest.fn();
+            attachmentManager.on('upload:progress', progress);
+            attachmentManager.on('upload:complete', complete);
+
+            const slot = await attachmentManager.uploadFile(mockFile, {
+                id: 'upload-1',
+                onProgress,
+            });
+
+            expect(slot).toBe(slots[0]);
+            expect(onProgress.mock.calls).toEqual([
+                [{ id: 'upload-1', loaded: 6, total: 12 }],
+                [{ id: 'upload-1', loaded: 12, total: 12 }],
+            ]);
+            expect(progress).toHaveBeenCalledTimes(2);
+            expect(complete).toHaveBeenCalledWith({
+                id: 'upload-1',
+                slot: slots[0],
+                file: { name: 'test.pdf', size: 12, type: 'application/pdf' },
+            });
+        });
+
+        it('should retry transient failures with a new slot and backoff', async () => {
+            (axios.put as jest.Mock)
+                .mockRejectedValueOnce(httpError(503))
+                .mockRejectedValueOnce(httpError())
+                .mockResolvedValueOnce({});
+
+            const slot = await attachmentManager.uploadFile(mockFile);
+
+            expect(slot).toBe(slots[2]);
+            expect(
+                (axios.put as jest.Mock).mock.calls.map(([url]) => url),
+            ).toEqual(slots.map((s) => s.putUrl));
+            expect((attachmentManager as any).wait.mock.calls).toEqual([
+                [1000, undefined],
+                [2000, undefined],
+            ]);
+        });
+
+        it('should not retry rejected uploads', async () => {
+            (axios.put as jest.Mock).mockRejectedValue(httpError(413));
+            const failed = jest.fn();
+            attachmentManager.on('upload:failed', failed);
+
+            await expect(
+                attachmentManager.uploadFile(mockFile, { id: 'upload-2' }),
+            ).rejects.toThrow(/File upload failed/);
+
+            expect(axios.put).toHaveBeenCalledTimes(1);
+            expect(failed).toHaveBeenCalledWith({
+                id: 'upload-2',
+                code: 'UPLOAD_FAILED',
+                message: 'File upload failed: Request failed',
+            });
+        });
+
+        it('should give up after the configured retries', async () => {
+            (axios.put as jest.Mock).mockRejectedValue(httpError(500));
+
+            await expect(
+                attachmentManager.uploadFile(mockFile, { retries: 1 }),
+            ).rejects.toThrow(FileError);
+            expect(axios.put).toHaveBeenCalledTimes(2);
+        });
+
+        it('should fail with UPLOAD_CANCELLED when aborted', async () => {
+            const controller = new AbortController();
+            (axios.put as jest.Mock).mockImplementation(async () => {
+                controller.abort();
+                throw new Error('canceled');
+            });
+            const failed = jest.fn();
+            attachmentManager.on('upload:failed', failed);
+
+            await expect(
+                attachmentManager.uploadFile(mockFile, {
+                    id: 'upload-3',
+                    signal: controller.signal,
+                }),
+            ).rejects.toMatchObject({ code: 'UPLOAD_CANCELLED' });
+
+            expect(axios.put).toHaveBeenCalledTimes(1);
+            expect(axios.put).toHaveBeenCalledWith(
+                slots[0].putUrl,
+                expect.anything(),
+                expect.objectContaining({ signal: controller.signal }),
+            );
+            expect(failed).toHaveBeenCalledWith(
+                expect.objectContaining({
+                    id: 'upload-3',
+                    code: 'UPLOAD_CANCELLED',
+                }),
+            );
+        });
+
+        it('should not start an upload that was already cancelled', async () => {
+            const controller = new AbortController();
+            controller.abort();
+
+            await expect(
+                attachmentManager.uploadFile(mockFile, {
+                    signal: controller.signal,
+                }),
+            ).rejects.toMatchObject({ code: 'UPLOAD_CANCELLED' });
+            expect(
+                (attachmentManager as any).requestUploadSlot,
+            ).not.toHaveBeenCalled();
+        });
+
+        it('should stream Node readables once with their length', async () => {
+            (axios.put as jest.Mock).mockRejectedValue(httpError(503));
+            const stream = Readable.from([Buffer.from('%PDF-1.7 doc')]);
+
+            await expect(
+                attachmentManager.uploadFile({
+                    stream,
+                    size: 12,
+                    name: 'video.pdf',
+                }),
+            ).rejects.toThrow(FileError);
+
+            expect(axios.put).toHaveBeenCalledTimes(1);
+            expect(axios.put).toHaveBeenCalledWith(
+                slots[0].putUrl,
+                stream,
+                expect.objectContaining({
+                    headers: expect.objectContaining({
+                        'Content-Type': 'application/pdf',
+                        'Content-Length': '12',
+                    }),
+                }),
+            );
+        });
+
+        it('should upload in-memory data with its metadata', async () => {
+            (axios.put as jest.Mock).mockResolvedValue({});
+            const complete = jest.fn();
+            attachmentManager.on('upload:complete', complete);
+            const data = Buffer.from('%PDF-1.7');
+
+            await attachmentManager.uploadFile(
+                { data, name: 'doc.pdf', type: 'application/pdf' },
+                { id: 'upload-4' },
+            );
+
+            expect(axios.put).toHaveBeenCalledWith(
+                slots[0].putUrl,
+                data,
+                expect.anything(),
+            );
+            expect(complete).toHaveBeenCalledWith({
+                id: 'upload-4',
+                slot: slots[0],
+                file: { name: 'doc.pdf', size: 8, type: 'application/pdf' },
+            });
+        });
+    });
+
+    describe('prepare', () => {
+        it('should detect the type of files without a declared type', async () => {
+            const file = new File(['%PDF-1.7'], 'scan.pdf', { type: '' });
+
+            const attachment = await attachmentManager.prepare(file);
+
+            expect(attachment.type).toBe('application/pdf');
+        });
+
+        it('should reject files whose content contradicts their type', async () => {
+            const file = new File(['%PDF-1.7'], 'photo.png', {
+                type: 'image/png',
+            });
+            const failed = jest.fn();
+            attachmentManager.on('upload:failed', failed);
+
+            await expect(attachmentManager.prepare(file)).rejects.toMatchObject(
+                { code: 'TYPE_MISMATCH' },
+            );
+            await expect(
+                attachmentManager.uploadFile(file, { id: 'upload-5' }),
+            ).rejects.toThrow('The content of photo.png is not image/png');
+            expect(failed).toHaveBeenCalledWith(
+                expect.objectContaining({
+                    id: 'upload-5',
+                    code: 'TYPE_MISMATCH',
+                }),
+            );
+            expect(axios.put).not.toHaveBeenCalled();
+        });
+
+        it('should report sources that cannot be read', async () => {
+            await expect(
+                attachmentManager.prepare({ path: '/nonexistent/file.pdf' }),
+            ).rejects.toMatchObject({ code: 'UPLOAD_FAILED' });
+        });
+    });
+
+    describe('MIME policy', () => {
+        beforeEach(() => {
+            attachmentManager = new AttachmentManager(
+                {
+                    maxFileSize: 1024,
+                    policy: {
+                        allow: ['audio/*', 'application/pdf'],
+                        deny: ['audio/x-wav'],
+                        maxSizes: { 'application/pdf': 100 },
+                        extensions: { 'audio/ogg': ['.opus'] },
+                    },
+                },
+                mockConnection,
+            );
+        });
+
+        const info = (type: string, size: number) => ({
+            name: 'file',
+            type,
+            size,
+        });
+
+        it('should allow wildcard types and reject denied ones', () => {
+            expect(() =>
+                (attachmentManager as any).validateFile(info('audio/ogg', 500)),
+            ).not.toThrow();
+            expect(() =>
+                (attachmentManager as any).validateFile(
+                    info('audio/x-wav', 500),
+                ),
+            ).toThrow(/File type audio\/x-wav is not allowed/);
+            expect(attachmentManager.isSupportedFileType('audio/mpeg')).toBe(
+                true,
+            );
+            expect(attachmentManager.isSupportedFileType('image/png')).toBe(
+                false,
+            );
+        });
+
+        it('should enforce per-type size limits', () => {
+            expect(() =>
+                (attachmentManager as any).validateFile(
+                    info('application/pdf', 200),
+                ),
+            ).toThrow(
+                /exceeds maximum allowed size for application\/pdf \(100 bytes\)/,
+            );
+            expect(() =>
+                (attachmentManager as any).validateFile(
+                    info('audio/ogg', 2048),
+                ),
+            ).toThrow(/exceeds maximum allowed size \(1024 bytes\)/);
+        });
+
+        it('should type files through custom extension mappings', async () => {
+            const attachment = await attachmentManager.prepare({
+                data: Buffer.from([0x4f, 0x67, 0x67, 0x53, 0x00, 0x02]),
+                name: 'voice.opus',
+            });
+
+            expect(attachment.type).toBe('audio/ogg');
+            expect(attachmentManager.getFileExtension('audio/ogg')[0]).toBe(
+                '.opus',
+            );
+        });
+
+        it('should request slots for types allowed by the policy', async () => {
+            (mockConnection.sendIQ as jest.Mock).mockResolvedValue(
+                new Element('iq', { type: 'result' }),
+            );
+            (attachmentManager as any).fileHandler.parseUploadSlotResponse =
+                jest.fn().mockReturnValue({});
+
+            await (attachmentManager as any).requestUploadSlot(
+                info('audio/ogg', 500),
+            );
+
+            const request = (
+                mockConnection.sendIQ as jest.Mock
+            ).mock.calls[0][0].getChild('request');
+            expect(request.attrs['content-type']).toBe('audio/ogg');
+        });
+    });
 });
@@ -0,0 +1,106 @@
+import { Element } from '@xmpp/xml';
+import { jid } from '@xmpp/jid';
+import { CarbonsManager } from '../../../features/messaging/carbons';
+import { ConnectionManager } from '../../../core/connection';
+import { MessageNamespaces } from '../../../constants/namespaces';
+
+jest.mock('../../../core/connection');
+
+const createCarbon = (
+    wrapper: 'sent' | 'received',
+    from = 'me@example.com',
+): Element => {
+    const stanza = new Element('message', {
+        from,
+        to: 'me@example.com/web',
+    });
+    stanza
+        .c(wrapper, { xmlns: MessageNamespaces.CARBONS })
+        .c('forwarded', { xmlns: MessageNamespaces.FORWARD })
+        .c('message', {
+            from: 'me@example.com/phone',
+            to: 'user@example.com',
+            type: 'chat',
+            id: 'msg-1',
+        })
+        .c('body')
+        .t('Hello');
+    return stanza;
+};
+
+describe('CarbonsManager', () => {
+    let carbons: CarbonsManager;
+    let mockConnection: jest.Mocked<ConnectionManager>;
+
+    beforeEach(() => {
+        mockConnection = new ConnectionManager(
+            {} as any,
+        ) as jest.Mocked<ConnectionManager>;
+        mockConnection.getClient.mockReturnValue({
+            jid: jid('me@example.com/web'),
+        } as any);
+        mockConnection.sendIQ.mockResolvedValue(new Element('iq'));
+        carbons = new CarbonsManager(mockConnection);
+    });
+
+    describe('enable and disable', () => {
+        it('should send the enable request', async () => {
+            await carbons.enable();
+
+            const iq = mockConnection.sendIQ.mock.calls[0][0];
+            expect(iq.attrs.type).toBe('set');
+            expect(
+                iq.getChild('enable', MessageNamespaces.CARBONS),
+            ).toBeDefined();
+            expect(carbons.isEnabled()).toBe(true);
+        });
+
+        it('should send the disable request', async () => {
+            await carbons.enable();
+            await carbons.disable();
+
+            const iq = mockConnection.sendIQ.mock.calls[1][0];
+            expect(
+                iq.getChild('disable', MessageNamespaces.CARBONS),
+            ).toBeDefined();
+            expect(carbons.isEnabled()).toBe(false);
+        });
+
+        it('should stay disabled when the server refuses', async () => {
+            mockConnection.sendIQ.mockRejectedValue(new Error('not-allowed'));
+
+            await expect(carbons.enable()).rejects.toThrow('not-allowed');
+            expect(carbons.isEnabled()).toBe(false);
+        });
+    });
+
+    describe('unwrap', () => {
+        it('should unwrap a sent copy as outgoing', () => {
+            const copy = carbons.unwrap(createCarbon('sent'));
+
+            expect(copy?.direction).toBe('outgoing');
+            expect(copy?.message.attrs.id).toBe('msg-1');
+            expect(copy?.message.getChildText('body')).toBe('Hello');
+        });
+
+        it('should unwrap a received copy as incoming', () => {
+            expect(carbons.unwrap(createCarbon('received'))?.direction).toBe(
+                'incoming',
+            );
+        });
+
+        it('should reject copies not sent by our own account', () => {
+            const forged = createCarbon('sent', 'mallory@example.com');
+
+            expect(carbons.isCarbon(forged)).toBe(true);
+            expect(carbons.unwrap(forged)).toBeNull();
+        });
+
+        it('should ignore regular messages', () => {
+            const message = new Element('message', {
+                from: 'user@example.com',
+            });
+            expect(carbons.isCarbon(message)).toBe(false);
+        });
+    });
+});
@@ -0,0 +1,85 @@
+import { ChatStateManager } from '../../../features/messaging/chat_states';
+import { MessageManager } from '../../../features/messaging/messages';
+import { ConnectionManager } from '../../../core/connection';
+
+jest.mock('../../../core/connection');
+
+describe('ChatStateManager', () => {
+    let chatStates: ChatStateManager;
+    let mockConnection: jest.Mocked<ConnectionManager>;
+
+    const sentStates = () =>
+        mockConnection.sendStanza.mock.calls.map(
+            ([message]) => new MessageManager().parseChatState(message)?.state,
+        );
+
+    beforeEach(() => {
+        jest.useFakeTimers();
+        mockConnection = new ConnectionManager(
+            {} as any,
+        ) as jest.Mocked<ConnectionManager>;
+        mockConnection.sendStanza.mockResolvedValue();
+        chatStates = new ChatStateManager(
+            mockConnection,
+            new MessageManager(),
+            { pauseTimeout: 1000, inactiveTimeout: 5000 },
+        );
+    });
+
+    afterEach(() => {
+        chatStates.reset();
+        jest.useRealTimers();
+    });
+
+    it('should send a state only when it changes', async () => {
+        await chatStates.setChatState('user@example.com', 'composing');
+        await chatStates.setChatState('user@example.com', 'composing');
+        await chatStates.setChatState('user@example.com', 'active');
+
+        expect(sentStates()).toEqual(['composing', 'active']);
+        expect(mockConnection.sendStanza.mock.calls[0][0].attrs.to).toBe(
+            'user@example.com',
+        );
+    });
+
+    it('should pause after composing without input', async () => {
+        await chatStates.setChatState('user@example.com', 'composing');
+
+        jest.advanceTimersByTime(800);
+        await chatStates.setChatState('user@example.com', 'composing');
+        jest.advanceTimersByTime(800);
+        expect(sentStates()).toEqual(['composing']);
+
+        jest.advanceTimersByTime(200);
+        expect(sentStates()).toEqual(['composing', 'paused']);
+        expect(chatStates.getChatState('user@example.com')).toBe('paused');
+    });
+
+    it('should become inactive after paused', async () => {
+        await chatStates.setChatState('user@example.com', 'paused');
+
+        jest.advanceTimersByTime(5000);
+
+        expect(sentStates()).toEqual(['paused', 'inactive']);
+    });
+
+    it('should forget the conversation when gone', async () => {
+        await chatStates.setChatState('user@example.com', 'composing');
+        await chatStates.setChatState('user@example.com', 'gone');
+
+        jest.advanceTimersByTime(10000);
+
+        expect(sentStates()).toEqual(['composing', 'gone']);
+        expect(chatStates.hasConversation('user@example.com')).toBe(false);
+    });
+
+    it('should cancel the pause when a message is sent', async () => {
+        await chatStates.setChatState('user@example.com', 'composing');
+        chatStates.handleMessageSent('user@example.com');
+
+        jest.advanceTimersByTime(1000);
+
+        expect(sentStates()).toEqual(['composing']);
+        expect(chatStates.getChatState('user@example.com')).toBe('active');
+    });
+});
@@ -0,0 +1,99 @@
+import { mergeCorrections } from '../../../features/messaging/corrections';
+import { BaseMessage, XMPPMessage } from '../../../types/messages';
+
+const chat = (
+    id: string,
+    body: string,
+    extra: Partial<BaseMessage> = {},
+): XMPPMessage => ({
+    id,
+    stanza_id: `stanza-${id}`,
+    from: 'user@example.com/phone',
+    to: 'me@example.com',
+    time: new Date(0),
+    type: 'chat',
+    body,
+    ...extra,
+});
+
+describe('mergeCorrections', () => {
+    it('should replace the body of the original message', () => {
+        const merged = mergeCorrections([
+            chat('msg-1', 'Helo'),
+            chat('msg-2', 'Other'),
+            chat('msg-3', 'Hello', {
+                replaces: 'msg-1',
+                from: 'user@example.com/laptop',
+            }),
+        ]);
+
+        expect(merged.map((m) => [m.id, m.body])).toEqual([
+            ['msg-1', 'Hello'],
+            ['msg-2', 'Other'],
+        ]);
+        expect(merged[0].corrected).toBe(true);
+        expect(merged[0].from).toBe('user@example.com/phone');
+    });
+
+    it('should apply chained corrections in order', () => {
+        const merged = mergeCorrections([
+            chat('msg-1', 'one'),
+            chat('msg-2', 'two', { replaces: 'msg-1' }),
+            chat('msg-3', 'three', { replaces: 'msg-2' }),
+            chat('msg-4', 'four', { replaces: 'msg-1' }),
+        ]);
+
+        expect(merged).toHaveLength(1);
+        expect(merged[0].body).toBe('four');
+    });
+
+    it('should ignore corrections from another sender', () => {
+        const merged = mergeCorrections([
+            chat('msg-1', 'Hello'),
+            chat('msg-2', 'Hijacked', {
+                replaces: 'msg-1',
+                from: 'mallory@example.com',
+            }),
+        ]);
+
+        expect(merged.map((m) => m.body)).toEqual(['Hello', 'Hijacked']);
+    });
+
+    it('should compare room corrections by occupant', () => {
+        const room = 'team@conference.example.com';
+        const file: XMPPMessage = {
+            ...chat('msg-1', 'report.pdf', { from: `${room}/bob` }),
+            type: 'file',
+            fileUrl: 'https://upload.example.com/report.pdf',
+            fileName: 'report.pdf',
+            fileSize: '1024',
+            mimeType: 'application/pdf',
+        };
+        const hijack: XMPPMessage = {
+            ...chat('msg-2', 'Hijacked', {
+                replaces: 'msg-1',
+                from: `${room}/mallory`,
+            }),
+            type: 'groupchat',
+            roomJid: room,
+            nickname: 'mallory',
+        };
+
+        const merged = mergeCorrections([file, hijack]);
+
+        expect(merged.map((m) => m.body)).toEqual(['report.pdf', 'Hijacked']);
+    });
+
+    it('should keep corrections whose original is missing', () => {
+        const merged = mergeCorrections([
+            chat('msg-2', 'first fix', { replaces: 'msg-1' }),
+            chat('msg-3', 'second fix', { replaces: 'msg-1' }),
+        ]);
+
+        expect(merged).toHaveLength(1);
+        expect(merged[0]).toMatchObject({
+            replaces: 'msg-1',
+            body: 'second fix',
+        });
+    });
+});
@@ -3,6 +3,8 @@ import { MessageManager } from '../../../features/messaging/messages';
 import {
     FileNamespaces,
     MessageNamespaces,
+    PresenceNamespaces,
+    StanzaNamespaces,
 } from '../../../constants/namespaces';
 import { FileUploadSlot } from '../../../types/files';
 
@@ -134,6 +136,87 @@ describe('MessageManager', () => {
                 type: 'presence',
                 from: 'user@example.com',
                 status: 'available',
+                priority: 0,
+            });
+        });
+
+        it('should parse show, status, priority and resource', () => {
+            const stanza = new Element('presence', {
+                from: 'user@example.com/phone',
+            });
+            stanza.c('show').t('away');
+            stanza.c('status').t('Out for lunch');
+            stanza.c('priority').t('-5');
+
+            expect(messageManager.parsePresence(stanza)).toEqual({
+                type: 'presence',
+                from: 'user@example.com/phone',
+                status: 'available',
+                resource: 'phone',
+                show: 'away',
+                statusText: 'Out for lunch',
+                priority: -5,
+            });
+        });
+
+        it('should parse unavailable presence and ignore invalid values', () => {
+            const stanza = new Element('presence', {
+                from: 'user@example.com/phone',
+                type: 'unavailable',
+            });
+            stanza.c('show').t('sleeping');
+            stanza.c('priority').t('500');
+
+            const presence = messageManager.parsePresence(stanza);
+            expect(presence?.status).toBe('unavailable');
+            expect(presence?.show).toBeUndefined();
+            expect(presence?.priority).toBe(127);
+        });
+
+        it('should parse entity capabilities', () => {
+            const stanza = new Element('presence', {
+                from: 'user@example.com/phone',
+            });
+            stanza.c('c', {
+                xmlns: PresenceNamespaces.CAPS,
+                hash: 'sha-1',
+                node: 'https://example.com/client',
+                ver: 'QgayPKawpkPSDYmwT/WM94uAlu0=',
+            });
+
+            expect(messageManager.parsePresence(stanza)?.caps).toEqual({
+                hash: 'sha-1',
+                node: 'https://example.com/client',
+                ver: 'QgayPKawpkPSDYmwT/WM94uAlu0=',
+            });
+        });
+
+        it('should parse subscription presence', () => {
+            const stanza = new Element('presence', {
+                from: 'user@example.com',
+                type: 'subscribe',
+            });
+
+            stanza.c('nick', { xmlns: PresenceNamespaces.NICK }).t('Juliet');
+
+            const presence = messageManager.parsePresence(stanza);
+            expect(presence?.subscription).toBe('subscribe');
+            expect(presence?.nick).toBe('Juliet');
+        });
+
+        it('should parse presence errors', () => {
+            const stanza = new Element('presence', {
+                from: 'user@example.com',
+                type: 'error',
+            });
+            stanza.c('error', { type: 'cancel' }).c('remote-server-not-found', {
+                xmlns: StanzaNamespaces.ERRORS,
+            });
+
+            expect(messageManager.parsePresence(stanza)?.error).toEqual({
+                code: 'remote-server-not-found',
+                message: 'remote-server-not-found',
+                type: 'cancel',
             });
         });
 
@@ -168,6 +251,25 @@ describe('MessageManager', () => {
             });
         });
 
+        it('should parse the id of a corrected message', () => {
+            const stanza = new Element('message', {
+                from: 'user@example.com',
+                id: 'msg-2',
+            });
+            stanza.c('body').t('Hello, fixed');
+            stanza.c('replace', {
+                xmlns: MessageNamespaces.REPLACE,
+                id: 'msg-1',
+            });
+
+            const message = messageManager.parseMessage(stanza);
+            expect(message).toMatchObject({
+                id: 'msg-2',
+                body: 'Hello, fixed',
+                replaces: 'msg-1',
+            });
+        });
+
         it('should parse a file message', () => {
             const stanza = new Element('message', {
                 from: 'user@example.com',
@@ -203,6 +305,24 @@ describe('MessageManager', () => {
             });
         });
 
+        it('should parse a groupchat message', () => {
+            const stanza = new Element('message', {
+                from: 'team@conference.example.com/alice',
+                to: 'recipient@example.com',
+                id: 'msg-1',
+                type: 'groupchat',
+            });
+            stanza.append(new Element('body').t('Hello room'));
+
+            const message = messageManager.parseMessage(stanza);
+            expect(message).toMatchObject({
+                type: 'groupchat',
+                body: 'Hello room',
+                roomJid: 'team@conference.example.com',
+                nickname: 'alice',
+            });
+        });
+
         it('should handle stanza-id in messages', () => {
             const stanza = new Element('message', {
                 from: 'user@example.com',
@@ -263,4 +383,258 @@ describe('MessageManager', () => {
             expect(receipt).toBeNull();
         });
     });
+
+    describe('chat states', () => {
+        it('should create a standalone chat state message', () => {
+            const message = messageManager.createChatStateMessage(
+                'user@example.com',
+                'composing',
+            );
+
+            expect(message.attrs.type).toBe('chat');
+            expect(message.getChild('body')).toBeUndefined();
+            expect(
+                message.getChild('composing', MessageNamespaces.CHAT_STATES),
+            ).toBeDefined();
+        });
+
+        it('should add a chat state to a chat message', () => {
+            const message = messageManager.createChatMessage(
+                'user@example.com',
+                'Hello',
+                { chatState: 'active' },
+            );
+
+            expect(
+                message.getChild('active', MessageNamespaces.CHAT_STATES),
+            ).toBeDefined();
+        });
+
+        it('should parse a chat state notification', () => {
+            const stanza = new Element('message', {
+                from: 'user@example.com/phone',
+                to: 'me@example.com',
+                type: 'chat',
+            });
+            stanza.c('paused', { xmlns: MessageNamespaces.CHAT_STATES });
+
+            expect(messageManager.parseChatState(stanza)).toEqual({
+                from: 'user@example.com/phone',
+                to: 'me@example.com',
+                state: 'paused',
+            });
+        });
+
+        it('should ignore unknown elements in the chat states namespace', () => {
+            const stanza = new Element('message', {
+                from: 'user@example.com',
+            });
+            stanza.c('typing', { xmlns: MessageNamespaces.CHAT_STATES });
+
+            expect(messageManager.parseChatState(stanza)).toBeNull();
+        });
+    });
+
+    describe('retractions', () => {
+        it('should create a retraction with a fallback body', () => {
+            const message = messageManager.createRetractionMessage(
+                'user@example.com',
+                'msg-1',
+            );
+
+            expect(message.attrs.type).toBe('chat');
+            expect(
+                message.getChild('retract', MessageNamespaces.RETRACT)?.attrs
+                    .id,
+            ).toBe('msg-1');
+            expect(
+                message.getChild('fallback', MessageNamespaces.FALLBACK)?.attrs
+                    .for,
+            ).toBe(MessageNamespaces.RETRACT);
+            expect(message.getChildText('body')).toBeTruthy();
+        });
+
+        it('should parse a retraction without its fallback body', () => {
+            const stanza = messageManager.createRetractionMessage(
+                'me@example.com',
+                'msg-1',
+            );
+            stanza.attrs.from = 'user@example.com/phone';
+
+            const message = messageManager.parseMessage(stanza);
+            expect(message?.body).toBe('');
+            expect(message?.retracts).toEqual({
+                id: 'msg-1',
+                moderated: false,
+            });
+        });
+
+        it('should parse a moderated retraction from a room', () => {
+            const stanza = new Element('message', {
+                from: 'team@conference.example.com',
+                type: 'groupchat',
+                id: 'mod-1',
+            });
+            const retract = stanza.c('retract', {
+                xmlns: MessageNamespaces.RETRACT,
+                id: 'stanza-1',
+            });
+            retract.c('moderated', {
+                xmlns: MessageNamespaces.MODERATE,
+                by: 'team@conference.example.com/mod',
+            });
+            retract.c('reason').t('Spam');
+
+            const message = messageManager.parseMessage(stanza);
+            expect(message?.retracts).toEqual({
+                id: 'stanza-1',
+                moderated: true,
+                by: 'team@conference.example.com/mod',
+                reason: 'Spam',
+            });
+        });
+    });
+
+    describe('reactions', () => {
+        it('should create a reaction message', () => {
+            const message = messageManager.createReactionMessage(
+                'team@conference.example.com',
+                'stanza-1',
+                ['👍', '👍', '🎉'],
+                'groupchat',
+            );
+
+            expect(message.attrs.type).toBe('groupchat');
+            const reactions = message.getChild(
+                'reactions',
+                MessageNamespaces.REACTIONS,
+            );
+            expect(reactions?.attrs.id).toBe('stanza-1');
+            expect(
+                reactions?.getChildren('reaction').map((r) => r.getText()),
+            ).toEqual(['👍', '🎉']);
+        });
+
+        it('should parse the reactions of a message', () => {
+            const stanza = messageManager.createReactionMessage(
+                'me@example.com',
+                'msg-1',
+                ['👍'],
+            );
+            stanza.attrs.from = 'user@example.com';
+
+            const message = messageManager.parseMessage(stanza);
+            expect(message?.reactsTo).toEqual({ id: 'msg-1', emojis: ['👍'] });
+        });
+    });
+
+    describe('replies', () => {
+        it('should round-trip a reply with its quote', () => {
+            const stanza = messageManager.createChatMessage(
+                'anna@example.com',
+                'Great idea!',
+                {
+                    replyTo: {
+                        id: 'msg-1',
+                        jid: 'anna@example.com',
+                        quotedText: 'We should bake a cake',
+                    },
+                },
+            );
+            expect(stanza.getChildText('body')).toBe(
+                '> We should bake a cake\nGreat idea!',
+            );
+
+            const message = messageManager.parseMessage(stanza);
+            expect(message?.body).toBe('Great idea!');
+            expect(message?.replyTo).toEqual({
+                id: 'msg-1',
+                jid: 'anna@example.com',
+                quotedText: 'We should bake a cake',
+            });
+        });
+    });
+
+    describe('chat markers', () => {
+        it('should request markers when asked to', () => {
+            const message = messageManager.createChatMessage(
+                'user@example.com',
+                'Hello',
+                { requestMarkable: true },
+            );
+
+            expect(
+                message.getChild('markable', MessageNamespaces.CHAT_MARKERS),
+            ).toBeDefined();
+            expect(messageManager.parseMessage(message)?.markable).toBe(true);
+        });
+
+        it('should parse a displayed marker', () => {
+            const stanza = new Element('message', {
+                from: 'user@example.com/phone',
+            });
+            stanza.c('displayed', {
+                xmlns: MessageNamespaces.CHAT_MARKERS,
+                id: 'msg-1',
+            });
+
+            expect(messageManager.parseMarker(stanza)).toEqual({
+                from: 'user@example.com/phone',
+                id: 'msg-1',
+                type: 'displayed',
+            });
+        });
+
+        it('should ignore receipts', () => {
+            const stanza = new Element('message', {
+                from: 'user@example.com',
+            });
+            stanza.c('received', {
+                xmlns: MessageNamespaces.RECEIPT,
+                id: 'msg-1',
+            });
+
+            expect(messageManager.parseMarker(stanza)).toBeNull();
+        });
+    });
+
+    describe('delivery receipts', () => {
+        it('should request a receipt when asked to', () => {
+            const message = messageManager.createChatMessage(
+                'user@example.com',
+                'Hello',
+                { requestReceipt: true },
+            );
+
+            expect(
+                message.getChild('request', MessageNamespaces.RECEIPT),
+            ).toBeDefined();
+            expect(messageManager.parseMessage(message)?.receiptRequested).toBe(
+                true,
+            );
+        });
+
+        it('should parse a bounced message as failed receipt', () => {
+            const stanza = new Element('message', {
+                from: 'user@example.com',
+                id: 'msg-1',
+                type: 'error',
+            });
+            const error = stanza.c('error', { type: 'cancel' });
+            error.c('service-unavailable', {
+                xmlns: 'urn:ietf:params:xml:ns:xmpp-stanzas',
+            });
+
+            expect(messageManager.parseReceipt(stanza)).toEqual({
+                id: 'msg-1',
+                from: 'user@example.com',
+                type: 'failed',
+                error: {
+                    code: 'service-unavailable',
+                    message: 'service-unavailable',
+                    type: 'cancel',
+                },
+            });
+        });
+    });
 });
@@ -0,0 +1,189 @@
+import {
+    MemoryOutboxStorage,
+    OutboxManager,
+} from '../../../features/messaging/outbox';
+import { MessageManager } from '../../../features/messaging/messages';
+import { ConnectionManager } from '../../../core/connection';
+import { OutboxEntry } from '../../../types/outbox';
+
+jest.mock('../../../core/connection');
+
+describe('OutboxManager', () => {
+    let outbox: OutboxManager;
+    let mockConnection: jest.Mocked<ConnectionManager>;
+    let storage: MemoryOutboxStorage;
+    let connected: boolean;
+
+    beforeEach(() => {
+        connected = false;
+        mockConnection = new ConnectionManager(
+            {} as any,
+        ) as jest.Mocked<ConnectionManager>;
+        mockConnection.isConnected.mockImplementation(() => connected);
+        mockConnection.sendStanza.mockResolvedValue();
+        storage = new MemoryOutboxStorage();
+        outbox = new OutboxManager(mockConnection, new MessageManager(), {
+            enabled: true,
+            storage,
+            maxAttempts: 2,
+        });
+    });
+
+    describe('enqueue', () => {
+        it('should keep messages queued while disconnected', async () => {
+            const onQueued = jest.fn();
+            outbox.on('outbox:queued', onQueued);
+
+            const entry = await outbox.enqueue('user@example.com', 'Hello');
+
+            expect(entry.state).toBe('queued');
+            expect(onQueued).toHaveBeenCalledWith(
+                expect.objectContaining({ id: entry.id, state: 'queued' }),
+            );
+            expect(mockConnection.sendStanza).not.toHaveBeenCalled();
+            expect(await storage.load()).toHaveLength(1);
+        });
+
+        it('should send immediately when connected', async () => {
+            connected = true;
+            const onSent = jest.fn();
+            outbox.on('outbox:sent', onSent);
+
+            const entry = await outbox.enqueue('user@example.com', 'Hello');
+
+            const message = mockConnection.sendStanza.mock.calls[0][0];
+            expect(message.attrs.id).toBe(entry.id);
+            expect(onSent).toHaveBeenCalledWith(
+                expect.objectContaining({ id: entry.id, state: 'sent' }),
+            );
+            expect(outbox.getEntries()).toEqual([]);
+        });
+    });
+
+    describe('flush', () => {
+        it('should send queued messages in order once online', async () => {
+            await outbox.enqueue('user@example.com', 'first');
+            await outbox.enqueue('user@example.com', 'second');
+
+            connected = true;
+            await outbox.flush();
+
+            const bodies = mockConnection.sendStanza.mock.calls.map(
+                ([message]) => message.getChildText('body'),
+            );
+            expect(bodies).toEqual(['first', 'second']);
+            expect(await storage.load()).toEqual([]);
+        });
+
+        it('should send entries queued while a flush is running', async () => {
+            connected = true;
+            mockConnection.sendStanza.mockImplementation(
+                () => new Promise((resolve) => setTimeout(resolve, 20)),
+            );
+
+            const first = outbox.enqueue('user@example.com', 'one');
+            await new Promise((resolve) => setTimeout(resolve, 5));
+            const second = outbox.enqueue('user@example.com', 'two');
+            await Promise.all([first, second]);
+
+            const bodies = mockConnection.sendStanza.mock.calls.map(
+                ([message]) => message.getChildText('body'),
+            );
+            expect(bodies).toEqual(['one', 'two']);
+            expect(outbox.getEntries()).toEqual([]);
+        });
+
+        it('should mark an entry failed after max attempts', async () => {
+            const onFailed = jest.fn();
+            outbox.on('outbox:failed', onFailed);
+            mockConnection.sendStanza.mockRejectedValue(new Error('boom'));
+
+            connected = true;
+            await outbox.enqueue('user@example.com', 'Hello');
+
+            expect(mockConnection.sendStanza).toHaveBeenCalledTimes(2);
+            expect(onFailed).toHaveBeenCalledWith(
+                expect.objectContaining({ state: 'failed', error: 'boom' }),
+            );
+        });
+
+        it('should restore entries persisted by the storage', async () => {
+            const stored: OutboxEntry = {
+                id: 'stored-1',
+                to: 'user@example.com',
+                body: 'from last session',
+                state: 'queued',
+                attempts: 0,
+                createdAt: 1,
+            };
+            await storage.save(stored);
+            const restored = new OutboxManager(
+                mockConnection,
+                new MessageManager(),
+                { enabled: true, storage },
+            );
+
+            connected = true;
+            await restored.flush();
+
+            expect(mockConnection.sendStanza.mock.calls[0][0].attrs.id).toBe(
+                'stored-1',
+            );
+        });
+
+        it('should not load the storage while disabled', () => {
+            const load = jest.spyOn(storage, 'load');
+
+            new OutboxManager(mockConnection, new MessageManager(), {
+                enabled: false,
+                storage,
+            });
+
+            expect(load).not.toHaveBeenCalled();
+        });
+
+        it('should report a storage that fails to load', async () => {
+            jest.spyOn(storage, 'load').mockRejectedValue(
+                new Error('quota exceeded'),
+            );
+            const onError = jest.fn();
+            const failing = new OutboxManager(
+                mockConnection,
+                new MessageManager(),
+                { enabled: true, storage },
+            );
+            failing.on('outbox:error', onError);
+
+            const entry = await failing.enqueue('user@example.com', 'Hello');
+
+            expect(onError).toHaveBeenCalledWith({
+                code: 'OUTBOX_RESTORE_ERROR',
+                message: 'quota exceeded',
+                type: 'wait',
+            });
+            expect(failing.getEntries().map((e) => e.id)).toEqual([entry.id]);
+        });
+    });
+
+    describe('cancel and retry', () => {
+        it('should remove a queued entry on cancel', async () => {
+            const onCancelled = jest.fn();
+            outbox.on('outbox:cancelled', onCancelled);
+            const entry = await outbox.enqueue('user@example.com', 'Hello');
+
+            expect(await outbox.cancel(entry.id)).toBe(true);
+            expect(outbox.getEntries()).toEqual([]);
+            expect(onCancelled).toHaveBeenCalled();
+        });
+
+        it('should send a failed entry again on retry', async () => {
+            connected = true;
+            mockConnection.sendStanza.mockRejectedValue(new Error('boom'));
+            const entry = await outbox.enqueue('user@example.com', 'Hello');
+
+            mockConnection.sendStanza.mockResolvedValue();
+            expect(await outbox.retry(entry.id)).toBe(true);
+            expect(outbox.getEntries()).toEqual([]);
+        });
+    });
+});
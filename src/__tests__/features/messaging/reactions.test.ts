@@ -0,0 +1,127 @@
+import { Element } from '@xmpp/xml';
+import {
+    applyReaction,
+    mergeReactions,
+    parseReactions,
+} from '../../../features/messaging/reactions';
+import { MessageNamespaces } from '../../../constants/namespaces';
+import { BaseMessage, XMPPMessage } from '../../../types/messages';
+
+const chat = (
+    id: string,
+    from: string,
+    extra: Partial<BaseMessage> = {},
+): XMPPMessage => ({
+    id,
+    stanza_id: `stanza-${id}`,
+    from,
+    to: 'me@example.com',
+    time: new Date(0),
+    type: 'chat',
+    body: '',
+    ...extra,
+});
+
+describe('reactions', () => {
+    describe('parseReactions', () => {
+        it('should parse the set of reactions', () => {
+            const stanza = new Element('message');
+            const reactions = stanza.c('reactions', {
+                xmlns: MessageNamespaces.REACTIONS,
+                id: 'msg-1',
+            });
+            reactions.c('reaction').t('👍');
+            reactions.c('reaction').t('🎉');
+            reactions.c('reaction').t('👍');
+
+            expect(parseReactions(stanza)).toEqual({
+                id: 'msg-1',
+                emojis: ['👍', '🎉'],
+            });
+        });
+
+        it('should parse an empty set as removal', () => {
+            const stanza = new Element('message');
+            stanza.c('reactions', {
+                xmlns: MessageNamespaces.REACTIONS,
+                id: 'msg-1',
+            });
+
+            expect(parseReactions(stanza)).toEqual({ id: 'msg-1', emojis: [] });
+        });
+    });
+
+    describe('applyReaction', () => {
+        it("should replace the sender's previous reactions", () => {
+            let reactions = applyReaction([], 'alice@example.com', [
+                '👍',
+                '🎉',
+            ]);
+            reactions = applyReaction(reactions, 'bob@example.com', ['👍']);
+            reactions = applyReaction(reactions, 'alice@example.com', ['❤️']);
+
+            expect(reactions).toEqual([
+                { emoji: '👍', senders: ['bob@example.com'] },
+                { emoji: '❤️', senders: ['alice@example.com'] },
+            ]);
+        });
+    });
+
+    describe('mergeReactions', () => {
+        it('should fold reactions onto their target message', () => {
+            const merged = mergeReactions([
+                chat('msg-1', 'me@example.com/phone'),
+                chat('msg-2', 'user@example.com/phone', {
+                    reactsTo: { id: 'msg-1', emojis: ['👍'] },
+                }),
+                chat('msg-3', 'user@example.com/laptop', {
+                    reactsTo: { id: 'msg-1', emojis: ['👍', '🎉'] },
+                }),
+            ]);
+
+            expect(merged).toHaveLength(1);
+            expect(merged[0].reactions).toEqual([
+                { emoji: '👍', senders: ['user@example.com'] },
+                { emoji: '🎉', senders: ['user@example.com'] },
+            ]);
+        });
+
+        it('should match room reactions by stanza id', () => {
+            const room = 'team@conference.example.com';
+            const file: XMPPMessage = {
+                ...chat('msg-1', `${room}/alice`),
+                type: 'file',
+                fileUrl: 'https://upload.example.com/report.pdf',
+                fileName: 'report.pdf',
+                fileSize: '1024',
+                mimeType: 'application/pdf',
+            };
+            const reaction: XMPPMessage = {
+                ...chat('msg-2', `${room}/bob`, {
+                    reactsTo: { id: 'stanza-msg-1', emojis: ['👍'] },
+                }),
+                type: 'groupchat',
+                roomJid: room,
+                nickname: 'bob',
+            };
+
+            const merged = mergeReactions([file, reaction]);
+
+            expect(merged).toHaveLength(1);
+            expect(merged[0].reactions).toEqual([
+                { emoji: '👍', senders: [`${room}/bob`] },
+            ]);
+        });
+
+        it('should keep reactions whose target is missing', () => {
+            const merged = mergeReactions([
+                chat('msg-2', 'user@example.com', {
+                    reactsTo: { id: 'msg-1', emojis: ['👍'] },
+                }),
+            ]);
+
+            expect(merged).toHaveLength(1);
+            expect(merged[0].reactsTo?.id).toBe('msg-1');
+        });
+    });
+});
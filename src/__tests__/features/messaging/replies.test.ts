@@ -0,0 +1,91 @@
+import { Element } from '@xmpp/xml';
+import { addReply, parseReply } from '../../../features/messaging/replies';
+import { MessageNamespaces } from '../../../constants/namespaces';
+
+describe('replies', () => {
+    describe('addReply', () => {
+        it('should add the reply reference and a quoted fallback', () => {
+            const message = new Element('message');
+            const body = addReply(message, 'Great idea!', {
+                id: 'msg-1',
+                jid: 'anna@example.com',
+                quotedText: 'We should bake\na cake 🎂',
+            });
+
+            expect(body).toBe('> We should bake\n> a cake 🎂\nGreat idea!');
+            expect(
+                message.getChild('reply', MessageNamespaces.REPLY)?.attrs,
+            ).toMatchObject({ id: 'msg-1', to: 'anna@example.com' });
+
+            const fallback = message.getChild(
+                'fallback',
+                MessageNamespaces.FALLBACK,
+            );
+            expect(fallback?.attrs.for).toBe(MessageNamespaces.REPLY);
+            // The cake emoji is a single code point
+            expect(fallback?.getChild('body')?.attrs).toEqual({
+                start: '0',
+                end: '28',
+            });
+        });
+
+        it('should leave the body alone without quoted text', () => {
+            const message = new Element('message');
+            const body = addReply(message, 'Yes', {
+                id: 'msg-1',
+                jid: 'anna@example.com',
+            });
+
+            expect(body).toBe('Yes');
+            expect(
+                message.getChild('fallback', MessageNamespaces.FALLBACK),
+            ).toBeUndefined();
+        });
+    });
+
+    describe('parseReply', () => {
+        it('should strip the fallback quote from the body', () => {
+            const message = new Element('message');
+            const sent = addReply(message, 'Great idea! 🎉', {
+                id: 'msg-1',
+                jid: 'anna@example.com',
+                quotedText: 'We should bake a cake 🎂',
+            });
+
+            expect(parseReply(message, sent)).toEqual({
+                replyTo: {
+                    id: 'msg-1',
+                    jid: 'anna@example.com',
+                    quotedText: 'We should bake a cake 🎂',
+                },
+                body: 'Great idea! 🎉',
+            });
+        });
+
+        it('should keep the body when the fallback range is invalid', () => {
+            const message = new Element('message');
+            message.c('reply', {
+                xmlns: MessageNamespaces.REPLY,
+                to: 'anna@example.com',
+                id: 'msg-1',
+            });
+            message
+                .c('fallback', {
+                    xmlns: MessageNamespaces.FALLBACK,
+                    for: MessageNamespaces.REPLY,
+                })
+                .c('body', { start: '0', end: '99' });
+
+            expect(parseReply(message, 'Short')).toEqual({
+                replyTo: { id: 'msg-1', jid: 'anna@example.com' },
+                body: 'Short',
+            });
+        });
+
+        it('should return the body of messages without reply', () => {
+            expect(parseReply(new Element('message'), 'Hello')).toEqual({
+                body: 'Hello',
+            });
+        });
+    });
+});
@@ -0,0 +1,132 @@
+import { Element } from '@xmpp/xml';
+import {
+    mergeRetractions,
+    parseTombstone,
+} from '../../../features/messaging/retractions';
+import { MessageNamespaces } from '../../../constants/namespaces';
+import { BaseMessage, XMPPMessage } from '../../../types/messages';
+
+const ROOM = 'team@conference.example.com';
+
+const chat = (
+    id: string,
+    body: string,
+    extra: Partial<BaseMessage> = {},
+): XMPPMessage => ({
+    id,
+    stanza_id: `stanza-${id}`,
+    from: 'user@example.com/phone',
+    to: 'me@example.com',
+    time: new Date(0),
+    type: 'chat',
+    body,
+    ...extra,
+});
+
+const groupchat = (
+    id: string,
+    from: string,
+    extra: Partial<BaseMessage> = {},
+): XMPPMessage => ({
+    id,
+    stanza_id: `stanza-${id}`,
+    from,
+    to: 'me@example.com',
+    time: new Date(1000),
+    type: 'groupchat',
+    body: 'Buy now',
+    roomJid: ROOM,
+    nickname: 'bob',
+    ...extra,
+});
+
+describe('retractions', () => {
+    describe('parseTombstone', () => {
+        it('should parse a moderated tombstone', () => {
+            const stanza = new Element('message', { id: 'msg-1' });
+            const retracted = stanza.c('retracted', {
+                xmlns: MessageNamespaces.RETRACT,
+                stamp: '2024-01-01T00:00:00Z',
+            });
+            retracted.c('moderated', {
+                xmlns: MessageNamespaces.MODERATE,
+                by: `${ROOM}/mod`,
+            });
+            retracted.c('reason').t('Spam');
+
+            expect(parseTombstone(stanza, 'msg-1')).toEqual({
+                id: 'msg-1',
+                moderated: true,
+                by: `${ROOM}/mod`,
+                reason: 'Spam',
+                stamp: new Date('2024-01-01T00:00:00Z'),
+            });
+        });
+
+        it('should return null for regular messages', () => {
+            const stanza = new Element('message', { id: 'msg-1' });
+            expect(parseTombstone(stanza, 'msg-1')).toBeNull();
+        });
+    });
+
+    describe('mergeRetractions', () => {
+        it('should replace a retracted message by a tombstone', () => {
+            const merged = mergeRetractions([
+                chat('msg-1', 'Oops'),
+                chat('msg-2', '', {
+                    retracts: { id: 'msg-1', moderated: false },
+                }),
+            ]);
+
+            expect(merged).toHaveLength(1);
+            expect(merged[0]).toMatchObject({
+                id: 'msg-1',
+                body: '',
+                retracted: { id: 'msg-1', moderated: false },
+            });
+        });
+
+        it('should ignore retractions from another sender', () => {
+            const merged = mergeRetractions([
+                chat('msg-1', 'Hello'),
+                chat('msg-2', '', {
+                    from: 'mallory@example.com',
+                    retracts: { id: 'msg-1', moderated: false },
+                }),
+            ]);
+
+            expect(merged).toHaveLength(2);
+            expect(merged[0].retracted).toBeUndefined();
+        });
+
+        it('should apply moderation sent by the room', () => {
+            const merged = mergeRetractions([
+                groupchat('msg-1', `${ROOM}/bob`),
+                groupchat('mod-1', ROOM, {
+                    retracts: {
+                        id: 'stanza-msg-1',
+                        moderated: true,
+                        reason: 'Spam',
+                    },
+                }),
+            ]);
+
+            expect(merged).toHaveLength(1);
+            expect(merged[0].retracted).toMatchObject({
+                moderated: true,
+                reason: 'Spam',
+            });
+        });
+
+        it('should ignore moderation claimed by an occupant', () => {
+            const merged = mergeRetractions([
+                groupchat('msg-1', `${ROOM}/bob`),
+                groupchat('mod-1', `${ROOM}/mallory`, {
+                    retracts: { id: 'stanza-msg-1', moderated: true },
+                }),
+            ]);
+
+            expect(merged).toHaveLength(2);
+        });
+    });
+});
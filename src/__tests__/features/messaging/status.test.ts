@@ -17,6 +17,7 @@ describe('MessageStatusManager', () => {
         type: 'chat',
         body: 'Hello',
         time: new Date(),
+        markable: true,
     };
 
     beforeEach(() => {
@@ -52,21 +53,20 @@ describe('MessageStatusManager', () => {
                 }),
             );
 
-            // Verify read receipt
+            // Verify displayed marker
             expect(mockConnection.sendStanza).toHaveBeenCalledWith(
                 expect.objectContaining({
                     name: 'message',
                     attrs: {
-                        id: mockMessage.id,
+                        id: expect.any(String),
                         to: mockMessage.from,
-                        from: mockMessage.to,
                         type: 'chat',
                     },
                     children: [
                         expect.objectContaining({
                             name: 'displayed',
                             attrs: {
-                                xmlns: MessageNamespaces.RECEIPT,
+                                xmlns: MessageNamespaces.CHAT_MARKERS,
                                 id: mockMessage.id,
                             },
                         }),
@@ -74,6 +74,118 @@ describe('MessageStatusManager', () => {
                 }),
             );
         });
+
+        it('should only send the marker without status IQs', async () => {
+            statusManager = new MessageStatusManager(mockConnection, {
+                statusIQ: false,
+            });
+            mockConnection.sendStanza.mockResolvedValue();
+
+            await statusManager.markAsRead(mockMessage);
+
+            expect(mockConnection.sendIQ).not.toHaveBeenCalled();
+            expect(mockConnection.sendStanza).toHaveBeenCalledTimes(1);
+        });
+
+        it('should mark room messages in the room by stanza id', async () => {
+            statusManager = new MessageStatusManager(mockConnection, {
+                statusIQ: false,
+            });
+            mockConnection.sendStanza.mockResolvedValue();
+
+            await statusManager.markAsRead({
+                ...mockMessage,
+                type: 'groupchat',
+                from: 'team@conference.example.com/bob',
+                roomJid: 'team@conference.example.com',
+                nickname: 'bob',
+            });
+
+            const marker = mockConnection.sendStanza.mock.calls[0][0];
+            expect(marker.attrs).toMatchObject({
+                to: 'team@conference.example.com',
+                type: 'groupchat',
+            });
+            expect(
+                marker.getChild('displayed', MessageNamespaces.CHAT_MARKERS)
+                    ?.attrs.id,
+            ).toBe('stanza-1');
+        });
+
+        it('should not send a marker for messages that are not markable', async () => {
+            mockConnection.sendIQ.mockResolvedValue(new Element('iq'));
+
+            await statusManager.markAsRead({
+                ...mockMessage,
+                markable: undefined,
+            });
+
+            expect(mockConnection.sendIQ).toHaveBeenCalledTimes(1);
+            expect(mockConnection.sendStanza).not.toHaveBeenCalled();
+        });
+
+        it('should not mark room messages without a stanza id', async () => {
+            statusManager = new MessageStatusManager(mockConnection, {
+                statusIQ: false,
+            });
+
+            await statusManager.markAsRead({
+                ...mockMessage,
+                stanza_id: '',
+                type: 'groupchat',
+                from: 'team@conference.example.com/bob',
+                roomJid: 'team@conference.example.com',
+                nickname: 'bob',
+            });
+
+            expect(mockConnection.sendStanza).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('markDisplayedUpTo', () => {
+        const messages: XMPPMessage[] = ['msg-1', 'msg-2', 'msg-3'].map(
+            (id) => ({ ...mockMessage, id, stanza_id: `stanza-${id}` }),
+        );
+
+        it('should send a single marker for the last displayed message', async () => {
+            mockConnection.sendIQ.mockResolvedValue(new Element('iq'));
+            mockConnection.sendStanza.mockResolvedValue();
+
+            const marked = await statusManager.markDisplayedUpTo(
+                messages,
+                'msg-2',
+            );
+
+            expect(marked.map((m) => m.id)).toEqual(['msg-1', 'msg-2']);
+            expect(mockConnection.sendIQ).toHaveBeenCalledTimes(2);
+            expect(mockConnection.sendStanza).toHaveBeenCalledTimes(1);
+            expect(
+                mockConnection.sendStanza.mock.calls[0][0].getChild('displayed')
+                    ?.attrs.id,
+            ).toBe('msg-2');
+        });
+
+        it('should mark the last markable message', async () => {
+            mockConnection.sendIQ.mockResolvedValue(new Element('iq'));
+            mockConnection.sendStanza.mockResolvedValue();
+
+            await statusManager.markDisplayedUpTo(
+                [messages[0], { ...messages[1], markable: undefined }],
+                'msg-2',
+            );
+
+            expect(mockConnection.sendStanza).toHaveBeenCalledTimes(1);
+            expect(
+                mockConnection.sendStanza.mock.calls[0][0].getChild('displayed')
+                    ?.attrs.id,
+            ).toBe('msg-1');
+        });
+
+        it('should reject unknown ids', async () => {
+            await expect(
+                statusManager.markDisplayedUpTo(messages, 'msg-9'),
+            ).rejects.toThrow('Message not found');
+        });
     });
 
     describe('markAsDelivered', () => {
@@ -202,4 +314,40 @@ describe('MessageStatusManager', () => {
             expect(mockConnection.sendStanza).toHaveBeenCalledTimes(2);
         });
     });
+
+    describe('answerReceiptRequest', () => {
+        const requesting: XMPPMessage = {
+            ...mockMessage,
+            receiptRequested: true,
+        };
+
+        it('should not answer unless auto receipts are enabled', async () => {
+            expect(await statusManager.answerReceiptRequest(requesting)).toBe(
+                false,
+            );
+            expect(mockConnection.sendStanza).not.toHaveBeenCalled();
+        });
+
+        it('should send a receipt for requesting messages', async () => {
+            statusManager = new MessageStatusManager(mockConnection, {
+                autoReceipts: true,
+            });
+            mockConnection.sendStanza.mockResolvedValue();
+
+            expect(await statusManager.answerReceiptRequest(requesting)).toBe(
+                true,
+            );
+            expect(await statusManager.answerReceiptRequest(mockMessage)).toBe(
+                false,
+            );
+
+            const receipt = mockConnection.sendStanza.mock.calls[0][0];
+            expect(receipt.attrs.to).toBe(mockMessage.from);
+            expect(
+                receipt.getChild('received', MessageNamespaces.RECEIPT)?.attrs
+                    .id,
+            ).toBe(mockMessage.id);
+            expect(mockConnection.sendIQ).not.toHaveBeenCalled();
+        });
+    });
 });
@@ -0,0 +1,118 @@
+import { Element } from '@xmpp/xml';
+import { MUCHandler } from '../../../features/muc/handlers';
+import { MUCNamespaces, StanzaNamespaces } from '../../../constants/namespaces';
+
+const createOccupantPresence = (
+    from: string,
+    item: Record<string, string>,
+    statusCodes: string[] = [],
+    type?: string,
+): Element => {
+    const presence = new Element('presence', {
+        from,
+        ...(type ? { type } : {}),
+    });
+    const x = new Element('x', { xmlns: MUCNamespaces.MUC_USER });
+    x.append(new Element('item', item));
+    statusCodes.forEach((code) => x.append(new Element('status', { code })));
+    presence.append(x);
+    return presence;
+};
+
+describe('MUCHandler', () => {
+    let handler: MUCHandler;
+
+    beforeEach(() => {
+        handler = new MUCHandler();
+    });
+
+    describe('isRoomPresence', () => {
+        it('should detect presence carrying MUC user data', () => {
+            const presence = createOccupantPresence('room@muc.example.com/a', {
+                affiliation: 'member',
+                role: 'participant',
+            });
+            expect(handler.isRoomPresence(presence)).toBe(true);
+        });
+
+        it('should ignore regular presence', () => {
+            const presence = new Element('presence', {
+                from: 'user@example.com',
+            });
+            expect(handler.isRoomPresence(presence)).toBe(false);
+        });
+    });
+
+    describe('parsePresence', () => {
+        it('should parse occupant affiliation and role', () => {
+            const presence = createOccupantPresence(
+                'room@muc.example.com/alice',
+                {
+                    affiliation: 'admin',
+                    role: 'moderator',
+                    jid: 'alice@example.com/web',
+                },
+            );
+
+            expect(handler.parsePresence(presence)).toEqual({
+                roomJid: 'room@muc.example.com',
+                nickname: 'alice',
+                type: 'available',
+                occupant: {
+                    nickname: 'alice',
+                    jid: 'alice@example.com/web',
+                    affiliation: 'admin',
+                    role: 'moderator',
+                },
+                statusCodes: [],
+                isSelf: false,
+                newNickname: undefined,
+            });
+        });
+
+        it('should detect self-presence and nickname changes', () => {
+            const presence = createOccupantPresence(
+                'room@muc.example.com/bob',
+                { affiliation: 'member', role: 'none', nick: 'bobby' },
+                ['110', '303'],
+                'unavailable',
+            );
+
+            const result = handler.parsePresence(presence);
+            expect(result?.type).toBe('unavailable');
+            expect(result?.isSelf).toBe(true);
+            expect(result?.newNickname).toBe('bobby');
+        });
+
+        it('should return null for non-presence stanza', () => {
+            expect(handler.parsePresence(new Element('message'))).toBeNull();
+        });
+    });
+
+    describe('parseError', () => {
+        it('should parse the error condition and text', () => {
+            const presence = new Element('presence', {
+                from: 'room@muc.example.com/alice',
+                type: 'error',
+            });
+            const error = new Element('error', { type: 'auth' });
+            error.append(
+                new Element('not-authorized', {
+                    xmlns: StanzaNamespaces.ERRORS,
+                }),
+            );
+            error.append(
+                new Element('text', { xmlns: StanzaNamespaces.ERRORS }).t(
+                    'Password required',
+                ),
+            );
+            presence.append(error);
+
+            expect(handler.parseError(presence)).toEqual({
+                code: 'not-authorized',
+                message: 'Password required',
+                type: 'auth',
+            });
+        });
+    });
+});
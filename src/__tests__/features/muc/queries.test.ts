@@ -0,0 +1,65 @@
+import { MUCQueryBuilder } from '../../../features/muc/queries';
+import {
+    MessageNamespaces,
+    MUCNamespaces,
+} from '../../../constants/namespaces';
+
+describe('MUCQueryBuilder', () => {
+    let queryBuilder: MUCQueryBuilder;
+
+    beforeEach(() => {
+        queryBuilder = new MUCQueryBuilder();
+    });
+
+    describe('createJoinElement', () => {
+        it('should create a bare MUC element without options', () => {
+            const x = queryBuilder.createJoinElement();
+            expect(x.name).toBe('x');
+            expect(x.attrs.xmlns).toBe(MUCNamespaces.MUC);
+            expect(x.children).toHaveLength(0);
+        });
+
+        it('should include the room password', () => {
+            const x = queryBuilder.createJoinElement({ password: 'secret' });
+            expect(x.getChildText('password')).toBe('secret');
+        });
+
+        it('should include history limits', () => {
+            const since = new Date('2024-01-01T00:00:00Z');
+            const x = queryBuilder.createJoinElement({
+                history: { maxStanzas: 20, seconds: 3600, since },
+            });
+
+            const history = x.getChild('history');
+            expect(history?.attrs).toEqual({
+                maxstanzas: '20',
+                seconds: '3600',
+                since: since.toISOString(),
+            });
+        });
+    });
+
+    describe('createModerateRequest', () => {
+        it('should create a moderation request with a reason', () => {
+            const iq = queryBuilder.createModerateRequest(
+                'team@conference.example.com',
+                'stanza-1',
+                'Spam',
+            );
+
+            expect(iq.attrs).toMatchObject({
+                type: 'set',
+                to: 'team@conference.example.com',
+            });
+            const moderate = iq.getChild(
+                'moderate',
+                MessageNamespaces.MODERATE,
+            );
+            expect(moderate?.attrs.id).toBe('stanza-1');
+            expect(
+                moderate?.getChild('retract', MessageNamespaces.RETRACT),
+            ).toBeDefined();
+            expect(moderate?.getChildText('reason')).toBe('Spam');
+        });
+    });
+});
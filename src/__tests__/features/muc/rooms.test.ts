@@ -0,0 +1,205 @@
+import { Element } from '@xmpp/xml';
+import { RoomManager } from '../../../features/muc/rooms';
+import { MessageManager } from '../../../features/messaging/messages';
+import { ConnectionManager } from '../../../core/connection';
+import { MUCNamespaces, StanzaNamespaces } from '../../../constants/namespaces';
+
+jest.mock('../../../core/connection');
+
+const ROOM = 'team@conference.example.com';
+
+const createOccupantPresence = (
+    nickname: string,
+    role: string,
+    statusCodes: string[] = [],
+    type?: string,
+): Element => {
+    const presence = new Element('presence', {
+        from: `${ROOM}/${nickname}`,
+        ...(type ? { type } : {}),
+    });
+    const x = new Element('x', { xmlns: MUCNamespaces.MUC_USER });
+    x.append(new Element('item', { affiliation: 'member', role }));
+    statusCodes.forEach((code) => x.append(new Element('status', { code })));
+    presence.append(x);
+    return presence;
+};
+
+describe('RoomManager', () => {
+    let roomManager: RoomManager;
+    let mockConnection: jest.Mocked<ConnectionManager>;
+
+    beforeEach(() => {
+        mockConnection = new ConnectionManager(
+            {} as any,
+        ) as jest.Mocked<ConnectionManager>;
+        mockConnection.getConfig.mockReturnValue({ timeout: 1000 } as any);
+        mockConnection.sendPresenceToRoom.mockResolvedValue();
+        mockConnection.sendStanza.mockResolvedValue();
+        roomManager = new RoomManager(mockConnection, new MessageManager());
+    });
+
+    const joinTeamRoom = async (): Promise<void> => {
+        const joined = roomManager.joinRoom(ROOM, 'alice', {
+            password: 'secret',
+        });
+        await Promise.resolve();
+        roomManager.handlePresence(createOccupantPresence('bob', 'visitor'));
+        roomManager.handlePresence(
+            createOccupantPresence('alice', 'participant', ['110']),
+        );
+        await joined;
+    };
+
+    describe('joinRoom', () => {
+        it('should send join presence and resolve on self-presence', async () => {
+            const onJoin = jest.fn();
+            roomManager.on('room:join', onJoin);
+
+            await joinTeamRoom();
+
+            const [to, type, muc] =
+                mockConnection.sendPresenceToRoom.mock.calls[0];
+            expect(to).toBe(`${ROOM}/alice`);
+            expect(type).toBe('available');
+            expect(muc?.getChildText('password')).toBe('secret');
+            expect(onJoin).toHaveBeenCalledWith({
+                roomJid: ROOM,
+                nickname: 'alice',
+            });
+            expect(roomManager.getJoinedRooms()).toEqual([ROOM]);
+        });
+
+        it('should track occupants with their roles', async () => {
+            await joinTeamRoom();
+
+            expect(roomManager.getOccupants(ROOM)).toEqual([
+                { nickname: 'bob', affiliation: 'member', role: 'visitor' },
+                {
+                    nickname: 'alice',
+                    affiliation: 'member',
+                    role: 'participant',
+                },
+            ]);
+
+            roomManager.handlePresence(
+                createOccupantPresence('bob', 'none', [], 'unavailable'),
+            );
+            expect(
+                roomManager.getOccupants(ROOM).map((o) => o.nickname),
+            ).toEqual(['alice']);
+        });
+
+        it('should reject and emit room:error on error presence', async () => {
+            const onError = jest.fn();
+            roomManager.on('room:error', onError);
+
+            const joined = roomManager.joinRoom(ROOM, 'alice');
+            await Promise.resolve();
+
+            const presence = new Element('presence', {
+                from: `${ROOM}/alice`,
+                type: 'error',
+            });
+            presence
+                .c('error', { type: 'cancel' })
+                .c('conflict', { xmlns: StanzaNamespaces.ERRORS });
+            roomManager.handlePresence(presence);
+
+            await expect(joined).rejects.toThrow('conflict');
+            expect(onError).toHaveBeenCalledWith({
+                roomJid: ROOM,
+                error: expect.objectContaining({ code: 'conflict' }),
+            });
+            expect(roomManager.getJoinedRooms()).toEqual([]);
+        });
+
+        it('should clear the pending join when the send fails', async () => {
+            const onUnhandled = jest.fn();
+            process.on('unhandledRejection', onUnhandled);
+            mockConnection.sendPresenceToRoom.mockRejectedValueOnce(
+                new Error('Not connected'),
+            );
+
+            try {
+                await expect(
+                    roomManager.joinRoom(ROOM, 'alice'),
+                ).rejects.toThrow('Not connected');
+                await new Promise((resolve) => setTimeout(resolve, 0));
+                expect(onUnhandled).not.toHaveBeenCalled();
+            } finally {
+                process.off('unhandledRejection', onUnhandled);
+            }
+
+            await joinTeamRoom();
+            expect(roomManager.getJoinedRooms()).toEqual([ROOM]);
+        });
+    });
+
+    describe('leaveRoom', () => {
+        it('should send unavailable presence and emit room:leave', async () => {
+            const onLeave = jest.fn();
+            roomManager.on('room:leave', onLeave);
+            await joinTeamRoom();
+
+            await roomManager.leaveRoom(ROOM);
+            expect(mockConnection.sendPresenceToRoom).toHaveBeenLastCalledWith(
+                `${ROOM}/alice`,
+                'unavailable',
+            );
+
+            roomManager.handlePresence(
+                createOccupantPresence('alice', 'none', ['110'], 'unavailable'),
+            );
+            expect(onLeave).toHaveBeenCalledWith({
+                roomJid: ROOM,
+                nickname: 'alice',
+            });
+            expect(roomManager.getOccupants(ROOM)).toEqual([]);
+        });
+
+        it('should throw when not in the room', async () => {
+            await expect(roomManager.leaveRoom(ROOM)).rejects.toThrow(
+                `Not in room ${ROOM}`,
+            );
+        });
+    });
+
+    describe('sendGroupMessage', () => {
+        it('should send a groupchat message to a joined room', async () => {
+            await joinTeamRoom();
+            await roomManager.sendGroupMessage(ROOM, 'Hello team');
+
+            const message = mockConnection.sendStanza.mock.calls[0][0];
+            expect(message.attrs.to).toBe(ROOM);
+            expect(message.attrs.type).toBe('groupchat');
+            expect(message.getChildText('body')).toBe('Hello team');
+        });
+
+        it('should throw when the room was not joined', async () => {
+            await expect(
+                roomManager.sendGroupMessage(ROOM, 'Hello'),
+            ).rejects.toThrow(`Not in room ${ROOM}`);
+        });
+    });
+
+    describe('moderateMessage', () => {
+        it('should send the moderation request to the room', async () => {
+            mockConnection.sendIQ.mockResolvedValue(new Element('iq'));
+
+            await roomManager.moderateMessage(`${ROOM}/bob`, 'stanza-1');
+
+            const iq = mockConnection.sendIQ.mock.calls[0][0];
+            expect(iq.attrs.to).toBe(ROOM);
+            expect(iq.getChild('moderate')?.attrs.id).toBe('stanza-1');
+        });
+
+        it('should reject when the room refuses', async () => {
+            mockConnection.sendIQ.mockRejectedValue(new Error('forbidden'));
+
+            await expect(
+                roomManager.moderateMessage(ROOM, 'stanza-1'),
+            ).rejects.toThrow('forbidden');
+        });
+    });
+});
@@ -0,0 +1,100 @@
+import { PresenceStore } from '../../../features/presence/store';
+import { PresenceMessage } from '../../../types/messages';
+
+const createPresence = (
+    from: string,
+    extra: Partial<PresenceMessage> = {},
+): PresenceMessage => ({
+    type: 'presence',
+    from,
+    status: 'available',
+    resource: from.split('/')[1],
+    priority: 0,
+    ...extra,
+});
+
+describe('PresenceStore', () => {
+    let store: PresenceStore;
+
+    beforeEach(() => {
+        store = new PresenceStore();
+    });
+
+    it('should prefer the resource with the highest priority', () => {
+        store.update(
+            createPresence('juliet@example.com/phone', { priority: 5 }),
+        );
+        const best = store.update(
+            createPresence('juliet@example.com/laptop', { priority: 1 }),
+        );
+
+        expect(best?.resource).toBe('phone');
+        expect(store.get('juliet@example.com')?.resource).toBe('phone');
+    });
+
+    it('should prefer the most available show on equal priority', () => {
+        store.update(
+            createPresence('juliet@example.com/phone', { show: 'xa' }),
+        );
+        store.update(
+            createPresence('juliet@example.com/tablet', { show: 'dnd' }),
+        );
+        store.update(createPresence('juliet@example.com/laptop'));
+
+        expect(
+            store.getResources('juliet@example.com').map((p) => p.resource),
+        ).toEqual(['laptop', 'tablet', 'phone']);
+    });
+
+    it('should prefer the most recent presence otherwise', () => {
+        store.update(createPresence('juliet@example.com/phone'));
+        store.update(createPresence('juliet@example.com/laptop'));
+
+        expect(store.get('juliet@example.com')?.resource).toBe('laptop');
+    });
+
+    it('should fall back to the remaining resources', () => {
+        store.update(
+            createPresence('juliet@example.com/phone', { priority: 5 }),
+        );
+        store.update(createPresence('juliet@example.com/laptop'));
+
+        const best = store.update(
+            createPresence('juliet@example.com/phone', {
+                status: 'unavailable',
+            }),
+        );
+
+        expect(best?.resource).toBe('laptop');
+        expect(store.get('juliet@example.com/phone')).toBeNull();
+    });
+
+    it('should report a contact unavailable once every resource is gone', () => {
+        store.update(createPresence('juliet@example.com/phone'));
+        store.update(createPresence('juliet@example.com/laptop'));
+
+        const best = store.update(
+            createPresence('juliet@example.com', { status: 'unavailable' }),
+        );
+
+        expect(best).toBeNull();
+        expect(store.isAvailable('juliet@example.com')).toBe(false);
+        expect(store.getResources('juliet@example.com')).toEqual([]);
+    });
+
+    it('should ignore subscription presence', () => {
+        const best = store.update(
+            createPresence('juliet@example.com', { subscription: 'subscribe' }),
+        );
+
+        expect(best).toBeNull();
+        expect(store.isAvailable('juliet@example.com')).toBe(false);
+    });
+
+    it('should forget everything on clear', () => {
+        store.update(createPresence('juliet@example.com/phone'));
+        store.clear();
+
+        expect(store.get('juliet@example.com')).toBeNull();
+    });
+});
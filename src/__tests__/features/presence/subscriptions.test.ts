@@ -0,0 +1,65 @@
+import { SubscriptionManager } from '../../../features/presence/subscriptions';
+import { ConnectionManager } from '../../../core/connection';
+import { PresenceMessage } from '../../../types/messages';
+
+jest.mock('../../../core/connection');
+
+const request: PresenceMessage = {
+    type: 'presence',
+    from: 'bot@example.com/worker',
+    status: 'unavailable',
+    priority: 0,
+    subscription: 'subscribe',
+    nick: 'Build Bot',
+    statusText: 'Please let me in',
+};
+
+describe('SubscriptionManager', () => {
+    let mockConnection: jest.Mocked<ConnectionManager>;
+
+    beforeEach(() => {
+        mockConnection = new ConnectionManager(
+            {} as any,
+        ) as jest.Mocked<ConnectionManager>;
+        mockConnection.acceptSubscription.mockResolvedValue(undefined);
+    });
+
+    it('should leave requests to the user without a policy', async () => {
+        const subscriptions = new SubscriptionManager(mockConnection);
+
+        await expect(subscriptions.handleRequest(request)).resolves.toEqual({
+            from: 'bot@example.com',
+            nick: 'Build Bot',
+            status: 'Please let me in',
+        });
+        expect(mockConnection.acceptSubscription).not.toHaveBeenCalled();
+    });
+
+    it('should accept requests allowed by the policy', async () => {
+        const autoAccept = jest.fn().mockResolvedValue(true);
+        const subscriptions = new SubscriptionManager(mockConnection, {
+            autoAccept,
+        });
+
+        await expect(subscriptions.handleRequest(request)).resolves.toBeNull();
+        expect(autoAccept).toHaveBeenCalledWith({
+            from: 'bot@example.com',
+            nick: 'Build Bot',
+            status: 'Please let me in',
+        });
+        expect(mockConnection.acceptSubscription).toHaveBeenCalledWith(
+            'bot@example.com',
+        );
+    });
+
+    it('should leave requests refused by the policy to the user', async () => {
+        const subscriptions = new SubscriptionManager(mockConnection, {
+            autoAccept: (req) => req.from.endsWith('@bots.example.com'),
+        });
+
+        await expect(subscriptions.handleRequest(request)).resolves.toEqual(
+            expect.objectContaining({ from: 'bot@example.com' }),
+        );
+        expect(mockConnection.acceptSubscription).not.toHaveBeenCalled();
+    });
+});
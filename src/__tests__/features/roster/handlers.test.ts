@@ -0,0 +1,152 @@
+import { Element } from '@xmpp/xml';
+import { RosterHandler } from '../../../features/roster/handlers';
+import { RosterNamespaces } from '../../../constants/namespaces';
+
+const createPush = (
+    attrs: Record<string, string>,
+    from?: string,
+    ver?: string,
+): Element => {
+    const iq = new Element('iq', { type: 'set', id: 'push-1', from });
+    const item = iq
+        .c('query', { xmlns: RosterNamespaces.ROSTER, ver })
+        .c('item', attrs);
+    item.c('group').t('Friends');
+    return iq;
+};
+
+describe('RosterHandler', () => {
+    let handler: RosterHandler;
+
+    beforeEach(() => {
+        handler = new RosterHandler();
+    });
+
+    describe('isRosterPush', () => {
+        it('should accept pushes without from or from the own bare JID', () => {
+            const push = createPush({ jid: 'juliet@example.com' });
+            expect(handler.isRosterPush(push, 'romeo@example.com/web')).toBe(
+                true,
+            );
+
+            const ownPush = createPush(
+                { jid: 'juliet@example.com' },
+                'romeo@example.com',
+            );
+            expect(handler.isRosterPush(ownPush, 'romeo@example.com/web')).toBe(
+                true,
+            );
+        });
+
+        it('should reject pushes from other entities', () => {
+            const push = createPush(
+                { jid: 'juliet@example.com' },
+                'mallory@example.com',
+            );
+            expect(handler.isRosterPush(push, 'romeo@example.com/web')).toBe(
+                false,
+            );
+        });
+
+        it('should ignore roster results', () => {
+            const result = new Element('iq', { type: 'result' });
+            result.c('query', { xmlns: RosterNamespaces.ROSTER });
+            expect(handler.isRosterPush(result, 'romeo@example.com')).toBe(
+                false,
+            );
+        });
+    });
+
+    describe('parseRoster', () => {
+        it('should parse items and version', () => {
+            const result = new Element('iq', { type: 'result' });
+            const query = result.c('query', {
+                xmlns: RosterNamespaces.ROSTER,
+                ver: 'ver7',
+            });
+            query
+                .c('item', {
+                    jid: 'juliet@example.com',
+                    name: 'Juliet',
+                    subscription: 'both',
+                })
+                .c('group')
+                .t('Friends');
+            query.c('item', {
+                jid: 'nurse@example.com',
+                subscription: 'none',
+                ask: 'subscribe',
+            });
+            query.c('item', { jid: 'benvolio@example.com', approved: 'true' });
+
+            expect(handler.parseRoster(result)).toEqual({
+                version: 'ver7',
+                items: [
+                    {
+                        jid: 'juliet@example.com',
+                        name: 'Juliet',
+                        groups: ['Friends'],
+                        subscription: 'both',
+                    },
+                    {
+                        jid: 'nurse@example.com',
+                        groups: [],
+                        subscription: 'none',
+                        ask: 'subscribe',
+                    },
+                    {
+                        jid: 'benvolio@example.com',
+                        groups: [],
+                        subscription: 'none',
+                        approved: true,
+                    },
+                ],
+            });
+        });
+
+        it('should return null for an empty result', () => {
+            expect(
+                handler.parseRoster(new Element('iq', { type: 'result' })),
+            ).toBeNull();
+        });
+    });
+
+    describe('parsePush', () => {
+        it('should parse an updated item', () => {
+            const push = handler.parsePush(
+                createPush(
+                    { jid: 'juliet@example.com', subscription: 'to' },
+                    undefined,
+                    'ver8',
+                ),
+            );
+
+            expect(push).toEqual({
+                version: 'ver8',
+                removed: false,
+                item: {
+                    jid: 'juliet@example.com',
+                    groups: ['Friends'],
+                    subscription: 'to',
+                },
+            });
+        });
+
+        it('should parse a removal', () => {
+            const push = handler.parsePush(
+                createPush({
+                    jid: 'juliet@example.com',
+                    subscription: 'remove',
+                }),
+            );
+            expect(push?.removed).toBe(true);
+            expect(push?.version).toBeNull();
+        });
+
+        it('should reject pushes with several items', () => {
+            const push = createPush({ jid: 'juliet@example.com' });
+            push.getChild('query')?.c('item', { jid: 'nurse@example.com' });
+            expect(handler.parsePush(push)).toBeNull();
+        });
+    });
+});
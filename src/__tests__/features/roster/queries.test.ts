@@ -0,0 +1,70 @@
+import { RosterQueryBuilder } from '../../../features/roster/queries';
+import { RosterNamespaces } from '../../../constants/namespaces';
+
+describe('RosterQueryBuilder', () => {
+    let queryBuilder: RosterQueryBuilder;
+
+    beforeEach(() => {
+        queryBuilder = new RosterQueryBuilder();
+    });
+
+    describe('createGetRequest', () => {
+        it('should create a roster get without version', () => {
+            const iq = queryBuilder.createGetRequest();
+            const query = iq.getChild('query', RosterNamespaces.ROSTER);
+
+            expect(iq.attrs.type).toBe('get');
+            expect(query).toBeDefined();
+            expect(query?.attrs.ver).toBeUndefined();
+        });
+
+        it('should include the cached version, even when empty', () => {
+            expect(
+                queryBuilder
+                    .createGetRequest('ver14')
+                    .getChild('query', RosterNamespaces.ROSTER)?.attrs.ver,
+            ).toBe('ver14');
+            expect(
+                queryBuilder
+                    .createGetRequest('')
+                    .getChild('query', RosterNamespaces.ROSTER)?.attrs.ver,
+            ).toBe('');
+        });
+    });
+
+    describe('createSetRequest', () => {
+        it('should create an item with name and unique groups', () => {
+            const iq = queryBuilder.createSetRequest('juliet@example.com', {
+                name: 'Juliet',
+                groups: ['Friends', 'Family', 'Friends'],
+            });
+            const item = iq
+                .getChild('query', RosterNamespaces.ROSTER)
+                ?.getChild('item');
+
+            expect(iq.attrs.type).toBe('set');
+            expect(item?.attrs).toEqual({
+                jid: 'juliet@example.com',
+                name: 'Juliet',
+            });
+            expect(item?.getChildren('group').map((g) => g.getText())).toEqual([
+                'Friends',
+                'Family',
+            ]);
+        });
+    });
+
+    describe('createRemoveRequest', () => {
+        it('should mark the item as removed', () => {
+            const item = queryBuilder
+                .createRemoveRequest('juliet@example.com')
+                .getChild('query', RosterNamespaces.ROSTER)
+                ?.getChild('item');
+
+            expect(item?.attrs).toEqual({
+                jid: 'juliet@example.com',
+                subscription: 'remove',
+            });
+        });
+    });
+});
@@ -0,0 +1,232 @@
+import { Element } from '@xmpp/xml';
+import { jid } from '@xmpp/jid';
+import {
+    MemoryRosterCache,
+    RosterManager,
+} from '../../../features/roster/roster';
+import { ConnectionManager } from '../../../core/connection';
+import { IQError } from '../../../types/connection';
+import { RosterNamespaces } from '../../../constants/namespaces';
+
+jest.mock('../../../core/connection');
+
+const createResult = (
+    ver: string | undefined,
+    items: Record<string, string>[],
+): Element => {
+    const iq = new Element('iq', { type: 'result' });
+    const query = iq.c('query', { xmlns: RosterNamespaces.ROSTER, ver });
+    items.forEach((attrs) => query.c('item', attrs));
+    return iq;
+};
+
+const createPush = (attrs: Record<string, string>, ver?: string): Element => {
+    const iq = new Element('iq', { type: 'set', id: 'push-1' });
+    iq.c('query', { xmlns: RosterNamespaces.ROSTER, ver }).c('item', attrs);
+    return iq;
+};
+
+describe('RosterManager', () => {
+    let roster: RosterManager;
+    let cache: MemoryRosterCache;
+    let mockConnection: jest.Mocked<ConnectionManager>;
+
+    beforeEach(() => {
+        mockConnection = new ConnectionManager(
+            {} as any,
+        ) as jest.Mocked<ConnectionManager>;
+        mockConnection.getClient.mockReturnValue({
+            jid: jid('romeo@example.com/web'),
+        } as any);
+        mockConnection.sendIQ.mockResolvedValue(new Element('iq'));
+        mockConnection.supportsRosterVersioning.mockReturnValue(true);
+        cache = new MemoryRosterCache();
+        roster = new RosterManager(mockConnection, { cache });
+    });
+
+    describe('getRoster', () => {
+        it('should fetch and cache the roster', async () => {
+            mockConnection.sendIQ.mockResolvedValueOnce(
+                createResult('ver1', [
+                    { jid: 'juliet@example.com', subscription: 'both' },
+                ]),
+            );
+
+            const items = await roster.getRoster();
+
+            expect(items).toEqual([
+                {
+                    jid: 'juliet@example.com',
+                    groups: [],
+                    subscription: 'both',
+                },
+            ]);
+            expect(roster.getSubscription('juliet@example.com/balcony')).toBe(
+                'both',
+            );
+            expect(await cache.load()).toEqual({ version: 'ver1', items });
+        });
+
+        it('should send the cached version and keep the cache on an empty result', async () => {
+            await cache.save({
+                version: 'ver5',
+                items: [
+                    {
+                        jid: 'juliet@example.com',
+                        groups: ['Friends'],
+                        subscription: 'to',
+                    },
+                ],
+            });
+
+            const items = await roster.getRoster();
+
+            const query = mockConnection.sendIQ.mock.calls[0][0].getChild(
+                'query',
+                RosterNamespaces.ROSTER,
+            );
+            expect(query?.attrs.ver).toBe('ver5');
+            expect(items).toHaveLength(1);
+            expect(roster.getVersion()).toBe('ver5');
+        });
+
+        it('should send an empty version without a cached one', async () => {
+            await roster.getRoster();
+
+            const query = mockConnection.sendIQ.mock.calls[0][0].getChild(
+                'query',
+                RosterNamespaces.ROSTER,
+            );
+            expect(query?.attrs.ver).toBe('');
+        });
+
+        it('should not send a version when the server does not advertise versioning', async () => {
+            mockConnection.supportsRosterVersioning.mockReturnValue(false);
+            await cache.save({ version: 'ver5', items: [] });
+
+            await roster.getRoster();
+
+            const query = mockConnection.sendIQ.mock.calls[0][0].getChild(
+                'query',
+                RosterNamespaces.ROSTER,
+            );
+            expect(query?.attrs.ver).toBeUndefined();
+        });
+    });
+
+    describe('contacts', () => {
+        it('should add a contact', async () => {
+            await roster.addContact('juliet@example.com/balcony', 'Juliet', [
+                'Friends',
+            ]);
+
+            const item = mockConnection.sendIQ.mock.calls[0][0]
+                .getChild('query', RosterNamespaces.ROSTER)
+                ?.getChild('item');
+            expect(item?.attrs.jid).toBe('juliet@example.com');
+            expect(item?.attrs.name).toBe('Juliet');
+            expect(item?.getChildText('group')).toBe('Friends');
+        });
+
+        it('should keep the current fields when updating a contact', async () => {
+            mockConnection.sendIQ.mockResolvedValueOnce(
+                createResult('ver1', [
+                    { jid: 'juliet@example.com', name: 'Juliet' },
+                ]),
+            );
+            await roster.getRoster();
+
+            await roster.updateContact('juliet@example.com', {
+                groups: ['Family'],
+            });
+
+            const item = mockConnection.sendIQ.mock.calls[1][0]
+                .getChild('query', RosterNamespaces.ROSTER)
+                ?.getChild('item');
+            expect(item?.attrs.name).toBe('Juliet');
+            expect(item?.getChildText('group')).toBe('Family');
+        });
+
+        it('should not update unknown contacts', async () => {
+            await expect(
+                roster.updateContact('nurse@example.com', { name: 'Nurse' }),
+            ).rejects.toThrow('nurse@example.com is not in the roster');
+        });
+
+        it('should remove a contact', async () => {
+            await roster.removeContact('juliet@example.com');
+
+            const item = mockConnection.sendIQ.mock.calls[0][0]
+                .getChild('query', RosterNamespaces.ROSTER)
+                ?.getChild('item');
+            expect(item?.attrs.subscription).toBe('remove');
+        });
+    });
+
+    describe('handlePush', () => {
+        it('should apply updates and store the new version', async () => {
+            const onUpdate = jest.fn();
+            roster.on('roster:update', onUpdate);
+
+            await roster.handlePush(
+                createPush(
+                    { jid: 'juliet@example.com', subscription: 'from' },
+                    'ver2',
+                ),
+            );
+
+            expect(onUpdate).toHaveBeenCalledWith({
+                jid: 'juliet@example.com',
+                groups: [],
+                subscription: 'from',
+            });
+            expect(roster.getSubscription('juliet@example.com')).toBe('from');
+            expect((await cache.load())?.version).toBe('ver2');
+        });
+
+        it('should remove contacts', async () => {
+            const onRemove = jest.fn();
+            roster.on('roster:remove', onRemove);
+            await roster.handlePush(
+                createPush({ jid: 'juliet@example.com', subscription: 'both' }),
+            );
+
+            await roster.handlePush(
+                createPush({
+                    jid: 'juliet@example.com',
+                    subscription: 'remove',
+                }),
+            );
+
+            expect(onRemove).toHaveBeenCalledWith({
+                jid: 'juliet@example.com',
+            });
+            expect(roster.getContact('juliet@example.com')).toBeNull();
+        });
+
+        it('should acknowledge pushes and refuse foreign ones', async () => {
+            const handler = mockConnection.registerIQHandler.mock.calls[0][2];
+            expect(mockConnection.registerIQHandler.mock.calls[0][0]).toBe(
+                RosterNamespaces.ROSTER,
+            );
+
+            await expect(
+                handler(createPush({ jid: 'juliet@example.com' })),
+            ).resolves.toBeUndefined();
+
+            const foreign = createPush({ jid: 'nurse@example.com' });
+            foreign.attrs.from = 'mallory@example.com';
+            await expect(handler(foreign)).rejects.toThrow(IQError);
+            expect(roster.getContact('nurse@example.com')).toBeNull();
+        });
+
+        it('should ignore pushes from other entities', async () => {
+            const push = createPush({ jid: 'juliet@example.com' });
+            push.attrs.from = 'mallory@example.com';
+
+            await roster.handlePush(push);
+
+            expect(roster.getContacts()).toEqual([]);
+        });
+    });
+});
@@ -5,13 +5,36 @@ import { MessageManager } from './features/messaging/messages';
 import { AttachmentManager } from './features/messaging/attachments';
 import { MAMHandler } from './features/mam/handlers';
 import { MAMQueryBuilder } from './features/mam/queries';
-import { ConnectionState, ConnectionConfig } from './types/connection';
-import { MessageOptions, XMPPMessage } from './types/messages';
-import { XMPPError } from './types/events';
-import { MAMQueryOptions } from './types/mam';
+import {
+    ConnectionState,
+    ConnectionConfig,
+    StreamManagementState,
+} from './types/connection';
+import {
+    MessageOptions,
+    PresenceMessage,
+    PresenceOptions,
+    SubscriptionRequestOptions,
+    XMPPMessage,
+} from './types/messages';
+import { FileNamespaces, MessageNamespaces } from './constants/namespaces';
+import { AttachmentSource, UploadConfig, UploadOptions } from './types/files';
+import { JIDUtils } from './utils/jid';
+import { CompositionState, XMPPError } from './types/events';
+import { MAMQueryOptions, MAMResult } from './types/mam';
 import { MessageStatusManager } from './features/messaging/status';
 import { MessageReadStatus } from './types/message_status';
 import { IXMPPClient } from './interfaces/client';
+import { RoomManager } from './features/muc/rooms';
+import { ArchiveManager } from './features/mam/archive';
+import { OutboxManager } from './features/messaging/outbox';
+import { ChatStateManager } from './features/messaging/chat_states';
+import { CarbonCopy, CarbonsManager } from './features/messaging/carbons';
+import { RosterManager } from './features/roster/roster';
+import { PresenceStore } from './features/presence/store';
+import { SubscriptionManager } from './features/presence/subscriptions';
+import { DiscoManager } from './features/disco/disco';
+import { CapsManager } from './features/disco/caps';
 
 export class EjabberdClient extends XMPPEventEmitter implements IXMPPClient {
     private connection: ConnectionManager;
@@ -20,22 +43,58 @@ export class EjabberdClient extends XMPPEventEmitter implements IXMPPClient {
     private mam: MAMHandler;
     private mamQueries: MAMQueryBuilder;
     private messageStatus: MessageStatusManager;
+    private chatStates: ChatStateManager;
+    private subscriptions: SubscriptionManager;
+    private caps: CapsManager;
+    public readonly rooms: RoomManager;
+    public readonly archive: ArchiveManager;
+    public readonly outbox: OutboxManager;
+    public readonly carbons: CarbonsManager;
+    public readonly roster: RosterManager;
+    public readonly presence: PresenceStore;
+    public readonly disco: DiscoManager;
 
     constructor(config: ConnectionConfig) {
         super();
 
         this.connection = new ConnectionManager(config);
         this.messages = new MessageManager();
+        this.mam = new MAMHandler();
+        this.mamQueries = new MAMQueryBuilder();
+        this.messageStatus = new MessageStatusManager(
+            this.connection,
+            config.messageStatus,
+        );
+        this.chatStates = new ChatStateManager(
+            this.connection,
+            this.messages,
+            config.chatStates,
+        );
+        this.carbons = new CarbonsManager(this.connection);
+        this.rooms = new RoomManager(this.connection, this.messages);
+        this.roster = new RosterManager(this.connection, config.roster);
+        this.presence = new PresenceStore();
+        this.disco = new DiscoManager(this.connection, config.disco);
+        this.caps = new CapsManager(this.disco);
         this.attachments = new AttachmentManager(
-            config.attachmentConfig || {
-                uploadEndpoint: `https://${config.domain}/upload`, // Default upload endpoint based on service
-                maxFileSize: 10 * 1024 * 1024, // 10MB default
-            },
+            config.attachmentConfig || {},
             this.connection,
+            this.disco,
+        );
+        this.subscriptions = new SubscriptionManager(
+            this.connection,
+            config.subscriptions,
+        );
+        this.archive = new ArchiveManager(
+            this.connection,
+            this.mam,
+            this.mamQueries,
+        );
+        this.outbox = new OutboxManager(
+            this.connection,
+            this.messages,
+            config.outbox,
         );
-        this.mam = new MAMHandler();
-        this.mamQueries = new MAMQueryBuilder();
-        this.messageStatus = new MessageStatusManager(this.connection);
 
         this.setupEventHandlers();
         this.connection.connect().catch((err) => {
@@ -57,6 +116,15 @@ export class EjabberdClient extends XMPPEventEmitter implements IXMPPClient {
         );
     }
 
+    /**
+     * Check if a stanza is the final IQ response of a MAM query
+     */
+    private isMAMFinStanza(stanza: Element): boolean {
+        return (
+            stanza.name === 'iq' && !!stanza.getChild('fin', 'urn:xmpp:mam:2')
+        );
+    }
+
     private isMessageStanza(stanza: Element): boolean {
         return stanza.name === 'message';
     }
@@ -64,35 +132,116 @@ export class EjabberdClient extends XMPPEventEmitter implements IXMPPClient {
     private isRecieptStanza(stanza: Element): boolean {
         return (
             stanza.name === 'message' &&
-            !!(stanza.getChild('displayed') || stanza.getChild('received'))
+            (stanza.attrs.type === 'error' ||
+                !!(stanza.getChild('displayed') || stanza.getChild('received')))
         );
     }
 
     /**
-     * Handle a MAM-related stanza (result or fin)
+     * Handle a MAM result stanza by collecting its message until the query finishes
      */
     private handleMAMStanza(stanza: Element): void {
-        const mamResult = this.mam.parseResult(stanza);
-        if (mamResult) {
-            Promise.all(
-                mamResult.messages.map(async (message) => {
-                    const status = await this.getMessageStatus(
-                        message.id,
-                        message.from,
-                    );
-                    message.readStatus = status;
-                }),
-            ).then(() => {
-                this.emit('mamResult', mamResult);
-            });
-        }
+        this.mam.parseResult(stanza);
+    }
+
+    /**
+     * Attach read status information to the messages of a MAM result
+     * Messages whose status cannot be fetched are reported as neither delivered nor read
+     */
+    private async resolveMAMStatuses(mamResult: MAMResult): Promise<void> {
+        await Promise.all(
+            mamResult.messages.map(async (message) => {
+                message.readStatus = await this.getMessageStatus(
+                    message.id,
+                    message.from,
+                ).catch(() => ({ delivered: false, read: false }));
+            }),
+        );
+    }
+
+    /**
+     * Address messages to joined rooms as groupchat, everything else as chat
+     */
+    private resolveConversation(to: string): {
+        to: string;
+        type: 'chat' | 'groupchat';
+    } {
+        const bare = JIDUtils.getBare(to);
+        return this.rooms.getJoinedRooms().includes(bare)
+            ? { to: bare, type: 'groupchat' }
+            : { to, type: 'chat' };
     }
 
     /**
      * Handle a regular message stanza
      */
-    private handleMessageStanza(stanza: Element): void {
+    private handleMessageStanza(
+        stanza: Element,
+        carbon?: CarbonCopy['direction'],
+    ): void {
+        // Chat states of the user's other devices are not reported
+        const chatState = this.messages.parseChatState(stanza);
+        if (chatState && carbon !== 'outgoing') {
+            this.emit('chatState', chatState);
+        }
+
+        // Standalone chat state notifications carry no message; reactions come without a body
+        if (
+            chatState &&
+            !stanza.getChild('body') &&
+            !stanza.getChild('x', FileNamespaces.HTTP_UPLOAD) &&
+            !stanza.getChild('reactions', MessageNamespaces.REACTIONS)
+        ) {
+            return;
+        }
+
         const message = this.messages.parseMessage(stanza);
+        if (message) {
+            message.direction = carbon || 'incoming';
+            if (carbon) {
+                message.carbon = true;
+            }
+        }
+        // Receipt requests in copies are answered by the device they were meant for
+        if (message && !carbon) {
+            this.messageStatus.answerReceiptRequest(message).catch((err) => {
+                this.emit('error', {
+                    code: 'RECEIPT_ERROR',
+                    message: err.message,
+                    type: 'wait',
+                } as XMPPError);
+            });
+        }
+        if (message?.retracts) {
+            this.emit('message:retracted', {
+                id: message.retracts.id,
+                from: message.from,
+                moderated: message.retracts.moderated,
+                by: message.retracts.by,
+                reason: message.retracts.reason,
+            });
+            return;
+        }
+        if (message?.reactsTo) {
+            this.emit('message:reactions', {
+                id: message.reactsTo.id,
+                from: message.from,
+                emojis: message.reactsTo.emojis,
+            });
+            return;
+        }
+        if (message?.replaces) {
+            this.emit('message:corrected', {
+                originalId: message.replaces,
+                message,
+            });
+            return;
+        }
+        if (message?.type === 'groupchat') {
+            this.emit('message:groupchat', message);
+            this.emit('message', message);
+            return;
+        }
         if (message) {
             this.getMessageStatus(message.id, message.from).then((status) => {
                 message.readStatus = status;
@@ -101,6 +250,35 @@ export class EjabberdClient extends XMPPEventEmitter implements IXMPPClient {
         }
     }
 
+    /**
+     * Handle a message copied from another resource of the user
+     * Invalid copies are dropped; markers and receipts are only reported for incoming copies
+     */
+    private handleCarbonStanza(stanza: Element): void {
+        const copy = this.carbons.unwrap(stanza);
+        if (!copy) return;
+
+        if (
+            this.messages.parseMarker(copy.message) ||
+            this.isRecieptStanza(copy.message)
+        ) {
+            if (copy.direction === 'incoming') {
+                this.handleMarkerStanza(copy.message);
+                this.handleReceiptStanza(copy.message);
+            }
+            return;
+        }
+
+        this.handleMessageStanza(copy.message, copy.direction);
+    }
+
+    private handleMarkerStanza(stanza: Element): void {
+        const marker = this.messages.parseMarker(stanza);
+        if (marker) {
+            this.emit('marker', marker);
+        }
+    }
+
     private handleReceiptStanza(stanza: Element): void {
         const receipt = this.messages.parseReceipt(stanza);
         if (receipt) {
@@ -108,13 +286,116 @@ export class EjabberdClient extends XMPPEventEmitter implements IXMPPClient {
         }
     }
 
+    /**
+     * Handle a presence stanza that does not belong to a room
+     * Availability changes are reported with the contact's best presence
+     */
+    private handlePresenceStanza(stanza: Element): void {
+        const presence = this.messages.parsePresence(stanza);
+        if (!presence) return;
+
+        if (presence.error) {
+            this.emit('presence:error', presence.error);
+            return;
+        }
+        if (presence.subscription) {
+            this.emit('presence:subscription', presence);
+            if (presence.subscription === 'subscribe') {
+                this.handleSubscriptionRequest(presence);
+            }
+            return;
+        }
+
+        this.emit('presence', presence);
+        this.caps.handlePresence(presence);
+        const best = this.presence.update(presence);
+        if (best) {
+            this.emit('presence:available', best);
+        } else {
+            this.emit('presence:unavailable', presence);
+        }
+    }
+
+    /**
+     * Report a subscription request unless the auto-accept policy accepted it
+     */
+    private handleSubscriptionRequest(presence: PresenceMessage): void {
+        this.subscriptions
+            .handleRequest(presence)
+            .then((request) => {
+                if (request) {
+                    this.emit('presence:subscribe', request);
+                }
+            })
+            .catch((err) => {
+                this.emit('presence:error', {
+                    code: 'SUBSCRIPTION_ERROR',
+                    message: err.message,
+                    type: 'cancel',
+                } as XMPPError);
+            });
+    }
+
     /**
      * Setup event handlers for the client
      */
     private setupEventHandlers(): void {
         // Connection events
         this.connection.on('status', (status: ConnectionState) => {
+            // Rooms survive a resumed stream but not a new session,
+            // which includes a refused resumption going back to connecting
+            if (status === 'disconnected' || status === 'connecting') {
+                this.rooms.reset();
+                this.chatStates.reset();
+                this.carbons.reset();
+                this.presence.clear();
+                this.disco.clearCache();
+                this.caps.reset();
+                this.attachments.reset();
+            }
             this.emit('status', status);
+
+            if (
+                status === 'online' &&
+                this.connection.getConfig().carbons !== false &&
+                !this.carbons.isEnabled()
+            ) {
+                this.carbons.enable().catch((err) => {
+                    this.emit('error', {
+                        code: 'CARBONS_ERROR',
+                        message: err.message,
+                        type: 'cancel',
+                    } as XMPPError);
+                });
+            }
+
+            if (status === 'online') {
+                this.attachments.discover().catch((err) => {
+                    this.emit('error', {
+                        code: 'UPLOAD_DISCOVERY_ERROR',
+                        message: err.message,
+                        type: 'wait',
+                    } as XMPPError);
+                });
+            }
+
+            if (status === 'online' && this.outbox.isEnabled()) {
+                this.outbox.flush().catch((err) => {
+                    this.emit('error', {
+                        code: 'OUTBOX_ERROR',
+                        message: err.message,
+                        type: 'wait',
+                    } as XMPPError);
+                });
+            }
+        });
+
+        this.connection.on('stanza:acked', (stanza: Element) => {
+            this.emit('stanza:acked', stanza);
+        });
+
+        this.connection.on('stanza:failed', (stanza: Element) => {
+            this.emit('stanza:failed', stanza);
         });
 
         this.connection.on('error', (err: Error) => {
@@ -125,21 +406,69 @@ export class EjabberdClient extends XMPPEventEmitter implements IXMPPClient {
             } as XMPPError);
         });
 
+        // Room events
+        (
+            ['room:join', 'room:leave', 'room:error', 'room:occupants'] as const
+        ).forEach((event) => {
+            this.rooms.on(event, (data) => this.emit(event, data));
+        });
+
+        // Outbox events
+        (
+            [
+                'outbox:queued',
+                'outbox:sent',
+                'outbox:failed',
+                'outbox:cancelled',
+            ] as const
+        ).forEach((event) => {
+            this.outbox.on(event, (entry) => this.emit(event, entry));
+        });
+        this.outbox.on('outbox:error', (error: XMPPError) =>
+            this.emit('outbox:error', error),
+        );
+
+        // Upload events
+        (
+            ['upload:progress', 'upload:complete', 'upload:failed'] as const
+        ).forEach((event) => {
+            this.attachments.on(event, (payload) => this.emit(event, payload));
+        });
+
+        // Roster events
+        (['roster:update', 'roster:remove', 'roster:error'] as const).forEach(
+            (event) => {
+                this.roster.on(event, (data) => this.emit(event, data));
+            },
+        );
+
         // Message events
         this.connection.on('stanza', async (stanza: Element) => {
+            // Handle room occupant presence
+            if (stanza.name === 'presence' && this.rooms.isRoomStanza(stanza)) {
+                this.rooms.handlePresence(stanza);
+                return;
+            }
+
             // Handle presence stanzas
             if (stanza.name === 'presence') {
-                const presence = this.messages.parsePresence(stanza);
-                if (presence) {
-                    this.emit('presence', presence);
-                }
+                this.handlePresenceStanza(stanza);
                 return;
             }
 
             // Handle messages
             if (stanza.name === 'message' || stanza.name === 'iq') {
+                // Query results are resolved by queryArchive
+                if (this.isMAMFinStanza(stanza)) {
+                    return;
+                }
+
                 if (this.isMAMStanza(stanza)) {
                     this.handleMAMStanza(stanza);
+                } else if (this.carbons.isCarbon(stanza)) {
+                    this.handleCarbonStanza(stanza);
+                } else if (this.messages.parseMarker(stanza)) {
+                    this.handleMarkerStanza(stanza);
                 } else if (this.isRecieptStanza(stanza)) {
                     this.handleReceiptStanza(stanza);
                 } else if (this.isMessageStanza(stanza)) {
@@ -166,57 +495,189 @@ export class EjabberdClient extends XMPPEventEmitter implements IXMPPClient {
 
     /**
      * Send a chat message
+     * With the outbox enabled the message is queued while disconnected
      */
     public async sendMessage(
         to: string,
         body: string,
         options?: MessageOptions,
     ): Promise<void> {
-        const message = this.messages.createChatMessage(to, body, options);
+        // Messages in a conversation with chat states carry the active state
+        if (this.chatStates.hasConversation(to)) {
+            options = { chatState: 'active', ...options };
+        }
+
+        if (this.outbox.isEnabled()) {
+            await this.outbox.enqueue(to, body, options);
+        } else {
+            const message = this.messages.createChatMessage(to, body, options);
+            await this.connection.sendStanza(message);
+        }
+        this.chatStates.handleMessageSent(to);
+    }
+
+    /**
+     * Correct the last message sent to a contact or joined room
+     * @param to - JID of the contact or joined room
+     * @param originalId - Id of the message being corrected
+     * @param newBody - The corrected text
+     */
+    public async correctMessage(
+        to: string,
+        originalId: string,
+        newBody: string,
+    ): Promise<void> {
+        const conversation = this.resolveConversation(to);
+        if (conversation.type === 'chat') {
+            await this.sendMessage(to, newBody, { replacesId: originalId });
+            return;
+        }
+
+        const message = this.messages.createGroupChatMessage(
+            conversation.to,
+            newBody,
+            { replacesId: originalId },
+        );
+        await this.connection.sendStanza(message);
+    }
+
+    /**
+     * Retract a previously sent message for everyone
+     * @param to - JID of the contact or joined room
+     * @param messageId - Id of the message: its id in chats, the stanza id in rooms
+     */
+    public async retractMessage(to: string, messageId: string): Promise<void> {
+        const conversation = this.resolveConversation(to);
+        const message = this.messages.createRetractionMessage(
+            conversation.to,
+            messageId,
+            conversation.type,
+        );
+        await this.connection.sendStanza(message);
+    }
+
+    /**
+     * React to a message, replacing the user's previous reactions to it
+     * @param to - JID of the contact or joined room
+     * @param messageId - Id of the message: its id in chats, the stanza id in rooms
+     * @param emojis - The full set of reactions, empty to remove them
+     */
+    public async react(
+        to: string,
+        messageId: string,
+        emojis: string[],
+    ): Promise<void> {
+        const conversation = this.resolveConversation(to);
+        const message = this.messages.createReactionMessage(
+            conversation.to,
+            messageId,
+            emojis,
+            conversation.type,
+        );
         await this.connection.sendStanza(message);
     }
 
     /**
-     * Upload a file attachment
+     * Send a chat state notification (e.g. typing) to a contact
+     * Repeated states are throttled; composing turns into paused and
+     * active/paused into inactive when no new state is set
+     * @param to - JID of the contact
+     * @param state - The chat state to send
+     */
+    public async setChatState(
+        to: string,
+        state: CompositionState,
+    ): Promise<void> {
+        await this.chatStates.setChatState(to, state);
+    }
+
+    /**
+     * Upload a file attachment and send its URL
+     * Transient HTTP failures are retried with a new slot and backoff
+     * @param file - File, in-memory data, Node stream or path on the server
+     * @param options - Upload id, progress callback, abort signal and retries
+     * @throws {FileError} If the file is rejected, the upload fails or is cancelled
      */
     public async sendAttachment(
         to: string,
         body: string,
-        file: File,
+        file: AttachmentSource,
+        options?: UploadOptions,
     ): Promise<void> {
-        const uploadSlot = await this.attachments.uploadFile(file);
+        const upload = await this.attachments.upload(file, options);
         const message = this.messages.createAttachmentMessage(
             to,
             body,
-            file,
-            uploadSlot,
+            upload.file,
+            upload.slot,
         );
         await this.connection.sendStanza(message);
     }
 
+    /**
+     * Get the upload settings, discovering the upload service first
+     * @returns The configured values merged over the discovered service and its limits
+     */
+    public async uploadConfig(): Promise<UploadConfig> {
+        await this.attachments.discover();
+        return this.attachments.getConfig();
+    }
+
     /**
      * Query message archive
+     * @returns Promise that resolves with the result once the query's fin arrives
+     * @throws {Error} If the server returns an IQ error or the query times out
      */
-    public async queryArchive(options: MAMQueryOptions): Promise<void> {
+    public async queryArchive(options: MAMQueryOptions): Promise<MAMResult> {
         const client = this.connection.getClient();
         if (!client) {
             throw new Error('Client is not connected');
         }
-        const query = this.mamQueries.createQuery(options);
-        await this.mam.sendQuery(client, query);
+        const mamResult = await this.archive.query(options);
+        await this.resolveMAMStatuses(mamResult);
+        this.emit('mamResult', mamResult);
+        return mamResult;
     }
 
+    /**
+     * Broadcast presence to all subscribed contacts
+     * Available presence carries the client's entity capabilities (XEP-0115),
+     * unless they cannot be hashed in the current environment
+     * @param presence - Availability, or show/status/priority of an available presence
+     */
     public async broadcastPresence(
-        type: 'available' | 'unavailable',
+        presence: 'available' | 'unavailable' | PresenceOptions = 'available',
     ): Promise<void> {
-        await this.connection.broadcastPresence(type);
+        const caps =
+            presence === 'unavailable'
+                ? null
+                : await this.caps.createCapsElement();
+        await this.connection.broadcastPresence(presence, caps ?? undefined);
+    }
+
+    /**
+     * Check if a contact's resource supports a feature
+     * Uses the resource's verified entity capabilities, querying it only when unknown
+     * @param fullJid - Full JID of the contact's resource
+     * @param feature - Feature namespace, e.g. urn:xmpp:reactions:0
+     */
+    public async peerSupports(
+        fullJid: string,
+        feature: string,
+    ): Promise<boolean> {
+        return this.caps.peerSupports(fullJid, feature);
     }
 
     /**
      * Request presence subscription from a contact
+     * @param jid - JID of the contact
+     * @param options - Nickname and message shown to the contact
      */
-    public async subscribeToPresence(jid: string): Promise<void> {
-        await this.connection.subscribeToPresence(jid);
+    public async subscribeToPresence(
+        jid: string,
+        options?: SubscriptionRequestOptions,
+    ): Promise<void> {
+        await this.connection.subscribeToPresence(jid, options);
     }
 
     /**
@@ -233,6 +694,49 @@ export class EjabberdClient extends XMPPEventEmitter implements IXMPPClient {
         await this.connection.acceptSubscription(jid);
     }
 
+    /**
+     * Deny a presence subscription request
+     */
+    public async denySubscription(jid: string): Promise<void> {
+        await this.connection.denySubscription(jid);
+    }
+
+    /**
+     * Stop a contact from seeing the user's presence
+     */
+    public async cancelSubscription(jid: string): Promise<void> {
+        await this.connection.cancelSubscription(jid);
+    }
+
+    /**
+     * Stop seeing a contact's presence
+     */
+    public async unsubscribe(jid: string): Promise<void> {
+        await this.connection.unsubscribe(jid);
+    }
+
+    /**
+     * Accept a contact's subscription before they request it
+     * @throws {Error} If the server does not advertise pre-approval
+     */
+    public async preApproveSubscription(jid: string): Promise<void> {
+        await this.connection.preApproveSubscription(jid);
+    }
+
+    /**
+     * Check if the server supports subscription pre-approval
+     */
+    public supportsPreApproval(): boolean {
+        return this.connection.supportsPreApproval();
+    }
+
+    /**
+     * Get the features advertised by the user's server
+     */
+    public async serverFeatures(): Promise<string[]> {
+        return this.disco.getServerFeatures();
+    }
+
     /**
      * Get current connection status
      */
@@ -240,6 +744,13 @@ export class EjabberdClient extends XMPPEventEmitter implements IXMPPClient {
         return this.connection.getStatus();
     }
 
+    /**
+     * Get Stream Management (XEP-0198) session state
+     */
+    public getStreamManagementState(): StreamManagementState {
+        return this.connection.getStreamManagementState();
+    }
+
     /**
      * Get current user's JID
      */
@@ -269,6 +780,38 @@ export class EjabberdClient extends XMPPEventEmitter implements IXMPPClient {
         }
     }
 
+    /**
+     * Mark every message of a conversation up to a given one as read
+     * Sends a single chat marker covering all earlier messages
+     * @param messages - Messages of one conversation in chronological order
+     * @param messageId - Id (or stanza id) of the last read message
+     */
+    public async markMessagesAsReadUpTo(
+        messages: Array<XMPPMessage>,
+        messageId: string,
+    ): Promise<void> {
+        try {
+            const marked = await this.messageStatus.markDisplayedUpTo(
+                messages,
+                messageId,
+            );
+            marked.forEach((message) => {
+                this.emit('message:read', {
+                    messageId: message.id,
+                    fromJid: message.from,
+                    toJid: message.to,
+                });
+            });
+        } catch (error: any) {
+            this.emit('message:read:error', {
+                code: error.name,
+                message: error.message,
+                type: 'cancel',
+            } as XMPPError);
+            throw error;
+        }
+    }
+
     /**
      * Mark a message as delivered
      * @param message - The message to mark as delivered
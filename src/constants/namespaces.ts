@@ -15,6 +15,8 @@ export const MAMNamespaces = {
     RSM: 'http://jabber.org/protocol/rsm',
     /** Data Forms for querying */
     DATAFORM: 'jabber:x:data',
+    /** Full text search extension fields */
+    FULLTEXT: 'urn:xmpp:fulltext:0',
 } as const;
 
 /**
@@ -30,6 +32,26 @@ export const MessageNamespaces = {
     RECEIPT: 'urn:xmpp:receipts',
     /** Message status notifications */
     STATUS: 'urn:xmpp:message-status:0',
+    /** Chat markers (received, displayed, acknowledged) */
+    CHAT_MARKERS: 'urn:xmpp:chat-markers:0',
+    /** Chat state notifications (typing) */
+    CHAT_STATES: 'http://jabber.org/protocol/chatstates',
+    /** Message retraction */
+    RETRACT: 'urn:xmpp:message-retract:1',
+    /** Message moderation in rooms */
+    MODERATE: 'urn:xmpp:message-moderate:1',
+    /** Fallback indication for clients without support */
+    FALLBACK: 'urn:xmpp:fallback:0',
+    /** Message replies */
+    REPLY: 'urn:xmpp:reply:0',
+    /** Message reactions */
+    REACTIONS: 'urn:xmpp:reactions:0',
+    /** Message carbons (copies for the user's other resources) */
+    CARBONS: 'urn:xmpp:carbons:2',
+    /** Forwarded stanzas */
+    FORWARD: 'urn:xmpp:forward:0',
+    /** Message processing hints */
+    HINTS: 'urn:xmpp:hints',
 } as const;
 
 /**
@@ -40,3 +62,81 @@ export const FileNamespaces = {
     /** HTTP File Upload */
     HTTP_UPLOAD: 'urn:xmpp:http:upload:0',
 } as const;
+
+/**
+ * Multi-User Chat related namespaces
+ * Used for joining rooms, tracking occupants and group messaging
+ */
+export const MUCNamespaces = {
+    /** Multi-User Chat (join requests) */
+    MUC: 'http://jabber.org/protocol/muc',
+    /** Multi-User Chat user extensions (occupant information) */
+    MUC_USER: 'http://jabber.org/protocol/muc#user',
+} as const;
+
+/**
+ * Roster related namespaces
+ * Used for managing contacts and their subscriptions
+ */
+export const RosterNamespaces = {
+    /** Roster management */
+    ROSTER: 'jabber:iq:roster',
+} as const;
+
+/**
+ * Service Discovery related namespaces
+ * Used for finding out which features and services an entity offers
+ */
+export const DiscoNamespaces = {
+    /** Identities and features of an entity */
+    INFO: 'http://jabber.org/protocol/disco#info',
+    /** Items (services, nodes) associated with an entity */
+    ITEMS: 'http://jabber.org/protocol/disco#items',
+} as const;
+
+/**
+ * Namespaces of requests the client answers about itself
+ */
+export const EntityNamespaces = {
+    /** XMPP Ping (XEP-0199) */
+    PING: 'urn:xmpp:ping',
+    /** Software Version (XEP-0092) */
+    VERSION: 'jabber:iq:version',
+    /** Entity Time (XEP-0202) */
+    TIME: 'urn:xmpp:time',
+} as const;
+
+/**
+ * Presence related namespaces
+ * Used for extensions carried in presence stanzas
+ */
+export const PresenceNamespaces = {
+    /** User nickname (XEP-0172) */
+    NICK: 'http://jabber.org/protocol/nick',
+    /** Entity Capabilities (XEP-0115) */
+    CAPS: 'http://jabber.org/protocol/caps',
+} as const;
+
+/**
+ * Stream level namespaces
+ * Used for negotiating stream features such as Stream Management
+ */
+export const StreamNamespaces = {
+    /** Stream Management (acks and resumption) */
+    SM: 'urn:xmpp:sm:3',
+    /** XML streams, including stream features */
+    STREAM: 'http://etherx.jabber.org/streams',
+    /** Subscription pre-approval stream feature */
+    PRE_APPROVAL: 'urn:xmpp:features:pre-approval',
+    /** Roster versioning stream feature */
+    ROSTER_VERSIONING: 'urn:xmpp:features:rosterver',
+} as const;
+
+/**
+ * Core stanza namespaces
+ * Used for the error conditions any stanza can carry (RFC 6120)
+ */
+export const StanzaNamespaces = {
+    /** Stanza error conditions */
+    ERRORS: 'urn:ietf:params:xml:ns:xmpp-stanzas',
+} as const;
@@ -5,8 +5,25 @@ import {
     ConnectionState,
     ConnectionConfig,
     ConnectionError,
+    IQError,
+    IQHandler,
+    StreamManagementState,
 } from '../types/connection';
 import { JIDUtils } from '../utils/jid';
+import { StreamManager } from './stream';
+import { createTimeResult, createVersionResult } from './responders';
+import {
+    EntityNamespaces,
+    MUCNamespaces,
+    PresenceNamespaces,
+    StanzaNamespaces,
+    StreamNamespaces,
+} from '../constants/namespaces';
+import {
+    PresenceOptions,
+    PresenceSubscriptionType,
+    SubscriptionRequestOptions,
+} from '../types/messages';
 
 /**
  * Default configuration values for connection management
@@ -15,6 +32,7 @@ const DEFAULT_CONFIG = {
     TIMEOUT: 10000,
     MAX_RECONNECT_ATTEMPTS: 5,
     MAX_BACKOFF_TIME: 30000,
+    SOFTWARE: { name: 'next-ejabberd', version: 'unknown' },
 } as const;
 
 /**
@@ -28,11 +46,16 @@ export class ConnectionManager extends EventEmitter {
     private connectionTimeout: NodeJS.Timeout | null = null;
     private reconnectAttempts = 0;
     private readonly config: ConnectionConfig;
+    private readonly streamManagement = new StreamManager();
+    private streamFeatures: Element | null = null;
+    private iqHandlers: Map<string, IQHandler> = new Map();
 
     constructor(config: ConnectionConfig) {
         super();
         this.config = this.validateConfig(config);
         this.setupErrorHandler();
+        this.setupStreamManagement();
+        this.setupIQHandlers();
     }
 
     /**
@@ -63,6 +86,72 @@ export class ConnectionManager extends EventEmitter {
         return jid(`${this.config.username}`).toString();
     }
 
+    /**
+     * Get Stream Management (XEP-0198) session state
+     */
+    public getStreamManagementState(): StreamManagementState {
+        return this.streamManagement.getState();
+    }
+
+    /**
+     * Check if the server advertised a stream feature on the current stream
+     * @param name - Name of the feature element
+     * @param xmlns - Namespace of the feature element
+     */
+    public hasStreamFeature(name: string, xmlns: string): boolean {
+        return !!this.streamFeatures?.getChild(name, xmlns);
+    }
+
+    /**
+     * Register a handler answering incoming IQ requests of a namespace
+     * Requests nobody handles are answered with service-unavailable
+     * @param namespace - Namespace of the request's payload
+     * @param type - Type of the request
+     * @param handler - Returns the result payload or throws an IQError
+     */
+    public registerIQHandler(
+        namespace: string,
+        type: 'get' | 'set',
+        handler: IQHandler,
+    ): void {
+        this.iqHandlers.set(`${type} ${namespace}`, handler);
+    }
+
+    /**
+     * Remove the handler of a namespace
+     */
+    public unregisterIQHandler(namespace: string, type: 'get' | 'set'): void {
+        this.iqHandlers.delete(`${type} ${namespace}`);
+    }
+
+    /**
+     * Answer an incoming IQ request with the registered handler
+     * @param iq - The IQ get or set
+     * @returns The result payload, true for an empty result, an error element,
+     * or null when no handler is registered
+     */
+    public async handleIQ(iq: Element): Promise<Element | true | null> {
+        const payload = iq.getChildElements()[0];
+        const handler = this.iqHandlers.get(
+            `${iq.attrs.type} ${payload?.attrs.xmlns}`,
+        );
+        if (!handler) return null;
+
+        try {
+            return (await handler(iq)) || true;
+        } catch (error) {
+            const { condition, type } =
+                error instanceof IQError
+                    ? error
+                    : new IQError('internal-server-error');
+            const element = new Element('error', { type });
+            element.append(
+                new Element(condition, { xmlns: StanzaNamespaces.ERRORS }),
+            );
+            return element;
+        }
+    }
+
     /**
      * Check if client is currently connected
      */
@@ -75,7 +164,7 @@ export class ConnectionManager extends EventEmitter {
      * @throws {ConnectionError} If connection fails or is already in progress
      */
     public async connect(): Promise<void> {
-        if (this.status === 'connecting') {
+        if (this.status === 'connecting' || this.status === 'resuming') {
             throw new ConnectionError('Connection already in progress');
         }
 
@@ -83,7 +172,9 @@ export class ConnectionManager extends EventEmitter {
             throw new ConnectionError('Already connected');
         }
 
-        this.setStatus('connecting');
+        this.setStatus(
+            this.streamManagement.canResume() ? 'resuming' : 'connecting',
+        );
         this.setupConnectionTimeout();
 
         try {
@@ -102,6 +193,7 @@ export class ConnectionManager extends EventEmitter {
 
         try {
             await this.xmpp.stop();
+            this.streamManagement.reset();
             this.cleanup();
         } catch (error) {
             this.handleConnectionError(error as Error);
@@ -109,31 +201,88 @@ export class ConnectionManager extends EventEmitter {
         }
     }
 
+    /**
+     * Send presence to a room occupant JID (room@service/nickname)
+     * @param to - Occupant JID
+     * @param type - Presence type
+     * @param muc - Optional MUC element (join options); a bare one is used on join
+     */
     public async sendPresenceToRoom(
         to: string,
         type: 'available' | 'unavailable',
+        muc?: Element,
     ): Promise<void> {
         const presence = new Element('presence', {
             to,
-            type,
+            ...(type === 'unavailable' ? { type } : {}),
         });
+        if (type === 'available') {
+            presence.append(
+                muc || new Element('x', { xmlns: MUCNamespaces.MUC }),
+            );
+        }
         await this.sendStanza(presence);
     }
 
+    /**
+     * Broadcast presence to all subscribed contacts
+     * @param presence - Availability, or show/status/priority of an available presence
+     * @param caps - Optional entity capabilities element (XEP-0115)
+     */
     public async broadcastPresence(
-        type: 'available' | 'unavailable',
+        presence: 'available' | 'unavailable' | PresenceOptions = 'available',
+        caps?: Element,
     ): Promise<void> {
-        const presence = new Element('presence', {
-            ...(type === 'unavailable' ? { type } : {}),
-        });
-        await this.sendStanza(presence);
+        const stanza = new Element(
+            'presence',
+            presence === 'unavailable' ? { type: presence } : {},
+        );
+
+        if (typeof presence === 'object') {
+            const children = {
+                show: presence.show,
+                status: presence.status,
+                priority: presence.priority?.toString(),
+            };
+            Object.entries(children).forEach(([name, text]) => {
+                if (!text) return;
+                const child = new Element(name);
+                child.children.push(text);
+                stanza.children.push(child);
+            });
+        }
+        if (caps) {
+            stanza.append(caps);
+        }
+
+        await this.sendStanza(stanza);
     }
 
-    public async subscribeToPresence(jid: string): Promise<void> {
+    /**
+     * Ask a contact to see their presence
+     * @param jid - JID of the contact
+     * @param options - Nickname and message shown to the contact
+     */
+    public async subscribeToPresence(
+        jid: string,
+        options: SubscriptionRequestOptions = {},
+    ): Promise<void> {
         const presence = new Element('presence', {
             to: jid,
             type: 'subscribe',
         });
+        if (options.nick) {
+            const nick = new Element('nick', {
+                xmlns: PresenceNamespaces.NICK,
+            });
+            nick.children.push(options.nick);
+            presence.children.push(nick);
+        }
+        if (options.status) {
+            const status = new Element('status');
+            status.children.push(options.status);
+            presence.children.push(status);
+        }
         return this.sendStanza(presence);
     }
 
@@ -146,19 +295,71 @@ export class ConnectionManager extends EventEmitter {
     }
 
     public async acceptSubscription(jid: string): Promise<void> {
-        const presence = new Element('presence', {
-            to: jid,
-            type: 'subscribed',
-        });
-        return this.sendStanza(presence);
+        return this.sendSubscriptionPresence(jid, 'subscribed');
+    }
+
+    /**
+     * Refuse a contact's subscription request
+     */
+    public async denySubscription(jid: string): Promise<void> {
+        return this.sendSubscriptionPresence(jid, 'unsubscribed');
+    }
+
+    /**
+     * Stop a contact from seeing the user's presence
+     */
+    public async cancelSubscription(jid: string): Promise<void> {
+        return this.sendSubscriptionPresence(jid, 'unsubscribed');
+    }
+
+    /**
+     * Stop seeing a contact's presence
+     */
+    public async unsubscribe(jid: string): Promise<void> {
+        return this.sendSubscriptionPresence(jid, 'unsubscribe');
+    }
+
+    /**
+     * Approve a contact's subscription before they ask for it
+     * @throws {Error} If the server does not support pre-approval
+     */
+    public async preApproveSubscription(jid: string): Promise<void> {
+        if (!this.supportsPreApproval()) {
+            throw new Error(
+                'Server does not support subscription pre-approval',
+            );
+        }
+        return this.sendSubscriptionPresence(jid, 'subscribed');
+    }
+
+    /**
+     * Check if the server advertised subscription pre-approval
+     */
+    public supportsPreApproval(): boolean {
+        return this.hasStreamFeature('sub', StreamNamespaces.PRE_APPROVAL);
+    }
+
+    /**
+     * Check if the server advertised roster versioning
+     */
+    public supportsRosterVersioning(): boolean {
+        return this.hasStreamFeature('ver', StreamNamespaces.ROSTER_VERSIONING);
+    }
+
+    private async sendSubscriptionPresence(
+        to: string,
+        type: PresenceSubscriptionType,
+    ): Promise<void> {
+        return this.sendStanza(new Element('presence', { to, type }));
     }
 
     /**
      * Send an IQ stanza and wait for response
      * @param iq - The IQ stanza to send
+     * @param timeout - Optional time in ms to wait for the response
      * @returns Promise that resolves with the response stanza
      */
-    public async sendIQ(iq: Element): Promise<Element> {
+    public async sendIQ(iq: Element, timeout?: number): Promise<Element> {
         if (!this.xmpp || this.status !== 'online') {
             throw new Error('Not connected to server');
         }
@@ -168,7 +369,7 @@ export class ConnectionManager extends EventEmitter {
         }
 
         try {
-            const response = await this.xmpp.iqCaller.request(iq);
+            const response = await this.xmpp.iqCaller.request(iq, timeout);
             return response;
         } catch (error: any) {
             if (error.condition) {
@@ -215,6 +416,35 @@ export class ConnectionManager extends EventEmitter {
         });
     }
 
+    /**
+     * Answer pings (XEP-0199), software version (XEP-0092) and entity time (XEP-0202)
+     */
+    private setupIQHandlers(): void {
+        this.registerIQHandler(EntityNamespaces.PING, 'get', () => {});
+        this.registerIQHandler(EntityNamespaces.VERSION, 'get', () =>
+            createVersionResult(
+                this.config.software || DEFAULT_CONFIG.SOFTWARE,
+            ),
+        );
+        this.registerIQHandler(EntityNamespaces.TIME, 'get', () =>
+            createTimeResult(),
+        );
+    }
+
+    private setupStreamManagement(): void {
+        this.streamManagement.on('stanza:acked', (stanza: Element) =>
+            this.emit('stanza:acked', stanza),
+        );
+        this.streamManagement.on('stanza:failed', (stanza: Element) =>
+            this.emit('stanza:failed', stanza),
+        );
+        this.streamManagement.on('resumed', this.handleResumed.bind(this));
+        // The previous session is gone, so the stream goes online as a new session
+        this.streamManagement.on('resume:failed', () => {
+            if (this.status === 'resuming') this.setStatus('connecting');
+        });
+    }
+
     private setStatus(status: ConnectionState): void {
         this.status = status;
         this.emit('status', status);
@@ -223,7 +453,7 @@ export class ConnectionManager extends EventEmitter {
     private setupConnectionTimeout(): void {
         this.clearConnectionTimeout();
         this.connectionTimeout = setTimeout(() => {
-            if (this.status === 'connecting') {
+            if (this.status === 'connecting' || this.status === 'resuming') {
                 this.handleConnectionError(
                     new ConnectionError('Connection timeout', 'TIMEOUT'),
                 );
@@ -240,7 +470,15 @@ export class ConnectionManager extends EventEmitter {
 
     private async establishConnection(): Promise<void> {
         this.xmpp = this.createXMPPClient();
+        this.streamFeatures = null;
         this.setupEventHandlers();
+
+        if (this.config.streamManagement === false) {
+            this.xmpp.streamManagement.allowResume = false;
+        } else {
+            this.streamManagement.attach(this.xmpp);
+        }
+
         await this.xmpp.start();
         await this.waitForConnection();
     }
@@ -264,6 +502,20 @@ export class ConnectionManager extends EventEmitter {
         this.xmpp.on('stanza', (stanza: Element) =>
             this.emit('stanza', stanza),
         );
+        // xmpp.js answers requests without a reply with service-unavailable
+        this.xmpp.middleware.use(async (ctx, next) => {
+            const { name, attrs } = ctx.stanza;
+            if (name !== 'iq' || !['get', 'set'].includes(attrs.type)) {
+                return next();
+            }
+            return (await this.handleIQ(ctx.stanza)) || next();
+        });
+        // Features of the stream that was last opened, after authentication
+        this.xmpp.on('nonza', (nonza: Element) => {
+            if (nonza.is('features', StreamNamespaces.STREAM)) {
+                this.streamFeatures = nonza;
+            }
+        });
     }
 
     private handleOnline(): void {
@@ -273,6 +525,19 @@ export class ConnectionManager extends EventEmitter {
         this.emit('online');
     }
 
+    /**
+     * A resumed stream is not announced as online by xmpp.js, so do it here
+     */
+    private handleResumed(): void {
+        if (!this.xmpp) return;
+
+        const { inbound } = this.xmpp.streamManagement;
+        this.xmpp.jid = this.streamManagement.getBoundJid();
+        this.xmpp.emit('online', this.xmpp.jid);
+        // The online listener of xmpp.js restarts the counter of a new session
+        this.xmpp.streamManagement.inbound = inbound;
+    }
+
     private handleOffline(): void {
         this.setStatus('disconnected');
         this.emit('offline');
@@ -280,6 +545,7 @@ export class ConnectionManager extends EventEmitter {
 
     private handleConnectionError(error: Error): void {
         this.clearConnectionTimeout();
+        this.streamManagement.detach();
 
         const connectionError =
             error instanceof ConnectionError
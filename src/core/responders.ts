@@ -0,0 +1,49 @@
+import { Element } from '@xmpp/xml';
+import { EntityNamespaces } from '../constants/namespaces';
+import { SoftwareVersion } from '../types/connection';
+
+/**
+ * Creates the payload of a software version result
+ * Implements XEP-0092: Software Version
+ * @param software - Name, version and optional OS of the client
+ */
+export function createVersionResult(software: SoftwareVersion): Element {
+    const query = new Element('query', { xmlns: EntityNamespaces.VERSION });
+    query.append(createTextElement('name', software.name));
+    query.append(createTextElement('version', software.version));
+    if (software.os) {
+        query.append(createTextElement('os', software.os));
+    }
+    return query;
+}
+
+/**
+ * Creates the payload of an entity time result
+ * Implements XEP-0202: Entity Time
+ * @param date - The current time
+ */
+export function createTimeResult(date: Date = new Date()): Element {
+    // getTimezoneOffset is positive west of UTC
+    const offset = -date.getTimezoneOffset();
+    const hours = String(Math.floor(Math.abs(offset) / 60)).padStart(2, '0');
+    const minutes = String(Math.abs(offset) % 60).padStart(2, '0');
+
+    const time = new Element('time', { xmlns: EntityNamespaces.TIME });
+    time.append(
+        createTextElement(
+            'tzo',
+            `${offset < 0 ? '-' : '+'}${hours}:${minutes}`,
+        ),
+    );
+    // Whole seconds, as in the examples of the specification
+    time.append(
+        createTextElement('utc', date.toISOString().replace(/\.\d+Z$/, 'Z')),
+    );
+    return time;
+}
+
+function createTextElement(name: string, text: string): Element {
+    const element = new Element(name);
+    element.children.push(text);
+    return element;
+}
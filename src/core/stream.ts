@@ -0,0 +1,236 @@
+import { client as XMPPClient } from '@xmpp/client';
+import { JID } from '@xmpp/jid';
+import { Element } from '@xmpp/xml';
+import { EventEmitter } from 'events';
+import { StreamManagementState } from '../types/connection';
+import { StreamNamespaces } from '../constants/namespaces';
+
+/**
+ * Default values for stream management
+ */
+const DEFAULTS = {
+    ACK_REQUEST_DELAY: 250,
+} as const;
+
+/**
+ * Stanzas counted by stream management
+ */
+const STANZA_NAMES = ['message', 'presence', 'iq'];
+
+type XMPPClientInstance = ReturnType<typeof XMPPClient>;
+
+/**
+ * Tracks a Stream Management session across connections
+ * Keeps the outgoing stanzas until the server acknowledges them and
+ * carries the resumption id over to the next connection
+ * Implements XEP-0198: Stream Management
+ */
+export class StreamManager extends EventEmitter {
+    private xmpp: XMPPClientInstance | null = null;
+    private enabled = false;
+    private resumable = false;
+    private id: string | null = null;
+    private max: number | null = null;
+    private jid: JID | null = null;
+    private inbound = 0;
+    private outbound = 0;
+    private unacked: Element[] = [];
+    private lostAt: number | null = null;
+    private ackTimer: NodeJS.Timeout | null = null;
+
+    private readonly onNonza = this.handleNonza.bind(this);
+    private readonly onSend = this.handleSend.bind(this);
+    private readonly onOnline = (jid: JID) => {
+        this.jid = jid;
+    };
+
+    /**
+     * Get the current stream management state
+     */
+    public getState(): StreamManagementState {
+        return {
+            enabled: this.enabled,
+            resumable: this.resumable,
+            id: this.id,
+            max: this.max,
+            inbound: this.xmpp?.streamManagement.inbound ?? this.inbound,
+            outbound: this.outbound,
+            unacked: this.unacked.length,
+        };
+    }
+
+    /**
+     * Get the JID bound to the stream that can be resumed
+     */
+    public getBoundJid(): JID | null {
+        return this.jid;
+    }
+
+    /**
+     * Check if the previous session can still be resumed
+     */
+    public canResume(): boolean {
+        if (!this.id || !this.resumable) return false;
+        if (this.max === null || this.lostAt === null) return true;
+        return Date.now() - this.lostAt < this.max * 1000;
+    }
+
+    /**
+     * Start tracking a new XMPP client instance
+     * Seeds the client with the previous session so it asks for resumption
+     * @param xmpp - The client instance about to be started
+     */
+    public attach(xmpp: XMPPClientInstance): void {
+        this.detach();
+        this.xmpp = xmpp;
+
+        if (this.canResume()) {
+            xmpp.streamManagement.id = this.id!;
+            xmpp.streamManagement.inbound = this.inbound;
+        } else {
+            this.failUnacked();
+            this.clearSession();
+        }
+
+        xmpp.on('nonza', this.onNonza);
+        xmpp.on('send', this.onSend);
+        xmpp.on('online', this.onOnline);
+    }
+
+    /**
+     * Stop tracking the current client instance, keeping the session for resumption
+     */
+    public detach(): void {
+        if (!this.xmpp) return;
+
+        this.inbound = this.xmpp.streamManagement.inbound;
+        this.lostAt = Date.now();
+        this.enabled = false;
+        this.clearAckTimer();
+
+        this.xmpp.removeListener('nonza', this.onNonza);
+        this.xmpp.removeListener('send', this.onSend);
+        this.xmpp.removeListener('online', this.onOnline);
+        this.xmpp = null;
+    }
+
+    /**
+     * Forget the session, failing every stanza that was not acknowledged
+     */
+    public reset(): void {
+        this.detach();
+        this.failUnacked();
+        this.clearSession();
+    }
+
+    private handleNonza(nonza: Element): void {
+        if (nonza.attrs.xmlns !== StreamNamespaces.SM) return;
+
+        switch (nonza.name) {
+            case 'enabled':
+                this.enabled = true;
+                this.id = nonza.attrs.id || null;
+                this.resumable = ['true', '1'].includes(nonza.attrs.resume);
+                this.max = nonza.attrs.max
+                    ? parseInt(nonza.attrs.max, 10)
+                    : null;
+                this.outbound = 0;
+                break;
+            case 'a':
+                this.acknowledge(parseInt(nonza.attrs.h, 10));
+                break;
+            case 'resumed':
+                this.handleResumed(parseInt(nonza.attrs.h, 10));
+                break;
+            case 'failed': {
+                // Resumption failed: a new session is negotiated instead
+                const resuming = this.id !== null;
+                this.failUnacked();
+                this.clearSession();
+                if (resuming) this.emit('resume:failed');
+                break;
+            }
+        }
+    }
+
+    private handleResumed(h: number): void {
+        this.enabled = true;
+        this.acknowledge(h);
+
+        // Stanzas the server never handled are sent (and counted) again on the resumed stream
+        const pending = this.unacked;
+        this.unacked = [];
+        this.outbound -= pending.length;
+
+        // Let xmpp.js finish its own resumption handling before going online
+        setTimeout(() => {
+            this.emit('resumed');
+            pending.forEach((stanza) => {
+                this.xmpp?.send(stanza).catch(() => {
+                    this.emit('stanza:failed', stanza);
+                });
+            });
+        }, 0);
+    }
+
+    private handleSend(element: Element): void {
+        if (!this.enabled || !STANZA_NAMES.includes(element.name)) return;
+
+        this.outbound++;
+        this.unacked.push(element);
+        this.scheduleAckRequest();
+    }
+
+    /**
+     * Drop every stanza covered by the server's handled count
+     * @param h - Number of stanzas handled by the server
+     */
+    private acknowledge(h: number): void {
+        if (isNaN(h)) return;
+
+        const acked = this.outbound - this.unacked.length;
+        const count = Math.min(Math.max(h - acked, 0), this.unacked.length);
+
+        this.unacked
+            .splice(0, count)
+            .forEach((stanza) => this.emit('stanza:acked', stanza));
+    }
+
+    private scheduleAckRequest(): void {
+        if (this.ackTimer) return;
+
+        this.ackTimer = setTimeout(() => {
+            this.ackTimer = null;
+            if (!this.xmpp || !this.enabled || !this.unacked.length) return;
+
+            this.xmpp
+                .send(new Element('r', { xmlns: StreamNamespaces.SM }))
+                .catch(() => {
+                    // The request is repeated with the next stanza
+                });
+        }, DEFAULTS.ACK_REQUEST_DELAY);
+    }
+
+    private clearAckTimer(): void {
+        if (this.ackTimer) {
+            clearTimeout(this.ackTimer);
+            this.ackTimer = null;
+        }
+    }
+
+    private failUnacked(): void {
+        const failed = this.unacked;
+        this.unacked = [];
+        failed.forEach((stanza) => this.emit('stanza:failed', stanza));
+    }
+
+    private clearSession(): void {
+        this.enabled = false;
+        this.resumable = false;
+        this.id = null;
+        this.max = null;
+        this.inbound = 0;
+        this.outbound = 0;
+        this.lostAt = null;
+    }
+}
@@ -0,0 +1,181 @@
+import { Element } from '@xmpp/xml';
+import { DiscoManager } from './disco';
+import { PresenceNamespaces } from '../../constants/namespaces';
+import { DiscoInfo, EntityCaps } from '../../types/disco';
+import { PresenceMessage } from '../../types/messages';
+
+/**
+ * Hash function used for capabilities, the only one clients commonly use
+ */
+const HASH = 'sha-1';
+
+/**
+ * Generate the verification string of an entity's identities, features and extensions
+ * Implements XEP-0115: Entity Capabilities, section 5.1
+ * @returns The base64 encoded SHA-1 hash
+ */
+export async function generateCapsHash(
+    info: Pick<DiscoInfo, 'identities' | 'features' | 'extensions'>,
+): Promise<string> {
+    const identities = info.identities
+        .map(
+            (identity) =>
+                `${identity.category}/${identity.type}/${identity.lang || ''}/${identity.name || ''}<`,
+        )
+        .sort();
+    const features = info.features.map((feature) => `${feature}<`).sort();
+    const extensions = [...info.extensions]
+        .sort((a, b) => (a.formType < b.formType ? -1 : 1))
+        .map(
+            (extension) =>
+                `${extension.formType}<` +
+                Object.keys(extension.fields)
+                    .sort()
+                    .map(
+                        (name) =>
+                            `${name}<` +
+                            [...extension.fields[name]]
+                                .sort()
+                                .map((value) => `${value}<`)
+                                .join(''),
+                    )
+                    .join(''),
+        );
+
+    const input = [...identities, ...features, ...extensions].join('');
+    const digest = await crypto.subtle.digest(
+        'SHA-1',
+        new TextEncoder().encode(input),
+    );
+    return btoa(String.fromCharCode(...new Uint8Array(digest)));
+}
+
+/**
+ * Advertises the client's capabilities and learns those of its peers
+ * Peer features are only cached once their hash was verified, so one
+ * disco#info query covers every resource running the same software
+ * Implements XEP-0115: Entity Capabilities
+ */
+export class CapsManager {
+    private peers: Map<string, EntityCaps> = new Map();
+    private verified: Map<string, string[]> = new Map();
+    private pending: Map<string, Promise<string[] | null>> = new Map();
+
+    constructor(private disco: DiscoManager) {}
+
+    /**
+     * Get the capabilities of the client as advertised in presence
+     */
+    public async getOwnCaps(): Promise<EntityCaps> {
+        return {
+            hash: HASH,
+            node: this.disco.getCapsNode(),
+            ver: await generateCapsHash(this.disco.getLocalInfo()),
+        };
+    }
+
+    /**
+     * Create the capabilities element attached to outgoing presence
+     * @returns The element, or null when the hash cannot be computed
+     * (Web Crypto is missing outside secure contexts, e.g. pages served over http)
+     */
+    public async createCapsElement(): Promise<Element | null> {
+        let caps: EntityCaps;
+        try {
+            caps = await this.getOwnCaps();
+        } catch {
+            return null;
+        }
+        return new Element('c', {
+            xmlns: PresenceNamespaces.CAPS,
+            hash: caps.hash,
+            node: caps.node,
+            ver: caps.ver,
+        });
+    }
+
+    /**
+     * Record the capabilities a peer's presence advertises
+     * Unknown hashes are verified in the background
+     * @param presence - The parsed presence
+     */
+    public handlePresence(presence: PresenceMessage): void {
+        if (!presence.from || presence.subscription || presence.error) return;
+
+        if (presence.status === 'unavailable' || !presence.caps) {
+            this.peers.delete(presence.from);
+            return;
+        }
+
+        this.peers.set(presence.from, presence.caps);
+        this.verify(presence.from, presence.caps).catch(() => {
+            // Verification is retried when the features are needed
+        });
+    }
+
+    /**
+     * Get the features of a peer resource
+     * Falls back to querying the resource when its capabilities are unknown or invalid
+     * @param jid - Full JID of the peer
+     */
+    public async getPeerFeatures(jid: string): Promise<string[]> {
+        const caps = this.peers.get(jid);
+        const features = caps ? await this.verify(jid, caps) : null;
+        if (features) return [...features];
+
+        const info = await this.disco.getInfo(jid);
+        return [...info.features];
+    }
+
+    /**
+     * Check if a peer resource supports a feature
+     * @param jid - Full JID of the peer
+     * @param feature - Feature namespace
+     */
+    public async peerSupports(jid: string, feature: string): Promise<boolean> {
+        const features = await this.getPeerFeatures(jid);
+        return features.includes(feature);
+    }
+
+    /**
+     * Forget which capabilities peers advertised, e.g. when a new session starts
+     * Verified hashes are kept as they do not depend on the session
+     */
+    public reset(): void {
+        this.peers.clear();
+    }
+
+    /**
+     * Get the features behind a capabilities hash, querying the peer if needed
+     * @returns The features, or null if the hash cannot be verified
+     */
+    private verify(jid: string, caps: EntityCaps): Promise<string[] | null> {
+        if (caps.hash !== HASH) return Promise.resolve(null);
+
+        const known = this.verified.get(caps.ver);
+        if (known) return Promise.resolve(known);
+
+        let pending = this.pending.get(caps.ver);
+        if (!pending) {
+            pending = this.queryCaps(jid, caps).finally(() => {
+                this.pending.delete(caps.ver);
+            });
+            this.pending.set(caps.ver, pending);
+        }
+        return pending;
+    }
+
+    private async queryCaps(
+        jid: string,
+        caps: EntityCaps,
+    ): Promise<string[] | null> {
+        const info = await this.disco.getInfo(jid, `${caps.node}#${caps.ver}`);
+        if ((await generateCapsHash(info)) !== caps.ver) {
+            // Poisoned or buggy hash, never cache it
+            return null;
+        }
+
+        this.verified.set(caps.ver, info.features);
+        return info.features;
+    }
+}
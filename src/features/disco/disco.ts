@@ -0,0 +1,275 @@
+import { Element } from '@xmpp/xml';
+import { ConnectionManager } from '../../core/connection';
+import { DiscoHandler } from './handlers';
+import { DiscoQueryBuilder } from './queries';
+import { generateCapsHash } from './caps';
+import {
+    DiscoConfig,
+    DiscoIdentity,
+    DiscoInfo,
+    DiscoItem,
+} from '../../types/disco';
+import { IQError } from '../../types/connection';
+import {
+    DiscoNamespaces,
+    EntityNamespaces,
+    MessageNamespaces,
+    MUCNamespaces,
+} from '../../constants/namespaces';
+
+/**
+ * Default values for service discovery
+ */
+const DEFAULTS = {
+    CACHE_TTL: 5 * 60 * 1000,
+    IDENTITY: { category: 'client', type: 'web', name: 'next-ejabberd' },
+    CAPS_NODE: 'https://github.com/BemwaMalak/next-ejabberd',
+} as const;
+
+/**
+ * Features the client supports out of the box
+ */
+const LOCAL_FEATURES = [
+    DiscoNamespaces.INFO,
+    EntityNamespaces.PING,
+    EntityNamespaces.VERSION,
+    EntityNamespaces.TIME,
+    MUCNamespaces.MUC,
+    MessageNamespaces.RECEIPT,
+    MessageNamespaces.CHAT_MARKERS,
+    MessageNamespaces.CHAT_STATES,
+    MessageNamespaces.REPLACE,
+    MessageNamespaces.RETRACT,
+    MessageNamespaces.REACTIONS,
+    MessageNamespaces.REPLY,
+];
+
+/**
+ * A cached (or pending) discovery result
+ */
+interface CacheEntry<T> {
+    result: Promise<T>;
+    expires: number;
+}
+
+/**
+ * Cached results per entity, keyed by node ('' for the entity itself)
+ */
+type DiscoCache<T> = Map<string, Map<string, CacheEntry<T>>>;
+
+/**
+ * Discovers the features and services of the server and other entities
+ * Results are cached for a while and concurrent queries for the same entity are shared
+ * Implements XEP-0030: Service Discovery
+ */
+export class DiscoManager {
+    private infoCache: DiscoCache<DiscoInfo> = new Map();
+    private itemsCache: DiscoCache<DiscoItem[]> = new Map();
+    private cacheTtl: number;
+    private identity: DiscoIdentity;
+    private capsNode: string;
+    private features: Set<string> = new Set(LOCAL_FEATURES);
+    private queryBuilder: DiscoQueryBuilder;
+    private handler: DiscoHandler;
+
+    constructor(
+        private connection: ConnectionManager,
+        config: DiscoConfig = {},
+    ) {
+        this.cacheTtl = config.cacheTtl ?? DEFAULTS.CACHE_TTL;
+        this.identity = config.identity || DEFAULTS.IDENTITY;
+        this.capsNode = config.capsNode || DEFAULTS.CAPS_NODE;
+        this.queryBuilder = new DiscoQueryBuilder();
+        this.handler = new DiscoHandler();
+
+        this.connection.registerIQHandler(DiscoNamespaces.INFO, 'get', (iq) =>
+            this.answerInfoRequest(iq),
+        );
+    }
+
+    /**
+     * Get the node identifying the client in entity capabilities (XEP-0115)
+     */
+    public getCapsNode(): string {
+        return this.capsNode;
+    }
+
+    /**
+     * Advertise a feature of the client to other entities
+     * @param feature - Feature namespace
+     */
+    public addFeature(feature: string): void {
+        this.features.add(feature);
+    }
+
+    /**
+     * Stop advertising a feature of the client
+     * @param feature - Feature namespace
+     */
+    public removeFeature(feature: string): void {
+        this.features.delete(feature);
+    }
+
+    /**
+     * Get the identity and features the client advertises
+     */
+    public getLocalInfo(): DiscoInfo {
+        return {
+            jid: this.connection.getClient()?.jid?.toString() || '',
+            identities: [{ ...this.identity }],
+            features: [...this.features].sort(),
+            extensions: [],
+        };
+    }
+
+    /**
+     * Get the identities and features of an entity
+     * @param jid - Entity to query, the user's server by default
+     * @param node - Optional node of the entity
+     */
+    public async getInfo(jid?: string, node?: string): Promise<DiscoInfo> {
+        const target = jid || this.getServerJid();
+        return this.cached(this.infoCache, target, node, async () => {
+            const response = await this.connection.sendIQ(
+                this.queryBuilder.createInfoRequest(target, node),
+            );
+            return this.handler.parseInfo(response, target, node);
+        });
+    }
+
+    /**
+     * Get the items (usually services) associated with an entity
+     * @param jid - Entity to query, the user's server by default
+     * @param node - Optional node of the entity
+     */
+    public async getItems(jid?: string, node?: string): Promise<DiscoItem[]> {
+        const target = jid || this.getServerJid();
+        return this.cached(this.itemsCache, target, node, async () => {
+            const response = await this.connection.sendIQ(
+                this.queryBuilder.createItemsRequest(target, node),
+            );
+            return this.handler.parseItems(response);
+        });
+    }
+
+    /**
+     * Find the first service of the user's server offering a feature
+     * The server itself is checked before its items
+     * @param feature - Feature namespace, e.g. urn:xmpp:http:upload:0
+     * @returns The service's disco#info, or null if no service offers the feature
+     */
+    public async findServiceByFeature(
+        feature: string,
+    ): Promise<DiscoInfo | null> {
+        const server = await this.getInfo();
+        if (server.features.includes(feature)) return server;
+
+        const items = await this.getItems();
+        for (const item of items) {
+            try {
+                const info = await this.getInfo(item.jid);
+                if (info.features.includes(feature)) return info;
+            } catch {
+                // Items that do not answer are skipped
+            }
+        }
+        return null;
+    }
+
+    /**
+     * Check if an entity advertises a feature
+     * @param feature - Feature namespace
+     * @param jid - Entity to check, the user's server by default
+     */
+    public async hasFeature(feature: string, jid?: string): Promise<boolean> {
+        const info = await this.getInfo(jid);
+        return info.features.includes(feature);
+    }
+
+    /**
+     * Get the features advertised by the user's server
+     */
+    public async getServerFeatures(): Promise<string[]> {
+        const info = await this.getInfo();
+        return [...info.features];
+    }
+
+    /**
+     * Forget cached results, e.g. when a new session starts
+     * @param jid - Only forget the results of this entity
+     */
+    public clearCache(jid?: string): void {
+        [this.infoCache, this.itemsCache].forEach(
+            (cache: DiscoCache<unknown>) => {
+                if (jid) {
+                    cache.delete(jid);
+                } else {
+                    cache.clear();
+                }
+            },
+        );
+    }
+
+    /**
+     * Answer a disco#info request sent to the client
+     * The only node is the one of the current capabilities hash
+     */
+    private async answerInfoRequest(iq: Element): Promise<Element> {
+        const node = iq.getChild('query', DiscoNamespaces.INFO)?.attrs.node;
+        const info = this.getLocalInfo();
+        if (
+            node &&
+            node !== `${this.capsNode}#${await generateCapsHash(info)}`
+        ) {
+            throw new IQError('item-not-found');
+        }
+
+        const query = new Element('query', {
+            xmlns: DiscoNamespaces.INFO,
+            ...(node && { node }),
+        });
+        info.identities.forEach((identity) => {
+            query.append(
+                new Element('identity', {
+                    category: identity.category,
+                    type: identity.type,
+                    ...(identity.name && { name: identity.name }),
+                    ...(identity.lang && { 'xml:lang': identity.lang }),
+                }),
+            );
+        });
+        info.features.forEach((feature) => {
+            query.append(new Element('feature', { var: feature }));
+        });
+        return query;
+    }
+
+    private getServerJid(): string {
+        return this.connection.getConfig().domain;
+    }
+
+    private cached<T>(
+        cache: DiscoCache<T>,
+        jid: string,
+        node: string | undefined,
+        query: () => Promise<T>,
+    ): Promise<T> {
+        const nodes = cache.get(jid) || new Map<string, CacheEntry<T>>();
+        const key = node || '';
+        const entry = nodes.get(key);
+        if (entry && entry.expires > Date.now()) {
+            return entry.result;
+        }
+
+        const result = query();
+        nodes.set(key, { result, expires: Date.now() + this.cacheTtl });
+        cache.set(jid, nodes);
+        // Failed queries are not cached
+        result.catch(() => {
+            if (nodes.get(key)?.result === result) {
+                nodes.delete(key);
+            }
+        });
+        return result;
+    }
+}
@@ -0,0 +1,87 @@
+import { Element } from '@xmpp/xml';
+import { DiscoNamespaces, MAMNamespaces } from '../../constants/namespaces';
+import {
+    DiscoExtension,
+    DiscoIdentity,
+    DiscoInfo,
+    DiscoItem,
+} from '../../types/disco';
+
+/**
+ * Handles parsing of service discovery results
+ * Implements XEP-0030: Service Discovery and XEP-0128: Service Discovery Extensions
+ */
+export class DiscoHandler {
+    /**
+     * Parse a disco#info result
+     * @param stanza - The IQ result
+     * @param jid - The queried entity
+     * @param node - The queried node
+     */
+    public parseInfo(stanza: Element, jid: string, node?: string): DiscoInfo {
+        const query = stanza.getChild('query', DiscoNamespaces.INFO);
+
+        return {
+            jid,
+            ...(node && { node }),
+            identities: (query?.getChildren('identity') || []).map((identity) =>
+                this.parseIdentity(identity),
+            ),
+            features: (query?.getChildren('feature') || [])
+                .map((feature) => feature.attrs.var)
+                .filter(Boolean),
+            extensions: (query?.getChildren('x', MAMNamespaces.DATAFORM) || [])
+                .map((form) => this.parseExtension(form))
+                .filter(
+                    (extension): extension is DiscoExtension =>
+                        extension !== null,
+                ),
+        };
+    }
+
+    /**
+     * Parse a disco#items result
+     * @param stanza - The IQ result
+     */
+    public parseItems(stanza: Element): DiscoItem[] {
+        const query = stanza.getChild('query', DiscoNamespaces.ITEMS);
+
+        return (query?.getChildren('item') || [])
+            .filter((item) => item.attrs.jid)
+            .map((item) => ({
+                jid: item.attrs.jid,
+                ...(item.attrs.node && { node: item.attrs.node }),
+                ...(item.attrs.name && { name: item.attrs.name }),
+            }));
+    }
+
+    private parseIdentity(element: Element): DiscoIdentity {
+        return {
+            category: element.attrs.category,
+            type: element.attrs.type,
+            ...(element.attrs.name && { name: element.attrs.name }),
+            ...(element.attrs['xml:lang'] && {
+                lang: element.attrs['xml:lang'],
+            }),
+        };
+    }
+
+    /**
+     * Parse an extension form; forms without FORM_TYPE are ignored
+     */
+    private parseExtension(form: Element): DiscoExtension | null {
+        const fields: Record<string, string[]> = {};
+        form.getChildren('field').forEach((field) => {
+            if (!field.attrs.var) return;
+            fields[field.attrs.var] = field
+                .getChildren('value')
+                .map((value) => value.getText());
+        });
+
+        const formType = fields.FORM_TYPE?.[0];
+        if (!formType) return null;
+
+        delete fields.FORM_TYPE;
+        return { formType, fields };
+    }
+}
@@ -0,0 +1,34 @@
+import { Element } from '@xmpp/xml';
+import { DiscoNamespaces } from '../../constants/namespaces';
+
+/**
+ * Builds XMPP queries for service discovery
+ * Implements XEP-0030: Service Discovery
+ */
+export class DiscoQueryBuilder {
+    /**
+     * Creates a disco#info request
+     * @param jid - Entity to query
+     * @param node - Optional node of the entity
+     * @returns IQ Element
+     */
+    public createInfoRequest(jid: string, node?: string): Element {
+        return this.createRequest(DiscoNamespaces.INFO, jid, node);
+    }
+
+    /**
+     * Creates a disco#items request
+     * @param jid - Entity to query
+     * @param node - Optional node of the entity
+     * @returns IQ Element
+     */
+    public createItemsRequest(jid: string, node?: string): Element {
+        return this.createRequest(DiscoNamespaces.ITEMS, jid, node);
+    }
+
+    private createRequest(xmlns: string, jid: string, node?: string): Element {
+        const iq = new Element('iq', { type: 'get', to: jid });
+        iq.append(new Element('query', { xmlns, ...(node && { node }) }));
+        return iq;
+    }
+}
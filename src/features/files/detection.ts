@@ -0,0 +1,175 @@
+import { ContentTypeLookup, SupportedMimeType } from '../../types/files';
+import { lookupMimeType } from './policy';
+
+/**
+ * Default values for content type detection
+ */
+const DEFAULTS = {
+    CONTENT_TYPE: 'application/octet-stream',
+    HEADER_LENGTH: 512,
+} as const;
+
+/**
+ * Magic bytes of a file format and the content types sharing them
+ * Office documents share the zip or OLE2 container, so the signature only narrows down the family
+ */
+interface Signature {
+    // null matches any byte
+    bytes: (number | null)[];
+    types: SupportedMimeType[];
+}
+
+const ascii = (text: string): number[] =>
+    [...text].map((char) => char.charCodeAt(0));
+
+const SIGNATURES: Signature[] = [
+    { bytes: [0xff, 0xd8, 0xff], types: ['image/jpeg'] },
+    {
+        bytes: [0x89, ...ascii('PNG'), 0x0d, 0x0a, 0x1a, 0x0a],
+        types: ['image/png'],
+    },
+    { bytes: ascii('GIF87a'), types: ['image/gif'] },
+    { bytes: ascii('GIF89a'), types: ['image/gif'] },
+    {
+        bytes: [...ascii('RIFF'), null, null, null, null, ...ascii('WEBP')],
+        types: ['image/webp'],
+    },
+    { bytes: ascii('%PDF-'), types: ['application/pdf'] },
+    {
+        bytes: [0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1],
+        types: ['application/msword', 'application/vnd.ms-excel'],
+    },
+    {
+        bytes: [...ascii('PK'), 0x03, 0x04],
+        types: [
+            'application/zip',
+            'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+            'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+        ],
+    },
+    // Empty zip archive
+    { bytes: [...ascii('PK'), 0x05, 0x06], types: ['application/zip'] },
+    {
+        bytes: [...ascii('Rar!'), 0x1a, 0x07],
+        types: ['application/x-rar-compressed'],
+    },
+    {
+        bytes: [...ascii('7z'), 0xbc, 0xaf, 0x27, 0x1c],
+        types: ['application/x-7z-compressed'],
+    },
+];
+
+/**
+ * Text formats have no magic bytes and are recognised by the absence of binary data
+ */
+const TEXT_TYPES: SupportedMimeType[] = ['text/plain', 'text/markdown'];
+
+/**
+ * Every content type that can be verified against the content
+ */
+const VERIFIABLE_TYPES: string[] = [
+    ...SIGNATURES.flatMap((signature) => signature.types),
+    ...TEXT_TYPES,
+];
+
+/**
+ * Outcome of content type detection
+ */
+export interface ContentTypeDetection {
+    // Content type to upload the file with
+    type: string;
+    // Content types the magic bytes allow, null if the content was not recognised
+    detected: SupportedMimeType[] | null;
+    // Set when the declared type or the extension contradicts the content
+    mismatch: string | null;
+}
+
+/**
+ * Number of bytes detectContentType needs from the start of a file
+ */
+export const CONTENT_HEADER_LENGTH = DEFAULTS.HEADER_LENGTH;
+
+function matches(header: Uint8Array, signature: Signature): boolean {
+    if (header.length < signature.bytes.length) return false;
+
+    return signature.bytes.every(
+        (byte, index) => byte === null || header[index] === byte,
+    );
+}
+
+function isText(header: Uint8Array): boolean {
+    // Control characters other than tab, line breaks, form feed and escape only appear in binary data
+    return header.every(
+        (byte) =>
+            byte >= 0x20 ||
+            byte === 0x09 ||
+            byte === 0x0a ||
+            byte === 0x0c ||
+            byte === 0x0d ||
+            byte === 0x1b,
+    );
+}
+
+/**
+ * Find the content types the first bytes of a file belong to
+ * @param header - First bytes of the file
+ * @returns The matching types, or null if the content was not recognised
+ */
+export function sniffContentType(
+    header: Uint8Array,
+): SupportedMimeType[] | null {
+    const signature = SIGNATURES.find((s) => matches(header, s));
+    if (signature) return signature.types;
+    return isText(header) ? TEXT_TYPES : null;
+}
+
+/**
+ * Detect the content type of a file from its magic bytes, its declared type and its name
+ * The declared type wins over the type of the extension, the detected type is used when neither
+ * agrees with the content. A declared type or extension the content contradicts is a mismatch;
+ * types without known magic bytes cannot be contradicted
+ * @param header - First bytes of the file, CONTENT_HEADER_LENGTH at most
+ * @param name - File name, used for the extension lookup
+ * @param declared - Content type given by the browser or the caller
+ * @param lookup - Finds the content type of the extension
+ */
+export function detectContentType(
+    header: Uint8Array,
+    name: string,
+    declared?: string,
+    lookup: ContentTypeLookup = lookupMimeType,
+): ContentTypeDetection {
+    const byExtension = lookup(name);
+    // The generic type says nothing about the content
+    const claimed = [declared, byExtension].filter(
+        (type): type is string => !!type && type !== DEFAULTS.CONTENT_TYPE,
+    );
+
+    // Nothing to verify in an empty file
+    if (!header.length) {
+        return {
+            type: claimed[0] || DEFAULTS.CONTENT_TYPE,
+            detected: null,
+            mismatch: null,
+        };
+    }
+
+    const detected = sniffContentType(header);
+    const allowed: string[] = detected || [];
+    const mismatch = claimed.find(
+        (type) => VERIFIABLE_TYPES.includes(type) && !allowed.includes(type),
+    );
+
+    return {
+        type:
+            claimed.find(
+                (type) =>
+                    allowed.includes(type) || !VERIFIABLE_TYPES.includes(type),
+            ) ||
+            allowed[0] ||
+            claimed[0] ||
+            DEFAULTS.CONTENT_TYPE,
+        detected,
+        mismatch: mismatch || null,
+    };
+}
@@ -1,5 +1,10 @@
 import { Element } from '@xmpp/xml';
-import { FileUploadSlot, FileUploadError } from '../../types/files';
+import {
+    FileUploadSlot,
+    FileUploadError,
+    UploadService,
+} from '../../types/files';
+import { DiscoInfo } from '../../types/disco';
 import { FileNamespaces } from '../../constants/namespaces';
 
 /**
@@ -111,4 +116,25 @@ export class FileHandler {
             return false;
         }
     }
+
+    /**
+     * Read the upload service and its limits from its disco#info
+     * The maximum file size comes from the service's extended form (XEP-0128)
+     * @param info - Service discovery information of the upload service
+     * @returns The service, without maxFileSize when none is advertised
+     */
+    public parseUploadService(info: DiscoInfo): UploadService {
+        const form = info.extensions.find(
+            (extension) => extension.formType === FileNamespaces.HTTP_UPLOAD,
+        );
+        const maxFileSize = parseInt(
+            form?.fields['max-file-size']?.[0] ?? '',
+            10,
+        );
+
+        return {
+            jid: info.jid,
+            ...(maxFileSize > 0 && { maxFileSize }),
+        };
+    }
 }
@@ -0,0 +1,149 @@
+import mime from 'mime-types';
+import {
+    ContentTypeLookup,
+    MimePolicy,
+    SUPPORTED_MIME_TYPES,
+} from '../../types/files';
+
+/**
+ * Look up the content type of a file name with the built-in mappings
+ */
+export const lookupMimeType: ContentTypeLookup = (name) =>
+    mime.lookup(name) || undefined;
+
+/**
+ * Specificity of a pattern: exact types beat type/* which beats *
+ */
+function specificity(pattern: string): number {
+    if (pattern === '*' || pattern === '*/*') return 0;
+    return pattern.endsWith('/*') ? 1 : 2;
+}
+
+function normalize(type: string): string {
+    return type.split(';')[0].trim().toLowerCase();
+}
+
+function normalizeExtension(extension: string): string {
+    const lower = extension.trim().toLowerCase();
+    return lower.startsWith('.') ? lower : `.${lower}`;
+}
+
+/**
+ * Check if a content type matches a pattern
+ * @param type - Normalized content type
+ * @param pattern - Exact type, type/* or *
+ */
+export function matchesMimePattern(type: string, pattern: string): boolean {
+    const normalized = normalize(pattern);
+    if (specificity(normalized) === 0) return true;
+    if (normalized.endsWith('/*')) {
+        return type.startsWith(normalized.slice(0, -1));
+    }
+    return type === normalized;
+}
+
+/**
+ * Decides which content types and sizes may be uploaded
+ * Shared by the attachment validation and the upload slot request
+ */
+export class MimeTypePolicy {
+    private allow: string[];
+    private deny: string[];
+    private maxSizes: [string, number][];
+    private extensions: Map<string, string[]> = new Map();
+
+    /**
+     * @param policy - Allowed and denied patterns, size limits and extensions
+     * @param allowedMimeTypes - Allow list used when the policy has none
+     */
+    constructor(policy: MimePolicy = {}, allowedMimeTypes?: string[]) {
+        this.allow = (
+            policy.allow ||
+            allowedMimeTypes ||
+            Object.keys(SUPPORTED_MIME_TYPES)
+        ).map(normalize);
+        this.deny = (policy.deny || []).map(normalize);
+        this.maxSizes = Object.entries(policy.maxSizes || {})
+            .map(([pattern, size]): [string, number] => [
+                normalize(pattern),
+                size,
+            ])
+            .sort(([a], [b]) => specificity(b) - specificity(a));
+
+        Object.entries(policy.extensions || {}).forEach(
+            ([type, extensions]) => {
+                this.extensions.set(
+                    normalize(type),
+                    extensions.map(normalizeExtension),
+                );
+            },
+        );
+    }
+
+    /**
+     * Get the allowed patterns
+     */
+    public getAllowed(): string[] {
+        return [...this.allow];
+    }
+
+    /**
+     * Check if a content type may be uploaded; denied patterns win over allowed ones
+     */
+    public isAllowed(type: string): boolean {
+        const normalized = normalize(type);
+        if (!normalized) return false;
+
+        return (
+            this.allow.some((p) => matchesMimePattern(normalized, p)) &&
+            !this.deny.some((p) => matchesMimePattern(normalized, p))
+        );
+    }
+
+    /**
+     * Get the size limit of a content type from its most specific pattern
+     * @returns The limit in bytes, or null if no pattern limits the type
+     */
+    public getMaxSize(type: string): number | null {
+        const normalized = normalize(type);
+        const limit = this.maxSizes.find(([pattern]) =>
+            matchesMimePattern(normalized, pattern),
+        );
+        return limit ? limit[1] : null;
+    }
+
+    /**
+     * Get the extensions of a content type, custom mappings first
+     */
+    public getExtensions(type: string): string[] {
+        const normalized = normalize(type);
+        const builtIn =
+            normalized in SUPPORTED_MIME_TYPES
+                ? SUPPORTED_MIME_TYPES[
+                      normalized as keyof typeof SUPPORTED_MIME_TYPES
+                  ]
+                : (mime.extensions[normalized] || []).map(normalizeExtension);
+
+        return [
+            ...new Set([
+                ...(this.extensions.get(normalized) || []),
+                ...builtIn,
+            ]),
+        ];
+    }
+
+    /**
+     * Look up the content type of a file name, custom mappings first
+     * @returns The content type, or undefined for unknown extensions
+     */
+    public lookupType: ContentTypeLookup = (name) => {
+        const dot = name.lastIndexOf('.');
+        if (dot >= 0) {
+            const extension = normalizeExtension(name.slice(dot));
+            for (const [type, extensions] of this.extensions) {
+                if (extensions.includes(extension)) return type;
+            }
+        }
+        return lookupMimeType(name);
+    };
+}
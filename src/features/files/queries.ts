@@ -1,11 +1,8 @@
 import { Element } from '@xmpp/xml';
 import { v4 as uuidv4 } from 'uuid';
 import { FileNamespaces } from '../../constants/namespaces';
-import {
-    FileUploadSlotOptions,
-    FileUploadError,
-    SUPPORTED_MIME_TYPES,
-} from '../../types/files';
+import { FileUploadSlotOptions, FileUploadError } from '../../types/files';
+import { MimeTypePolicy } from './policy';
 
 /**
  * Default values for file upload queries
@@ -21,6 +18,7 @@ const ERROR_MESSAGES = {
     INVALID_SIZE: 'File size must be a positive number',
     INVALID_FILENAME: 'Filename must not be empty',
     UNSUPPORTED_TYPE: 'Unsupported content type',
+    TYPE_SIZE_EXCEEDED: 'File size exceeds the limit for its content type',
     INVALID_DOMAIN: 'Domain must not be empty',
 } as const;
 
@@ -29,6 +27,11 @@ const ERROR_MESSAGES = {
  * Implements XEP-0363: HTTP File Upload
  */
 export class FileQueryBuilder {
+    /**
+     * @param policy - Content types and sizes that may be requested
+     */
+    constructor(private policy: MimeTypePolicy = new MimeTypePolicy()) {}
+
     /**
      * Creates a basic Element with attributes
      * @param name - Name of the element
@@ -60,10 +63,14 @@ export class FileQueryBuilder {
             throw new FileUploadError(ERROR_MESSAGES.INVALID_DOMAIN);
         }
 
-        // Optional: Validate content type against supported types
-        if (!Object.keys(SUPPORTED_MIME_TYPES).includes(options.contentType)) {
+        if (!this.policy.isAllowed(options.contentType)) {
             throw new FileUploadError(ERROR_MESSAGES.UNSUPPORTED_TYPE);
         }
+
+        const maxSize = this.policy.getMaxSize(options.contentType);
+        if (maxSize !== null && options.size > maxSize) {
+            throw new FileUploadError(ERROR_MESSAGES.TYPE_SIZE_EXCEEDED);
+        }
     }
 
     /**
@@ -83,13 +90,16 @@ export class FileQueryBuilder {
     /**
      * Creates an IQ stanza for the request
      * @param domain - Target domain
+     * @param service - JID of the upload service, upload.<domain> when not given
      * @returns IQ Element
      */
-    private createIQStanza(domain: string): Element {
+    private createIQStanza(domain: string, service?: string): Element {
         return this.createElement('iq', {
             type: 'get',
             id: uuidv4(),
-            to: `${DEFAULTS.UPLOAD_SUBDOMAIN}.${domain.trim()}`,
+            to:
+                service?.trim() ||
+                `${DEFAULTS.UPLOAD_SUBDOMAIN}.${domain.trim()}`,
         });
     }
 
@@ -102,7 +112,7 @@ export class FileQueryBuilder {
     public createUploadSlotRequest(options: FileUploadSlotOptions): Element {
         this.validateOptions(options);
 
-        const iq = this.createIQStanza(options.domain);
+        const iq = this.createIQStanza(options.domain, options.service);
         const request = this.createRequestElement(options);
 
         iq.append(request);
@@ -0,0 +1,218 @@
+import type { Readable } from 'stream';
+import {
+    ContentTypeLookup,
+    AttachmentInfo,
+    AttachmentSource,
+    PathAttachmentSource,
+    StreamAttachmentSource,
+} from '../../types/files';
+import { lookupMimeType } from './policy';
+
+/**
+ * Default values for attachment sources
+ */
+const DEFAULTS = {
+    CONTENT_TYPE: 'application/octet-stream',
+} as const;
+
+/**
+ * Request body of an upload
+ */
+export type AttachmentBody = Blob | Uint8Array | Readable;
+
+/**
+ * Attachment with a known name, size and content type, ready to be uploaded
+ */
+export class PreparedAttachment implements AttachmentInfo {
+    constructor(
+        public readonly name: string,
+        public readonly size: number,
+        public readonly type: string,
+        private readonly open: () => AttachmentBody,
+        public readonly replayable = true,
+    ) {}
+
+    /**
+     * Create the body of an upload request
+     * Replayable attachments get a fresh body for every attempt
+     */
+    public createBody(): AttachmentBody {
+        return this.open();
+    }
+
+    /**
+     * Read the first bytes of the content without consuming it
+     * @param length - Maximum number of bytes to read
+     */
+    public async readHeader(length: number): Promise<Uint8Array> {
+        const body = this.createBody();
+        if (!isReadable(body)) return readBytes(body, length);
+        if (!this.replayable) return peekStream(body, length);
+
+        try {
+            return await peekStream(body, length);
+        } finally {
+            body.destroy();
+        }
+    }
+
+    /**
+     * Copy the attachment with another content type
+     */
+    public withType(type: string): PreparedAttachment {
+        return new PreparedAttachment(
+            this.name,
+            this.size,
+            type,
+            this.open,
+            this.replayable,
+        );
+    }
+}
+
+/**
+ * Check if a request body is a Node stream
+ */
+export function isReadable(body: AttachmentBody): body is Readable {
+    return typeof (body as Readable).pipe === 'function';
+}
+
+/**
+ * Read the name, size and content type of an attachment without loading its content
+ * @param source - File, in-memory data, Node stream or path on the server
+ * @param lookup - Finds the content type of names when none is declared
+ * @throws {Error} If the size of a stream is missing or a path is not a file
+ */
+export async function prepareAttachment(
+    source: AttachmentSource | PreparedAttachment,
+    lookup: ContentTypeLookup = lookupMimeType,
+): Promise<PreparedAttachment> {
+    if (source instanceof PreparedAttachment) return source;
+
+    const resolveType = (name: string, declared?: string) =>
+        declared || lookup(name) || DEFAULTS.CONTENT_TYPE;
+
+    if (source instanceof Blob) {
+        return new PreparedAttachment(
+            source.name,
+            source.size,
+            resolveType(source.name, source.type),
+            () => source,
+        );
+    }
+
+    if ('path' in source) return preparePath(source, resolveType);
+    if ('stream' in source) return prepareStream(source, resolveType);
+
+    const { data } = source;
+    // isView also recognises byte arrays created in another realm
+    const bytes = ArrayBuffer.isView(data);
+    const size = bytes ? data.byteLength : data.size;
+    const type = resolveType(
+        source.name,
+        source.type || (bytes ? '' : data.type),
+    );
+
+    return new PreparedAttachment(source.name, size, type, () => data);
+}
+
+async function readBytes(
+    data: Blob | Uint8Array,
+    length: number,
+): Promise<Uint8Array> {
+    if (ArrayBuffer.isView(data)) {
+        return new Uint8Array(
+            data.buffer,
+            data.byteOffset,
+            Math.min(data.byteLength, length),
+        );
+    }
+
+    const blob = data.slice(0, length);
+    if (typeof blob.arrayBuffer === 'function') {
+        return new Uint8Array(await blob.arrayBuffer());
+    }
+
+    // Older browsers only read Blobs through FileReader
+    return new Promise((resolve, reject) => {
+        const reader = new FileReader();
+        reader.onload = () =>
+            resolve(new Uint8Array(reader.result as ArrayBuffer));
+        reader.onerror = () => reject(reader.error);
+        reader.readAsArrayBuffer(blob);
+    });
+}
+
+/**
+ * Read the first chunk of a stream and put it back so the upload still sends it
+ */
+function peekStream(stream: Readable, length: number): Promise<Uint8Array> {
+    return new Promise((resolve, reject) => {
+        const cleanup = () => {
+            stream.removeListener('readable', onReadable);
+            stream.removeListener('error', onError);
+        };
+        const onReadable = () => {
+            cleanup();
+            const chunk: Buffer | string | null = stream.read();
+            if (chunk === null) {
+                resolve(new Uint8Array());
+                return;
+            }
+
+            stream.unshift(chunk);
+            resolve(Buffer.from(chunk).subarray(0, length));
+        };
+        const onError = (error: Error) => {
+            cleanup();
+            reject(error);
+        };
+
+        stream.on('readable', onReadable);
+        stream.on('error', onError);
+    });
+}
+
+/**
+ * Content type of a name, unless one is declared
+ */
+type TypeResolver = (name: string, declared?: string) => string;
+
+function prepareStream(
+    source: StreamAttachmentSource,
+    resolveType: TypeResolver,
+): PreparedAttachment {
+    if (!Number.isInteger(source.size) || source.size < 0) {
+        throw new Error('The size of a stream attachment must be given');
+    }
+
+    return new PreparedAttachment(
+        source.name,
+        source.size,
+        resolveType(source.name, source.type),
+        () => source.stream,
+        false,
+    );
+}
+
+async function preparePath(
+    source: PathAttachmentSource,
+    resolveType: TypeResolver,
+): Promise<PreparedAttachment> {
+    // Loaded on demand so browser bundles do not need the Node modules
+    const fs = await import('fs');
+    const path = await import('path');
+
+    const stats = await fs.promises.stat(source.path);
+    if (!stats.isFile()) {
+        throw new Error(`${source.path} is not a file`);
+    }
+
+    const name = source.name || path.basename(source.path);
+    return new PreparedAttachment(
+        name,
+        stats.size,
+        resolveType(name, source.type),
+        () => fs.createReadStream(source.path),
+    );
+}
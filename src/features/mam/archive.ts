@@ -0,0 +1,185 @@
+import { ConnectionManager } from '../../core/connection';
+import { MAMHandler } from './handlers';
+import { MAMQueryBuilder } from './queries';
+import {
+    ArchiveIterateOptions,
+    MAMArchive,
+    MAMFormField,
+    MAMQueryOptions,
+    MAMResult,
+    RSMOptions,
+} from '../../types/mam';
+import { XMPPMessage } from '../../types/messages';
+
+/**
+ * Default values for archive paging
+ */
+const DEFAULTS = {
+    PAGE_SIZE: 50,
+} as const;
+
+function createAbortError(): Error {
+    const error = new Error('Archive iteration aborted');
+    error.name = 'AbortError';
+    return error;
+}
+
+/**
+ * Runs Message Archive Management queries and pages through their results
+ * Implements XEP-0313 (Message Archive Management) with XEP-0059 (Result Set Management)
+ */
+export class ArchiveManager {
+    constructor(
+        private connection: ConnectionManager,
+        private handler: MAMHandler,
+        private queryBuilder: MAMQueryBuilder,
+    ) {}
+
+    /**
+     * Discover the fields supported by an archive's query form
+     * Subsequent queries of that archive are rejected if they use filters it does not advertise
+     * @param options - The archive, the user's own by default
+     * @returns The advertised form fields
+     */
+    public async discoverFields(
+        options: MAMArchive = {},
+    ): Promise<MAMFormField[]> {
+        const request = this.queryBuilder.createFormRequest(options);
+        const response = await this.connection.sendIQ(request);
+        const fields = this.handler.parseFormFields(
+            response,
+            options.namespace,
+        );
+
+        this.queryBuilder.setServerFields(
+            fields.map((field) => field.name),
+            options,
+        );
+        return fields;
+    }
+
+    /**
+     * Run a single archive query
+     * @param options - Query options
+     * @returns Promise that resolves with the result once the query's fin arrives
+     * @throws {Error} If the server returns an IQ error, the query times out or the signal is aborted
+     */
+    public async query(options: MAMQueryOptions): Promise<MAMResult> {
+        this.throwIfAborted(options.signal);
+        const query = this.queryBuilder.createQuery(options);
+        const queryId = query.attrs.id;
+        const request = this.connection.sendIQ(query, options.timeout);
+
+        let result: MAMResult | null;
+        try {
+            const response = await this.raceAbort(request, options.signal);
+            result = this.handler.parseResult(response);
+        } catch (error) {
+            const discard = () => this.handler.discardQuery(queryId);
+            discard();
+            // Results of an aborted query keep arriving until the server answers it
+            request.then(discard, discard);
+            throw error;
+        }
+
+        if (!result) {
+            throw new Error(`Invalid archive response for query ${queryId}`);
+        }
+
+        return result;
+    }
+
+    /**
+     * Iterate over archive pages, following RSM cursors until the archive is exhausted
+     * Messages inside a page are always in chronological order
+     * @param options - Iteration options
+     * @throws {Error} AbortError if the signal is aborted
+     */
+    public async *iteratePages(
+        options: ArchiveIterateOptions = {},
+    ): AsyncGenerator<MAMResult> {
+        const backward = options.direction === 'backward';
+        const rsm: RSMOptions = {
+            max: options.pageSize || DEFAULTS.PAGE_SIZE,
+            ...(backward ? { before: '' } : {}),
+        };
+
+        while (true) {
+            this.throwIfAborted(options.signal);
+
+            const page = await this.query({
+                to: options.to,
+                filters: {
+                    with: options.with,
+                    start: options.start,
+                    end: options.end,
+                },
+                rsm,
+                timeout: options.timeout,
+                signal: options.signal,
+            });
+
+            yield page;
+
+            const cursor = backward ? page.rsm?.first : page.rsm?.last;
+            if (page.complete || !page.messages.length || !cursor) {
+                return;
+            }
+
+            if (backward) {
+                rsm.before = cursor;
+            } else {
+                rsm.after = cursor;
+            }
+        }
+    }
+
+    /**
+     * Iterate over archived messages one by one
+     * Backward iteration yields the newest message first
+     * @param options - Iteration options
+     * @throws {Error} AbortError if the signal is aborted
+     */
+    public async *iterate(
+        options: ArchiveIterateOptions = {},
+    ): AsyncGenerator<XMPPMessage> {
+        for await (const page of this.iteratePages(options)) {
+            const messages =
+                options.direction === 'backward'
+                    ? [...page.messages].reverse()
+                    : page.messages;
+
+            for (const message of messages) {
+                this.throwIfAborted(options.signal);
+                yield message;
+            }
+        }
+    }
+
+    private throwIfAborted(signal?: AbortSignal): void {
+        if (signal?.aborted) throw createAbortError();
+    }
+
+    /**
+     * Settle with a request, rejecting as soon as the signal is aborted
+     */
+    private raceAbort<T>(
+        request: Promise<T>,
+        signal?: AbortSignal,
+    ): Promise<T> {
+        if (!signal) return request;
+
+        return new Promise((resolve, reject) => {
+            if (signal.aborted) {
+                reject(createAbortError());
+                return;
+            }
+
+            const onAbort = () => reject(createAbortError());
+            signal.addEventListener('abort', onAbort, { once: true });
+            request
+                .finally(() => signal.removeEventListener('abort', onAbort))
+                .then(resolve, reject);
+        });
+    }
+}
@@ -1,8 +1,26 @@
 import { Element } from '@xmpp/xml';
-import { ChatMessage, FileMessage, XMPPMessage } from '../../types/messages';
-import { MAMResult } from '../../types/mam';
+import {
+    ChatMessage,
+    FileMessage,
+    GroupChatMessage,
+    XMPPMessage,
+} from '../../types/messages';
+import { MAMFormField, MAMResult } from '../../types/mam';
 import { Client } from '@xmpp/client';
-import { FileNamespaces, MAMNamespaces } from '../../constants/namespaces';
+import {
+    FileNamespaces,
+    MAMNamespaces,
+    MessageNamespaces,
+} from '../../constants/namespaces';
+import { mergeCorrections } from '../messaging/corrections';
+import {
+    mergeRetractions,
+    parseRetraction,
+    parseTombstone,
+} from '../messaging/retractions';
+import { mergeReactions, parseReactions } from '../messaging/reactions';
+import { parseReply } from '../messaging/replies';
+import { JIDUtils } from '../../utils/jid';
 
 export class MAMHandler {
     private messageCollections: Map<string, XMPPMessage[]> = new Map();
@@ -41,7 +59,9 @@ export class MAMHandler {
             const result: MAMResult = {
                 queryId,
                 complete: fin.attrs.complete === 'true',
-                messages,
+                messages: mergeReactions(
+                    mergeRetractions(mergeCorrections(messages)),
+                ),
             };
 
             // Parse RSM information
@@ -64,6 +84,38 @@ export class MAMHandler {
         }
     }
 
+    /**
+     * Parses the fields advertised in a query form response
+     * @param namespace - Namespace the form was requested with
+     */
+    public parseFormFields(
+        stanza: Element,
+        namespace: string = MAMNamespaces.MAM,
+    ): MAMFormField[] {
+        const form = stanza
+            .getChild('query', namespace)
+            ?.getChild('x', MAMNamespaces.DATAFORM);
+        if (!form) return [];
+
+        return form
+            .getChildren('field')
+            .filter(
+                (field) => field.attrs.var && field.attrs.var !== 'FORM_TYPE',
+            )
+            .map((field) => ({
+                name: field.attrs.var,
+                type: field.attrs.type,
+                label: field.attrs.label,
+            }));
+    }
+
+    /**
+     * Discards the messages collected for a query that will not complete
+     */
+    public discardQuery(queryId: string): void {
+        this.messageCollections.delete(queryId);
+    }
+
     /**
      * Parses a forwarded message from MAM results
      */
@@ -81,6 +133,22 @@ export class MAMHandler {
             const delay = forwarded.getChild('delay', 'urn:xmpp:delay');
             const timestamp = delay ? new Date(delay.attrs.stamp) : new Date();
             const stanza_id = message.getChild('stanza-id')?.attrs.id;
+            const replaces = message.getChild(
+                'replace',
+                MessageNamespaces.REPLACE,
+            )?.attrs.id;
+            const retracts = parseRetraction(message);
+            const retracted = parseTombstone(message, message.attrs.id);
+            const reactsTo = parseReactions(message);
+            const markable = !!message.getChild(
+                'markable',
+                MessageNamespaces.CHAT_MARKERS,
+            );
+            // Retractions only carry a fallback text, replies a quote of the original
+            const { replyTo, body } = parseReply(
+                message,
+                retracts ? '' : message.getChildText('body') || '',
+            );
 
             const baseMessage = {
                 id: message.attrs.id,
@@ -88,11 +156,14 @@ export class MAMHandler {
                 from: message.attrs.from,
                 to: message.attrs.to,
                 time: timestamp,
+                ...(replaces && { replaces }),
+                ...(retracts && { retracts }),
+                ...(retracted && { retracted }),
+                ...(reactsTo && { reactsTo }),
+                ...(replyTo && { replyTo }),
+                ...(markable && { markable }),
             };
 
-            // Handle different message types
-            const body = message.getChildText('body') || '';
-
             // Check for file message
             const x = message.getChild('x', FileNamespaces.HTTP_UPLOAD);
             const fileElement = x?.getChild('file');
@@ -115,6 +186,18 @@ export class MAMHandler {
                 return fileMessage;
             }
 
+            // Room archives return groupchat messages (from is room@service/nickname)
+            if (message.attrs.type === 'groupchat') {
+                const groupChatMessage: GroupChatMessage = {
+                    ...baseMessage,
+                    type: 'groupchat',
+                    body,
+                    roomJid: JIDUtils.getBare(message.attrs.from),
+                    nickname: JIDUtils.getNickname(message.attrs.from) || '',
+                };
+                return groupChatMessage;
+            }
+
             // Default to regular chat message
             const chatMessage: ChatMessage = {
                 ...baseMessage,
@@ -3,12 +3,60 @@ import { v4 as uuidv4 } from 'uuid';
 import {
     FormField,
     RSMOptions,
+    MAMArchive,
     MAMFilterOptions,
     MAMQueryOptions,
+    MAMQueryError,
 } from '../../types/mam';
 import { FileNamespaces, MAMNamespaces } from '../../constants/namespaces';
 
+/**
+ * Form field names used for the optional filters, in order of preference
+ * The first one advertised by the server is used; without a discovered form the first is assumed,
+ * except for filters that are only sent once the form advertised them
+ */
+const FILTER_FIELDS = {
+    FULL_TEXT: ['withtext', `{${MAMNamespaces.FULLTEXT}}fulltext`],
+    HAS_FILE: [`{${FileNamespaces.HTTP_UPLOAD}}has-file`],
+    MESSAGE_TYPES: [`{${MAMNamespaces.MAM}}message-type`],
+} as const;
+
+/**
+ * Filters without a standard field, only sent once the server's form advertised them
+ */
+const DISCOVERED_FILTERS: readonly string[] = ['hasFile', 'messageTypes'];
+
 export class MAMQueryBuilder {
+    private serverFields: Map<string, Set<string>> = new Map();
+
+    /**
+     * Restricts queries of an archive to the fields advertised by its query form
+     * @param fields - Advertised field names, or null to accept any field
+     * @param archive - The archive the form belongs to, the user's own by default
+     */
+    public setServerFields(
+        fields: string[] | null,
+        archive: MAMArchive = {},
+    ): void {
+        const key = this.getArchiveKey(archive);
+        if (fields) {
+            this.serverFields.set(key, new Set(fields));
+        } else {
+            this.serverFields.delete(key);
+        }
+    }
+
+    /**
+     * Archives with the same JID, node and namespace share their query form
+     */
+    private getArchiveKey(archive: MAMArchive): string {
+        return [
+            archive.to || '',
+            archive.node || '',
+            archive.namespace || MAMNamespaces.MAM,
+        ].join(' ');
+    }
+
     /**
      * Creates a basic Element with attributes
      */
@@ -37,9 +85,14 @@ export class MAMQueryBuilder {
             ...(field.type ? { type: field.type } : {}),
         });
 
-        const valueElement = this.createElement('value');
-        valueElement.children.push(field.value.toString());
-        fieldElement.children.push(valueElement);
+        const values = Array.isArray(field.value)
+            ? field.value
+            : [field.value.toString()];
+        values.forEach((value) => {
+            const valueElement = this.createElement('value');
+            valueElement.children.push(value);
+            fieldElement.children.push(valueElement);
+        });
 
         return fieldElement;
     }
@@ -104,10 +157,99 @@ export class MAMQueryBuilder {
         return set;
     }
 
+    /**
+     * Resolves the field name to use for an optional filter
+     * @throws {MAMQueryError} If the server advertises none of the candidates,
+     * or the filter needs a discovered form that is not known yet
+     */
+    private resolveFieldName(
+        filter: string,
+        candidates: readonly string[],
+        serverFields?: Set<string>,
+    ): string {
+        if (!serverFields) {
+            if (DISCOVERED_FILTERS.includes(filter)) {
+                throw new MAMQueryError(
+                    `The ${filter} filter requires the server's query form, discover the archive fields first`,
+                    filter,
+                );
+            }
+            return candidates[0];
+        }
+
+        const name = candidates.find((candidate) =>
+            serverFields.has(candidate),
+        );
+        if (!name) {
+            throw new MAMQueryError(
+                `Server does not support the ${filter} filter`,
+                filter,
+            );
+        }
+        return name;
+    }
+
+    /**
+     * Ensures every field is advertised by the server, if its form is known
+     * @throws {MAMQueryError} If a field is not supported
+     */
+    private validateFields(
+        fields: FormField[],
+        serverFields?: Set<string>,
+    ): void {
+        if (!serverFields) return;
+
+        for (const field of fields) {
+            if (!serverFields.has(field.name)) {
+                throw new MAMQueryError(
+                    `Server does not support the ${field.name} filter`,
+                    field.name,
+                );
+            }
+        }
+    }
+
+    /**
+     * Merges the top-level query shorthands into the filters
+     */
+    private mergeFilters(options: MAMQueryOptions): MAMFilterOptions {
+        const filters: MAMFilterOptions = {
+            with: options.with,
+            start: options.start,
+            end: options.end,
+            ...options.filters,
+        };
+        return this.withoutUndefined(filters);
+    }
+
+    /**
+     * Merges the top-level paging shorthands into the RSM options
+     */
+    private mergeRSM(options: MAMQueryOptions): RSMOptions {
+        const rsm: RSMOptions = {
+            max: options.limit,
+            before: options.before,
+            after: options.after,
+            ...options.rsm,
+        };
+        return this.withoutUndefined(rsm);
+    }
+
+    private withoutUndefined<T extends object>(value: T): T {
+        return Object.fromEntries(
+            Object.entries(value).filter(([, v]) => v !== undefined),
+        ) as T;
+    }
+
     /**
      * Creates filter fields from MAMFilterOptions
+     * @param archive - The queried archive, whose form decides the optional field names
      */
-    private createFilterFields(filters: MAMFilterOptions): FormField[] {
+    private createFilterFields(
+        filters: MAMFilterOptions,
+        archive: MAMArchive = {},
+    ): FormField[] {
+        const serverFields = this.serverFields.get(this.getArchiveKey(archive));
         const fields: FormField[] = [];
 
         if (filters.with) {
@@ -122,6 +264,47 @@ export class MAMQueryBuilder {
             fields.push({ name: 'end', value: filters.end.toISOString() });
         }
 
+        if (filters.fullText) {
+            fields.push({
+                name: this.resolveFieldName(
+                    'fullText',
+                    FILTER_FIELDS.FULL_TEXT,
+                    serverFields,
+                ),
+                value: filters.fullText,
+            });
+        }
+
+        if (filters.hasFile !== undefined) {
+            fields.push({
+                name: this.resolveFieldName(
+                    'hasFile',
+                    FILTER_FIELDS.HAS_FILE,
+                    serverFields,
+                ),
+                value: filters.hasFile,
+                type: 'boolean',
+            });
+        }
+
+        if (filters.messageTypes?.length) {
+            fields.push({
+                name: this.resolveFieldName(
+                    'messageTypes',
+                    FILTER_FIELDS.MESSAGE_TYPES,
+                    serverFields,
+                ),
+                value: filters.messageTypes,
+                type: 'list-multi',
+            });
+        }
+
+        if (filters.fields) {
+            Object.entries(filters.fields).forEach(([name, value]) => {
+                fields.push({ name, value });
+            });
+        }
+
         return fields;
     }
 
@@ -135,6 +318,7 @@ export class MAMQueryBuilder {
         const iq = this.createElement('iq', {
             type: 'set',
             id: queryId,
+            ...(options.to ? { to: options.to } : {}),
         });
 
         // Create query element
@@ -145,19 +329,44 @@ export class MAMQueryBuilder {
         });
 
         // Add data form if there are filters
-        if (options.filters && Object.keys(options.filters).length > 0) {
-            const fields = this.createFilterFields(options.filters);
+        const filters = this.mergeFilters(options);
+        if (Object.keys(filters).length > 0) {
+            const fields = this.createFilterFields(filters, options);
+            this.validateFields(
+                fields,
+                this.serverFields.get(this.getArchiveKey(options)),
+            );
             const x = this.createDataForm(fields);
             query.children.push(x);
         }
 
         // Add RSM if specified
-        if (options.rsm) {
-            const set = this.createRSM(options.rsm);
+        const rsm = this.mergeRSM(options);
+        if (Object.keys(rsm).length > 0) {
+            const set = this.createRSM(rsm);
             query.children.push(set);
         }
 
         iq.children.push(query);
         return iq;
     }
+
+    /**
+     * Creates a request for the server's query form (the fields it supports)
+     */
+    public createFormRequest(options: MAMArchive = {}): Element {
+        const iq = this.createElement('iq', {
+            type: 'get',
+            id: uuidv4(),
+            ...(options.to ? { to: options.to } : {}),
+        });
+
+        const query = this.createElement('query', {
+            xmlns: options.namespace || MAMNamespaces.MAM,
+            ...(options.node ? { node: options.node } : {}),
+        });
+
+        iq.children.push(query);
+        return iq;
+    }
 }
@@ -1,14 +1,42 @@
-import axios from 'axios';
+import axios, { AxiosRequestConfig } from 'axios';
+import { EventEmitter } from 'events';
+import { v4 as uuidv4 } from 'uuid';
 import {
-    SUPPORTED_MIME_TYPES,
-    SupportedMimeType,
     UploadConfig,
+    UploadOptions,
+    UploadService,
+    AttachmentInfo,
+    AttachmentSource,
+    FileErrorCode,
     FileUploadSlot,
+    UploadComplete,
 } from '../../types/files';
 import { FileQueryBuilder } from '../files/queries';
 import { FileHandler } from '../files/handlers';
+import { MimeTypePolicy } from '../files/policy';
+import { CONTENT_HEADER_LENGTH, detectContentType } from '../files/detection';
+import {
+    PreparedAttachment,
+    isReadable,
+    prepareAttachment,
+} from '../files/sources';
 import { ConnectionManager } from '../../core/connection';
-import mime from 'mime-types';
+import { DiscoManager } from '../disco/disco';
+import { FileNamespaces } from '../../constants/namespaces';
+
+/**
+ * Default values for attachments
+ */
+const DEFAULTS = {
+    MAX_FILE_SIZE: 10 * 1024 * 1024,
+    RETRIES: 2,
+    RETRY_DELAY: 1000,
+} as const;
+
+/**
+ * HTTP statuses worth retrying with a new slot
+ */
+const TRANSIENT_STATUSES = [408, 425, 429, 500, 502, 503, 504];
 
 /**
  * Error types for file handling
@@ -16,40 +44,134 @@ import mime from 'mime-types';
 export class FileError extends Error {
     constructor(
         message: string,
-        public readonly code:
-            | 'SIZE_EXCEEDED'
-            | 'INVALID_TYPE'
-            | 'UPLOAD_FAILED'
-            | 'DOWNLOAD_FAILED',
+        public readonly code: FileErrorCode,
+        public readonly transient = false,
     ) {
         super(message);
         this.name = 'FileError';
     }
 }
 
-export class AttachmentManager {
+/**
+ * Transfer settings of a single PUT request
+ */
+interface Transfer {
+    signal?: AbortSignal;
+    onProgress?: (loaded: number, total?: number) => void;
+}
+
+/**
+ * Check if a failed PUT may succeed when tried again
+ * Network errors without a response and server-side failures are transient
+ */
+function isTransientError(error: unknown): boolean {
+    const { isAxiosError, response } = error as {
+        isAxiosError?: boolean;
+        response?: { status: number };
+    };
+    if (!isAxiosError) return false;
+    if (!response) return true;
+    return TRANSIENT_STATUSES.includes(response.status);
+}
+
+function createCancelledError(): FileError {
+    return new FileError('File upload was cancelled', 'UPLOAD_CANCELLED');
+}
+
+/**
+ * Uploads attachments through the server's HTTP upload service
+ * The service and its size limit are discovered, explicit config values take precedence
+ * Implements XEP-0363: HTTP File Upload
+ */
+export class AttachmentManager extends EventEmitter {
     private config: UploadConfig;
+    private policy: MimeTypePolicy;
     private queryBuilder: FileQueryBuilder;
     private fileHandler: FileHandler;
     private connection: ConnectionManager;
+    private discovery: Promise<UploadService | null> | null = null;
 
-    constructor(config: UploadConfig, connection: ConnectionManager) {
-        this.config = {
-            maxFileSize: 10 * 1024 * 1024, // 10MB default
-            allowedMimeTypes: Object.keys(
-                SUPPORTED_MIME_TYPES,
-            ) as SupportedMimeType[],
-            ...config,
-        };
-        this.queryBuilder = new FileQueryBuilder();
+    constructor(
+        private explicitConfig: UploadConfig,
+        connection: ConnectionManager,
+        private disco?: DiscoManager,
+    ) {
+        super();
+        this.policy = new MimeTypePolicy(
+            explicitConfig.policy,
+            explicitConfig.allowedMimeTypes,
+        );
+        this.config = this.mergeConfig();
+        this.queryBuilder = new FileQueryBuilder(this.policy);
         this.fileHandler = new FileHandler();
         this.connection = connection;
     }
 
+    /**
+     * Get the upload settings in effect
+     */
+    public getConfig(): UploadConfig {
+        return { ...this.config };
+    }
+
+    /**
+     * Locate the HTTP upload service and read its limits
+     * Runs once per session; a failed discovery is tried again on the next call
+     * @returns The discovered service, or null if the server offers none
+     */
+    public discover(): Promise<UploadService | null> {
+        if (!this.disco) return Promise.resolve(null);
+
+        if (!this.discovery) {
+            const discovery: Promise<UploadService | null> =
+                this.findService().then(
+                    (service) => {
+                        // A reset during discovery belongs to a new session
+                        if (this.discovery === discovery) {
+                            this.config = this.mergeConfig(service);
+                        }
+                        return service;
+                    },
+                    (error) => {
+                        if (this.discovery === discovery) {
+                            this.discovery = null;
+                        }
+                        throw error;
+                    },
+                );
+            this.discovery = discovery;
+        }
+        return this.discovery;
+    }
+
+    /**
+     * Forget the discovered service, it is discovered again for the next session
+     */
+    public reset(): void {
+        this.discovery = null;
+        this.config = this.mergeConfig();
+    }
+
+    private async findService(): Promise<UploadService | null> {
+        const info = await this.disco!.findServiceByFeature(
+            FileNamespaces.HTTP_UPLOAD,
+        );
+        return info ? this.fileHandler.parseUploadService(info) : null;
+    }
+
+    private mergeConfig(service?: UploadService | null): UploadConfig {
+        return {
+            maxFileSize: service?.maxFileSize ?? DEFAULTS.MAX_FILE_SIZE,
+            allowedMimeTypes: this.policy.getAllowed(),
+            ...(service && { service: service.jid }),
+            ...this.explicitConfig,
+        };
+    }
+
     /**
      * Validates a file before upload
      */
-    private validateFile(file: File): void {
+    private validateFile(file: AttachmentInfo): void {
         if (this.config.maxFileSize && file.size > this.config.maxFileSize) {
             throw new FileError(
                 `File size (${file.size} bytes) exceeds maximum allowed size (${this.config.maxFileSize} bytes)`,
@@ -57,110 +179,304 @@ export class AttachmentManager {
             );
         }
 
-        if (
-            this.config.allowedMimeTypes &&
-            !this.config.allowedMimeTypes.includes(
-                file.type as SupportedMimeType,
-            )
-        ) {
+        const typeLimit = this.policy.getMaxSize(file.type);
+        if (typeLimit !== null && file.size > typeLimit) {
             throw new FileError(
-                `File type ${file.type} is not allowed. Allowed types: ${this.config.allowedMimeTypes.join(', ')}`,
-                'INVALID_TYPE',
+                `File size (${file.size} bytes) exceeds maximum allowed size for ${file.type} (${typeLimit} bytes)`,
+                'SIZE_EXCEEDED',
             );
         }
-    }
 
-    private async getFileBuffer(file: File): Promise<Buffer> {
-        return new Promise((resolve) => {
-            file.arrayBuffer().then((buffer) => {
-                resolve(Buffer.from(buffer));
-            });
-        });
+        if (!this.policy.isAllowed(file.type)) {
+            throw new FileError(
+                `File type ${file.type} is not allowed. Allowed types: ${this.policy.getAllowed().join(', ')}`,
+                'INVALID_TYPE',
+            );
+        }
     }
 
-    private async requestUploadSlot(file: File): Promise<FileUploadSlot> {
+    private async requestUploadSlot(
+        file: AttachmentInfo,
+        signal?: AbortSignal,
+    ): Promise<FileUploadSlot> {
         if (!this.connection) {
             throw new Error('XMPP connection not available');
         }
 
-        return new Promise((resolve, reject) => {
-            const iq = this.queryBuilder.createUploadSlotRequest({
-                filename: file.name,
-                size: file.size,
-                contentType: file.type,
-                domain: this.connection.getConfig().domain,
-            });
+        if (this.disco && !this.config.service) {
+            throw new FileError(
+                'The server does not offer an HTTP upload service',
+                'UPLOAD_FAILED',
+            );
+        }
 
-            this.connection
-                .sendIQ(iq)
-                .then((stanza: any) => {
-                    if (!this.connection) return;
-
-                    const slot =
-                        this.fileHandler.parseUploadSlotResponse(stanza);
-                    if (slot) {
-                        resolve(slot);
-                        return;
-                    }
-                })
-                .catch((err: any) => {
-                    reject(err);
-                });
+        const iq = this.queryBuilder.createUploadSlotRequest({
+            filename: file.name,
+            size: file.size,
+            contentType: file.type,
+            domain: this.connection.getConfig().domain,
+            service: this.config.service,
         });
+
+        const response = await this.untilCancelled(
+            this.connection.sendIQ(iq),
+            signal,
+        );
+        return this.fileHandler.parseUploadSlotResponse(response);
     }
 
     private async uploadFileToSlot(
         slot: FileUploadSlot,
-        file: Buffer,
+        file: PreparedAttachment,
+        transfer: Transfer = {},
     ): Promise<void> {
+        const body = file.createBody();
+
+        const config: AxiosRequestConfig = {
+            headers: {
+                'Content-Type': file.type,
+                // Streams are sent as they are read, their length is not known otherwise
+                ...(isReadable(body) && {
+                    'Content-Length': file.size.toString(),
+                }),
+                ...slot.putHeaders,
+            },
+            signal: transfer.signal,
+            onUploadProgress: (event: { loaded: number; total?: number }) =>
+                transfer.onProgress?.(event.loaded, event.total),
+        };
+
         try {
-            await axios.put(slot.putUrl, file, {
-                headers: {
-                    'Content-Type': mime.lookup(file.toString()),
-                    ...slot.putHeaders,
-                },
-            });
+            await axios.put(slot.putUrl, body, config);
         } catch (error) {
+            if (transfer.signal?.aborted) {
+                throw createCancelledError();
+            }
             throw new FileError(
                 `File upload failed: ${(error as Error).message}`,
                 'UPLOAD_FAILED',
+                isTransientError(error),
             );
         }
     }
+
     /**
-     * Uploads a file to the server
+     * Request a slot and upload the file to it
+     * A transient failure wastes the slot, so every retry requests a new one
+     * Streams cannot be read twice and are never retried
      */
-    public async uploadFile(file: File): Promise<FileUploadSlot> {
-        try {
-            this.validateFile(file);
+    private async uploadWithRetry(
+        id: string,
+        file: PreparedAttachment,
+        options: UploadOptions,
+    ): Promise<FileUploadSlot> {
+        const retries = options.retries ?? DEFAULTS.RETRIES;
 
-            const uploadSlot = await this.requestUploadSlot(file);
-            const fileBuffer = await this.getFileBuffer(file);
-            await this.uploadFileToSlot(uploadSlot, fileBuffer);
+        for (let attempt = 0; ; attempt++) {
+            this.throwIfCancelled(options.signal);
+            const slot = await this.requestUploadSlot(file, options.signal);
 
-            return uploadSlot;
-        } catch (error) {
-            if (error instanceof FileError) {
-                throw error;
+            try {
+                await this.uploadFileToSlot(slot, file, {
+                    signal: options.signal,
+                    onProgress: (loaded, total) =>
+                        this.reportProgress(id, options, {
+                            loaded,
+                            total: total || file.size,
+                        }),
+                });
+                return slot;
+            } catch (error) {
+                const transient = error instanceof FileError && error.transient;
+                if (!transient || !file.replayable || attempt >= retries) {
+                    throw error;
+                }
             }
+
+            await this.wait(
+                DEFAULTS.RETRY_DELAY * 2 ** attempt,
+                options.signal,
+            );
+        }
+    }
+
+    private reportProgress(
+        id: string,
+        options: UploadOptions,
+        { loaded, total }: { loaded: number; total: number },
+    ): void {
+        const progress = { id, loaded, total };
+        options.onProgress?.(progress);
+        this.emit('upload:progress', progress);
+    }
+
+    private throwIfCancelled(signal?: AbortSignal): void {
+        if (signal?.aborted) throw createCancelledError();
+    }
+
+    /**
+     * Settle with a request, rejecting as soon as the upload is cancelled
+     */
+    private untilCancelled<T>(
+        request: Promise<T>,
+        signal?: AbortSignal,
+    ): Promise<T> {
+        if (!signal) return request;
+
+        return new Promise((resolve, reject) => {
+            if (signal.aborted) {
+                reject(createCancelledError());
+                return;
+            }
+
+            const onAbort = () => reject(createCancelledError());
+            signal.addEventListener('abort', onAbort, { once: true });
+            request
+                .finally(() => signal.removeEventListener('abort', onAbort))
+                .then(resolve, reject);
+        });
+    }
+
+    /**
+     * Wait before the next attempt, rejecting as soon as the upload is cancelled
+     */
+    private wait(delay: number, signal?: AbortSignal): Promise<void> {
+        return new Promise((resolve, reject) => {
+            if (signal?.aborted) {
+                reject(createCancelledError());
+                return;
+            }
+
+            const onAbort = () => {
+                clearTimeout(timer);
+                reject(createCancelledError());
+            };
+            const timer = setTimeout(() => {
+                signal?.removeEventListener('abort', onAbort);
+                resolve();
+            }, delay);
+
+            signal?.addEventListener('abort', onAbort, { once: true });
+        });
+    }
+
+    /**
+     * Read the name, size and content type of an attachment
+     * The content type is detected from the magic bytes and reconciled with the declared one
+     * @param source - File, in-memory data, Node stream or path on the server
+     * @throws {FileError} If the attachment cannot be read or its content contradicts its type
+     */
+    public async prepare(
+        source: AttachmentSource | PreparedAttachment,
+    ): Promise<PreparedAttachment> {
+        let attachment: PreparedAttachment;
+        let header: Uint8Array;
+
+        try {
+            attachment = await prepareAttachment(
+                source,
+                this.policy.lookupType,
+            );
+            header = await attachment.readHeader(CONTENT_HEADER_LENGTH);
+        } catch (error) {
             throw new FileError(
-                `File upload failed: ${(error as Error).message}`,
+                `Cannot read attachment: ${(error as Error).message}`,
                 'UPLOAD_FAILED',
             );
         }
+
+        const detection = detectContentType(
+            header,
+            attachment.name,
+            attachment.type,
+            this.policy.lookupType,
+        );
+        if (detection.mismatch) {
+            throw new FileError(
+                `The content of ${attachment.name} is not ${detection.mismatch}`,
+                'TYPE_MISMATCH',
+            );
+        }
+
+        return attachment.withType(detection.type);
+    }
+
+    /**
+     * Uploads a file to the server
+     * The content is streamed to the slot, not loaded into memory
+     * Attachments returned by prepare are uploaded as they are, without detecting their type again
+     * Emits upload:progress while sending and upload:complete or upload:failed at the end
+     * @param source - File, in-memory data, Node stream or path on the server
+     * @param options - Upload id, progress callback, abort signal and retries
+     * @returns The slot the file was uploaded to
+     * @throws {FileError} If the file is rejected, the upload fails or is cancelled
+     */
+    public async uploadFile(
+        source: AttachmentSource | PreparedAttachment,
+        options: UploadOptions = {},
+    ): Promise<FileUploadSlot> {
+        const { slot } = await this.upload(source, options);
+        return slot;
+    }
+
+    /**
+     * Uploads a file to the server like uploadFile
+     * Failures to read or type the source are reported as upload:failed as well
+     * @returns The upload id, slot and the name, size and detected type of the file
+     * @throws {FileError} If the file is rejected, the upload fails or is cancelled
+     */
+    public async upload(
+        source: AttachmentSource | PreparedAttachment,
+        options: UploadOptions = {},
+    ): Promise<UploadComplete> {
+        const id = options.id || uuidv4();
+
+        try {
+            const file =
+                source instanceof PreparedAttachment
+                    ? source
+                    : await this.prepare(source);
+            await this.discover();
+            this.validateFile(file);
+            this.throwIfCancelled(options.signal);
+
+            const uploadSlot = await this.uploadWithRetry(id, file, options);
+
+            const complete: UploadComplete = {
+                id,
+                slot: uploadSlot,
+                file: { name: file.name, size: file.size, type: file.type },
+            };
+            this.emit('upload:complete', complete);
+            return complete;
+        } catch (error) {
+            const fileError =
+                error instanceof FileError
+                    ? error
+                    : new FileError(
+                          `File upload failed: ${(error as Error).message}`,
+                          'UPLOAD_FAILED',
+                      );
+            this.emit('upload:failed', {
+                id,
+                code: fileError.code,
+                message: fileError.message,
+            });
+            throw fileError;
+        }
     }
 
     /**
-     * Checks if a file type is supported
+     * Checks if a file type may be uploaded under the configured policy
      */
     public isSupportedFileType(mimeType: string): boolean {
-        return mimeType in SUPPORTED_MIME_TYPES;
+        return this.policy.isAllowed(mimeType);
     }
 
     /**
-     * Gets the file extension for a MIME type
+     * Gets the file extensions for a MIME type, custom mappings first
      */
-    public getFileExtension(mimeType: SupportedMimeType): string[] {
-        return [...SUPPORTED_MIME_TYPES[mimeType]];
+    public getFileExtension(mimeType: string): string[] {
+        return this.policy.getExtensions(mimeType);
     }
 }
@@ -0,0 +1,99 @@
+import { Element } from '@xmpp/xml';
+import { ConnectionManager } from '../../core/connection';
+import { MessageNamespaces } from '../../constants/namespaces';
+import { MessageDirection } from '../../types/messages';
+import { JIDUtils } from '../../utils/jid';
+
+/**
+ * A message copied to this resource by the server
+ */
+export interface CarbonCopy {
+    /** The forwarded message */
+    message: Element;
+    /** Outgoing copies were sent by another resource of the user */
+    direction: MessageDirection;
+}
+
+/**
+ * Keeps all resources of the user in sync by receiving copies of their messages
+ * Implements XEP-0280: Message Carbons
+ */
+export class CarbonsManager {
+    private enabled = false;
+
+    constructor(private connection: ConnectionManager) {}
+
+    /**
+     * Ask the server to send copies of messages to this resource
+     */
+    public async enable(): Promise<void> {
+        await this.sendRequest('enable');
+        this.enabled = true;
+    }
+
+    /**
+     * Stop receiving copies of messages
+     */
+    public async disable(): Promise<void> {
+        await this.sendRequest('disable');
+        this.enabled = false;
+    }
+
+    /**
+     * Check if carbons are enabled for the current session
+     */
+    public isEnabled(): boolean {
+        return this.enabled;
+    }
+
+    /**
+     * Forget the carbons state, e.g. when a new session starts
+     */
+    public reset(): void {
+        this.enabled = false;
+    }
+
+    /**
+     * Check if a stanza wraps a carbon copy
+     * @param stanza - The stanza to check
+     */
+    public isCarbon(stanza: Element): boolean {
+        return stanza.name === 'message' && !!this.getWrapper(stanza);
+    }
+
+    /**
+     * Extract the forwarded message of a carbon copy
+     * Copies are only accepted from the user's own bare JID, as anybody could send one
+     * @param stanza - The carbon stanza
+     * @returns The copied message, or null if the copy is invalid
+     */
+    public unwrap(stanza: Element): CarbonCopy | null {
+        const wrapper = this.getWrapper(stanza);
+        const message = wrapper
+            ?.getChild('forwarded', MessageNamespaces.FORWARD)
+            ?.getChild('message');
+        if (!wrapper || !message) return null;
+
+        const ownJid = this.connection.getClient()?.jid?.bare().toString();
+        if (!ownJid || !stanza.attrs.from) return null;
+        if (JIDUtils.getBare(stanza.attrs.from) !== ownJid) return null;
+
+        return {
+            message,
+            direction: wrapper.name === 'sent' ? 'outgoing' : 'incoming',
+        };
+    }
+
+    private getWrapper(stanza: Element): Element | undefined {
+        return (
+            stanza.getChild('sent', MessageNamespaces.CARBONS) ||
+            stanza.getChild('received', MessageNamespaces.CARBONS)
+        );
+    }
+
+    private async sendRequest(action: 'enable' | 'disable'): Promise<void> {
+        const iq = new Element('iq', { type: 'set' });
+        iq.append(new Element(action, { xmlns: MessageNamespaces.CARBONS }));
+        await this.connection.sendIQ(iq);
+    }
+}
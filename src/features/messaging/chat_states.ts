@@ -0,0 +1,140 @@
+import { ConnectionManager } from '../../core/connection';
+import { MessageManager } from './messages';
+import { CompositionState } from '../../types/events';
+import { ChatStateConfig } from '../../types/messages';
+
+/**
+ * Default values for chat state notifications
+ */
+const DEFAULTS = {
+    PAUSE_TIMEOUT: 5000,
+    INACTIVE_TIMEOUT: 120000,
+} as const;
+
+/**
+ * State kept for every conversation a chat state was sent to
+ */
+interface ConversationState {
+    state: CompositionState;
+    timer: NodeJS.Timeout | null;
+}
+
+/**
+ * Sends chat state notifications (typing indicators)
+ * Repeated states are sent only once, composing falls back to paused
+ * and paused/active fall back to inactive after a period without input
+ * Implements XEP-0085: Chat State Notifications
+ */
+export class ChatStateManager {
+    private conversations: Map<string, ConversationState> = new Map();
+    private pauseTimeout: number;
+    private inactiveTimeout: number;
+
+    constructor(
+        private connection: ConnectionManager,
+        private messages: MessageManager,
+        config: ChatStateConfig = {},
+    ) {
+        this.pauseTimeout = config.pauseTimeout ?? DEFAULTS.PAUSE_TIMEOUT;
+        this.inactiveTimeout =
+            config.inactiveTimeout ?? DEFAULTS.INACTIVE_TIMEOUT;
+    }
+
+    /**
+     * Set the chat state towards a contact
+     * The notification is only sent when the state changes
+     * @param to - JID of the contact
+     * @param state - The new chat state
+     */
+    public async setChatState(
+        to: string,
+        state: CompositionState,
+    ): Promise<void> {
+        const previous = this.conversations.get(to)?.state;
+        this.updateConversation(to, state);
+
+        if (previous === state) return;
+
+        const message = this.messages.createChatStateMessage(to, state);
+        await this.connection.sendStanza(message);
+    }
+
+    /**
+     * Check if chat states were sent to a contact, in which case
+     * messages to that contact carry an active state
+     * @param to - JID of the contact
+     */
+    public hasConversation(to: string): boolean {
+        return this.conversations.has(to);
+    }
+
+    /**
+     * Record that a message carrying an active state was sent to a contact
+     * @param to - JID of the contact
+     */
+    public handleMessageSent(to: string): void {
+        if (!this.hasConversation(to)) return;
+        this.updateConversation(to, 'active');
+    }
+
+    /**
+     * Get the last chat state sent to a contact
+     * @param to - JID of the contact
+     */
+    public getChatState(to: string): CompositionState | null {
+        return this.conversations.get(to)?.state || null;
+    }
+
+    /**
+     * Stop all timers and forget every conversation
+     */
+    public reset(): void {
+        this.conversations.forEach((conversation) =>
+            this.clearTimer(conversation),
+        );
+        this.conversations.clear();
+    }
+
+    private updateConversation(to: string, state: CompositionState): void {
+        const conversation = this.conversations.get(to) || {
+            state,
+            timer: null,
+        };
+        this.clearTimer(conversation);
+        conversation.state = state;
+
+        if (state === 'gone') {
+            this.conversations.delete(to);
+            return;
+        }
+
+        this.conversations.set(to, conversation);
+
+        if (state === 'composing') {
+            this.schedule(to, conversation, 'paused', this.pauseTimeout);
+        } else if (state === 'active' || state === 'paused') {
+            this.schedule(to, conversation, 'inactive', this.inactiveTimeout);
+        }
+    }
+
+    private schedule(
+        to: string,
+        conversation: ConversationState,
+        next: CompositionState,
+        delay: number,
+    ): void {
+        conversation.timer = setTimeout(() => {
+            conversation.timer = null;
+            this.setChatState(to, next).catch(() => {
+                // Notifications are best effort, the next state change is sent anyway
+            });
+        }, delay);
+    }
+
+    private clearTimer(conversation: ConversationState): void {
+        if (conversation.timer) {
+            clearTimeout(conversation.timer);
+            conversation.timer = null;
+        }
+    }
+}
@@ -0,0 +1,58 @@
+import { XMPPMessage } from '../../types/messages';
+import { JIDUtils } from '../../utils/jid';
+
+/**
+ * Check if a follow-up message (correction, retraction) was sent by the author of the original
+ * Room messages must come from the same occupant, other messages from the same bare JID
+ */
+export function isSameSender(
+    original: XMPPMessage,
+    followUp: XMPPMessage,
+): boolean {
+    if (!original.from || !followUp.from) return false;
+    if (original.type === 'groupchat' || followUp.type === 'groupchat') {
+        return original.from === followUp.from;
+    }
+    return JIDUtils.getBare(original.from) === JIDUtils.getBare(followUp.from);
+}
+
+/**
+ * Fold corrections into the messages they replace
+ * Corrections whose original is not in the list are kept so they can be applied later
+ * Implements XEP-0308: Last Message Correction
+ * @param messages - Messages in chronological order
+ * @returns The messages with corrected bodies and without the applied corrections
+ */
+export function mergeCorrections(messages: XMPPMessage[]): XMPPMessage[] {
+    const merged: XMPPMessage[] = [];
+    const positions: Map<string, number> = new Map();
+
+    messages.forEach((message) => {
+        const position = message.replaces
+            ? positions.get(message.replaces)
+            : undefined;
+
+        if (
+            position === undefined ||
+            !isSameSender(merged[position], message)
+        ) {
+            if (message.id) positions.set(message.id, merged.length);
+            // Later corrections of a missing original fold into its first correction
+            if (message.replaces && position === undefined) {
+                positions.set(message.replaces, merged.length);
+            }
+            merged.push(message);
+            return;
+        }
+
+        merged[position] = {
+            ...merged[position],
+            body: message.body,
+            corrected: true,
+        };
+        // Some clients reference the previous correction instead of the original
+        if (message.id) positions.set(message.id, position);
+    });
+
+    return merged;
+}
@@ -5,11 +5,69 @@ import {
     MessageOptions,
     ThreadInfo,
     PresenceMessage,
+    PresenceShow,
+    PresenceSubscriptionType,
     MessageReceipt,
     DeliveryStatus,
 } from '../../types/messages';
-import { FileNamespaces, MessageNamespaces } from '../../constants/namespaces';
-import { FileUploadSlot } from '../../types/files';
+import {
+    FileNamespaces,
+    MessageNamespaces,
+    PresenceNamespaces,
+    StanzaNamespaces,
+} from '../../constants/namespaces';
+import { AttachmentInfo, FileUploadSlot } from '../../types/files';
+import { ChatMarker, ChatMarkerType } from '../../types/message_status';
+import {
+    ChatStateEvent,
+    CompositionState,
+    XMPPError,
+} from '../../types/events';
+import { JIDUtils } from '../../utils/jid';
+import { parseRetraction, parseTombstone } from './retractions';
+import { parseReactions } from './reactions';
+import { addReply, parseReply } from './replies';
+
+/**
+ * Chat states defined by XEP-0085
+ */
+const CHAT_STATES: CompositionState[] = [
+    'active',
+    'composing',
+    'paused',
+    'inactive',
+    'gone',
+];
+
+/**
+ * Availability sub-states defined by RFC 6121
+ */
+const PRESENCE_SHOWS: PresenceShow[] = ['away', 'chat', 'dnd', 'xa'];
+
+/**
+ * Presence types that manage subscriptions
+ */
+const SUBSCRIPTION_TYPES: PresenceSubscriptionType[] = [
+    'subscribe',
+    'subscribed',
+    'unsubscribe',
+    'unsubscribed',
+];
+
+/**
+ * Chat markers defined by XEP-0333
+ */
+const CHAT_MARKERS: ChatMarkerType[] = [
+    'received',
+    'displayed',
+    'acknowledged',
+];
+
+/**
+ * Body shown by clients that do not support message retraction
+ */
+const RETRACTION_FALLBACK =
+    'This person attempted to retract a previous message, but it is unsupported by your client.';
 
 /**
  * Message manager class for handling XMPP messages
@@ -62,6 +120,31 @@ export class MessageManager {
             message.children.push(replace);
         }
 
+        // Ask for a delivery receipt if requested
+        if (options.requestReceipt) {
+            message.children.push(
+                new Element('request', { xmlns: MessageNamespaces.RECEIPT }),
+            );
+        }
+
+        // Ask for chat markers if requested
+        if (options.requestMarkable) {
+            message.children.push(
+                new Element('markable', {
+                    xmlns: MessageNamespaces.CHAT_MARKERS,
+                }),
+            );
+        }
+
+        // Add chat state notification if provided
+        if (options.chatState) {
+            message.children.push(
+                new Element(options.chatState, {
+                    xmlns: MessageNamespaces.CHAT_STATES,
+                }),
+            );
+        }
+
         return message;
     }
 
@@ -75,6 +158,11 @@ export class MessageManager {
     ): Element {
         const message = this.createBasicMessage(to, 'chat', options);
 
+        // Add reply reference, quoting the original in the body
+        if (options.replyTo) {
+            body = addReply(message, body, options.replyTo);
+        }
+
         // Add message body
         const bodyElement = new Element('body');
         bodyElement.children.push(body);
@@ -83,10 +171,111 @@ export class MessageManager {
         return message;
     }
 
+    /**
+     * Creates a groupchat message addressed to a room
+     */
+    public createGroupChatMessage(
+        roomJid: string,
+        body: string,
+        options: MessageOptions = {},
+    ): Element {
+        const message = this.createBasicMessage(roomJid, 'groupchat', options);
+
+        if (options.replyTo) {
+            body = addReply(message, body, options.replyTo);
+        }
+
+        const bodyElement = new Element('body');
+        bodyElement.children.push(body);
+        message.children.push(bodyElement);
+
+        return message;
+    }
+
+    /**
+     * Creates a standalone chat state notification (no body)
+     */
+    public createChatStateMessage(
+        to: string,
+        state: CompositionState,
+    ): Element {
+        return this.createBasicMessage(to, 'chat', { chatState: state });
+    }
+
+    /**
+     * Creates a request to retract a previously sent message
+     * @param to - JID of the contact or room
+     * @param id - Id of the message: origin id in chats, stanza id in rooms
+     * @param type - Message type of the conversation
+     */
+    public createRetractionMessage(
+        to: string,
+        id: string,
+        type: 'chat' | 'groupchat' = 'chat',
+    ): Element {
+        const message = this.createBasicMessage(to, type);
+
+        message.append(
+            new Element('retract', { xmlns: MessageNamespaces.RETRACT, id }),
+        );
+
+        // Fallback for clients without retraction support
+        message.append(
+            new Element('fallback', {
+                xmlns: MessageNamespaces.FALLBACK,
+                for: MessageNamespaces.RETRACT,
+            }),
+        );
+        const bodyElement = new Element('body');
+        bodyElement.children.push(RETRACTION_FALLBACK);
+        message.append(bodyElement);
+
+        // Ask the server to archive the retraction
+        message.append(
+            new Element('store', { xmlns: MessageNamespaces.HINTS }),
+        );
+
+        return message;
+    }
+
+    /**
+     * Creates a message replacing the user's reactions to a message
+     * @param to - JID of the contact or room
+     * @param id - Id of the message: its id in chats, stanza id in rooms
+     * @param emojis - The full set of reactions, empty to remove them
+     * @param type - Message type of the conversation
+     */
+    public createReactionMessage(
+        to: string,
+        id: string,
+        emojis: string[],
+        type: 'chat' | 'groupchat' = 'chat',
+    ): Element {
+        const message = this.createBasicMessage(to, type);
+
+        const reactions = new Element('reactions', {
+            xmlns: MessageNamespaces.REACTIONS,
+            id,
+        });
+        [...new Set(emojis)].forEach((emoji) => {
+            const reaction = new Element('reaction');
+            reaction.children.push(emoji);
+            reactions.append(reaction);
+        });
+        message.append(reactions);
+
+        // Ask the server to archive the reactions
+        message.append(
+            new Element('store', { xmlns: MessageNamespaces.HINTS }),
+        );
+
+        return message;
+    }
+
     public createAttachmentMessage(
         to: string,
         body: string,
-        file: File,
+        file: AttachmentInfo,
         uploadSlot: FileUploadSlot,
     ): Element {
         const message = this.createBasicMessage(to, 'chat');
@@ -123,10 +312,52 @@ export class MessageManager {
                 return null;
             }
 
+            const type = stanza.attrs.type;
+            const resource = stanza.attrs.from
+                ? JIDUtils.parse(stanza.attrs.from).resource
+                : undefined;
+            const show = stanza.getChildText('show');
+            const statusText = stanza.getChildText('status');
+            const nick = stanza.getChildText('nick', PresenceNamespaces.NICK);
+            const caps = stanza.getChild('c', PresenceNamespaces.CAPS);
+            const priority = parseInt(
+                stanza.getChildText('priority') || '',
+                10,
+            );
+
             return {
                 type: 'presence',
                 from: stanza.attrs.from,
-                status: stanza.attrs.type,
+                // Servers omit the type of available presence
+                status:
+                    !type || type === 'available' ? 'available' : 'unavailable',
+                ...(resource && { resource }),
+                ...(PRESENCE_SHOWS.includes(show as PresenceShow) && {
+                    show: show as PresenceShow,
+                }),
+                ...(statusText && { statusText }),
+                priority: isNaN(priority)
+                    ? 0
+                    : Math.min(Math.max(priority, -128), 127),
+                ...(SUBSCRIPTION_TYPES.includes(type) && {
+                    subscription: type as PresenceSubscriptionType,
+                }),
+                ...(nick && { nick }),
+                ...(caps?.attrs.node &&
+                    caps.attrs.ver && {
+                        caps: {
+                            // Legacy capabilities have no hash
+                            hash: caps.attrs.hash || '',
+                            node: caps.attrs.node,
+                            ver: caps.attrs.ver,
+                        },
+                    }),
+                ...(type === 'error' && {
+                    error: this.parseStanzaError(
+                        stanza,
+                        'Presence could not be delivered',
+                    ),
+                }),
             };
         } catch (error) {
             return null;
@@ -138,8 +369,24 @@ export class MessageManager {
      */
     public parseMessage(stanza: Element): XMPPMessage | null {
         try {
-            const body = stanza.getChildText('body') || '';
             const stanza_id = stanza.getChild('stanza-id')?.attrs.id;
+            const replaces = this.getReplacedMessageId(stanza);
+            const retracts = parseRetraction(stanza);
+            const retracted = parseTombstone(stanza, stanza.attrs.id);
+            const reactsTo = parseReactions(stanza);
+            const markable = !!stanza.getChild(
+                'markable',
+                MessageNamespaces.CHAT_MARKERS,
+            );
+            const receiptRequested = !!stanza.getChild(
+                'request',
+                MessageNamespaces.RECEIPT,
+            );
+            // Retractions only carry a fallback text for clients without support
+            const { replyTo, body } = parseReply(
+                stanza,
+                retracts ? '' : stanza.getChildText('body') || '',
+            );
 
             const baseMessage = {
                 id: stanza.attrs.id,
@@ -147,6 +394,13 @@ export class MessageManager {
                 from: stanza.attrs.from,
                 to: stanza.attrs.to,
                 time: new Date(),
+                ...(replaces && { replaces }),
+                ...(retracts && { retracts }),
+                ...(retracted && { retracted }),
+                ...(reactsTo && { reactsTo }),
+                ...(replyTo && { replyTo }),
+                ...(markable && { markable }),
+                ...(receiptRequested && { receiptRequested }),
             };
 
             // Check for file attachment
@@ -166,6 +420,17 @@ export class MessageManager {
                 }
             }
 
+            // Handle groupchat messages (from is room@service/nickname)
+            if (stanza.attrs.type === 'groupchat') {
+                return {
+                    ...baseMessage,
+                    type: 'groupchat',
+                    body,
+                    roomJid: JIDUtils.getBare(stanza.attrs.from),
+                    nickname: JIDUtils.getNickname(stanza.attrs.from) || '',
+                };
+            }
+
             // Handle regular chat messages
             return {
                 ...baseMessage,
@@ -178,8 +443,15 @@ export class MessageManager {
         }
     }
 
+    /**
+     * Parses a delivery receipt, or a bounced message as failed receipt
+     */
     public parseReceipt(stanza: Element): MessageReceipt | null {
         try {
+            if (stanza.attrs.type === 'error') {
+                return this.parseBounce(stanza);
+            }
+
             const received = stanza.getChild(
                 'received',
                 MessageNamespaces.RECEIPT,
@@ -202,6 +474,81 @@ export class MessageManager {
         }
     }
 
+    /**
+     * Parses a message that bounced with an error
+     */
+    private parseBounce(stanza: Element): MessageReceipt | null {
+        if (!stanza.attrs.id) return null;
+
+        return {
+            id: stanza.attrs.id,
+            from: stanza.attrs.from,
+            type: 'failed',
+            error: this.parseStanzaError(
+                stanza,
+                'Message could not be delivered',
+            ),
+        };
+    }
+
+    /**
+     * Parses the error condition of a stanza of type error
+     * @param fallback - Message used when the error has neither text nor condition
+     */
+    private parseStanzaError(stanza: Element, fallback: string): XMPPError {
+        const error = stanza.getChild('error');
+        const condition = error?.children.find(
+            (child): child is Element =>
+                child instanceof Element &&
+                child.attrs.xmlns === StanzaNamespaces.ERRORS &&
+                child.name !== 'text',
+        );
+
+        return {
+            code: condition?.name || 'undefined-condition',
+            message:
+                error?.getChildText('text', StanzaNamespaces.ERRORS) ||
+                condition?.name ||
+                fallback,
+            type: (error?.attrs.type || 'cancel') as XMPPError['type'],
+        };
+    }
+
+    /**
+     * Parses a chat marker (XEP-0333)
+     */
+    public parseMarker(stanza: Element): ChatMarker | null {
+        const marker = CHAT_MARKERS.map((type) =>
+            stanza.getChild(type, MessageNamespaces.CHAT_MARKERS),
+        ).find((element) => element?.attrs.id);
+        if (!marker) return null;
+
+        return {
+            from: stanza.attrs.from,
+            id: marker.attrs.id,
+            type: marker.name as ChatMarkerType,
+        };
+    }
+
+    /**
+     * Parses the chat state notification of a message
+     */
+    public parseChatState(stanza: Element): ChatStateEvent | null {
+        const element = stanza.children.find(
+            (child): child is Element =>
+                child instanceof Element &&
+                child.attrs.xmlns === MessageNamespaces.CHAT_STATES &&
+                CHAT_STATES.includes(child.name as CompositionState),
+        );
+        if (!element) return null;
+
+        return {
+            from: stanza.attrs.from,
+            to: stanza.attrs.to,
+            state: element.name as CompositionState,
+        };
+    }
+
     /**
      * Gets the thread information from a message
      */
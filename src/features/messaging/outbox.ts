@@ -0,0 +1,228 @@
+import { EventEmitter } from 'events';
+import { v4 as uuidv4 } from 'uuid';
+import { ConnectionManager } from '../../core/connection';
+import { MessageManager } from './messages';
+import { MessageOptions } from '../../types/messages';
+import { XMPPError } from '../../types/events';
+import { OutboxConfig, OutboxEntry, OutboxStorage } from '../../types/outbox';
+
+/**
+ * Default values for the outbox
+ */
+const DEFAULTS = {
+    MAX_ATTEMPTS: 3,
+} as const;
+
+/**
+ * Keeps outbox entries in memory only
+ */
+export class MemoryOutboxStorage implements OutboxStorage {
+    private entries: Map<string, OutboxEntry> = new Map();
+
+    public async load(): Promise<OutboxEntry[]> {
+        return [...this.entries.values()].map((entry) => ({ ...entry }));
+    }
+
+    public async save(entry: OutboxEntry): Promise<void> {
+        this.entries.set(entry.id, { ...entry });
+    }
+
+    public async remove(id: string): Promise<void> {
+        this.entries.delete(id);
+    }
+}
+
+/**
+ * Queues outgoing chat messages while disconnected and sends them in order once online
+ */
+export class OutboxManager extends EventEmitter {
+    private entries: OutboxEntry[] = [];
+    private storage: OutboxStorage;
+    private maxAttempts: number;
+    private flushing: Promise<void> | null = null;
+    private restored: Promise<void>;
+
+    constructor(
+        private connection: ConnectionManager,
+        private messages: MessageManager,
+        private config: OutboxConfig = { enabled: false },
+    ) {
+        super();
+        this.storage = config.storage || new MemoryOutboxStorage();
+        this.maxAttempts = config.maxAttempts || DEFAULTS.MAX_ATTEMPTS;
+        // A disabled outbox never touches the storage
+        this.restored = config.enabled ? this.restore() : Promise.resolve();
+    }
+
+    /**
+     * Check if messages should go through the outbox
+     */
+    public isEnabled(): boolean {
+        return this.config.enabled;
+    }
+
+    /**
+     * Get all entries that were not sent yet, in sending order
+     */
+    public getEntries(): OutboxEntry[] {
+        return this.entries.map((entry) => ({ ...entry }));
+    }
+
+    /**
+     * Add a chat message to the outbox and try to send it
+     * @returns The queued entry; its id is used as the message id
+     */
+    public async enqueue(
+        to: string,
+        body: string,
+        options: MessageOptions = {},
+    ): Promise<OutboxEntry> {
+        await this.restored;
+
+        const entry: OutboxEntry = {
+            id: options.id || uuidv4(),
+            to,
+            body,
+            options,
+            state: 'queued',
+            attempts: 0,
+            createdAt: Date.now(),
+        };
+
+        this.entries.push(entry);
+        await this.storage.save(entry);
+        this.emit('outbox:queued', { ...entry });
+
+        if (this.connection.isConnected()) {
+            await this.flush();
+        }
+
+        return { ...entry };
+    }
+
+    /**
+     * Send all queued entries in order
+     * Stops when the connection is lost so the remaining entries keep their order
+     */
+    public async flush(): Promise<void> {
+        await this.restored;
+
+        if (!this.flushing) {
+            this.flushing = this.sendQueued().finally(() => {
+                this.flushing = null;
+            });
+        }
+        return this.flushing;
+    }
+
+    /**
+     * Remove an entry that was not sent yet
+     * @param id - Id of the entry
+     * @returns True if an entry was removed
+     */
+    public async cancel(id: string): Promise<boolean> {
+        const entry = this.entries.find((e) => e.id === id);
+        if (!entry) return false;
+
+        this.entries = this.entries.filter((e) => e !== entry);
+        await this.storage.remove(id);
+        this.emit('outbox:cancelled', { ...entry });
+        return true;
+    }
+
+    /**
+     * Queue a failed entry again and try to send it
+     * @param id - Id of the entry
+     * @returns True if the entry was queued again
+     */
+    public async retry(id: string): Promise<boolean> {
+        const entry = this.entries.find((e) => e.id === id);
+        if (!entry || entry.state !== 'failed') return false;
+
+        entry.state = 'queued';
+        entry.attempts = 0;
+        entry.error = undefined;
+        await this.storage.save(entry);
+        this.emit('outbox:queued', { ...entry });
+
+        if (this.connection.isConnected()) {
+            await this.flush();
+        }
+        return true;
+    }
+
+    /**
+     * Load the entries of the last session
+     * A failed load is reported and the outbox starts empty
+     */
+    private async restore(): Promise<void> {
+        try {
+            const stored = await this.storage.load();
+            this.entries = stored.sort((a, b) => a.createdAt - b.createdAt);
+        } catch (error) {
+            this.emit('outbox:error', {
+                code: 'OUTBOX_RESTORE_ERROR',
+                message: (error as Error).message,
+                type: 'wait',
+            } as XMPPError);
+        }
+    }
+
+    /**
+     * Send queued entries until none are left
+     * Entries queued while flushing are sent by the same flush
+     */
+    private async sendQueued(): Promise<void> {
+        let entry = this.nextQueued();
+        while (entry) {
+            if (!this.connection.isConnected()) return;
+
+            try {
+                entry.attempts++;
+                await this.sendEntry(entry);
+            } catch (error) {
+                await this.handleSendError(entry, error as Error);
+                entry = this.nextQueued();
+                continue;
+            }
+
+            entry.state = 'sent';
+            this.entries = this.entries.filter((e) => e !== entry);
+            await this.storage.remove(entry.id);
+            this.emit('outbox:sent', { ...entry });
+            entry = this.nextQueued();
+        }
+    }
+
+    private nextQueued(): OutboxEntry | undefined {
+        return this.entries.find((entry) => entry.state === 'queued');
+    }
+
+    private async sendEntry(entry: OutboxEntry): Promise<void> {
+        const message = this.messages.createChatMessage(entry.to, entry.body, {
+            ...entry.options,
+            id: entry.id,
+        });
+        await this.connection.sendStanza(message);
+    }
+
+    /**
+     * Record a failed attempt; the entry fails once it runs out of attempts
+     */
+    private async handleSendError(
+        entry: OutboxEntry,
+        error: Error,
+    ): Promise<void> {
+        entry.error = error.message;
+
+        // Lost the connection: the attempt does not count, the entry stays queued
+        if (!this.connection.isConnected()) {
+            entry.attempts--;
+        } else if (entry.attempts >= this.maxAttempts) {
+            entry.state = 'failed';
+            this.emit('outbox:failed', { ...entry });
+        }
+
+        await this.storage.save(entry);
+    }
+}
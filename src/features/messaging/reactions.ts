@@ -0,0 +1,105 @@
+import { Element } from '@xmpp/xml';
+import {
+    MessageReaction,
+    ReactionUpdate,
+    XMPPMessage,
+} from '../../types/messages';
+import { MessageNamespaces } from '../../constants/namespaces';
+import { JIDUtils } from '../../utils/jid';
+
+/**
+ * Parse the reactions carried by a message, if any
+ * Implements XEP-0444: Message Reactions
+ * @param stanza - The message stanza
+ */
+export function parseReactions(stanza: Element): ReactionUpdate | null {
+    const reactions = stanza.getChild('reactions', MessageNamespaces.REACTIONS);
+    if (!reactions?.attrs.id) return null;
+
+    const emojis = reactions
+        .getChildren('reaction')
+        .map((reaction) => reaction.getText().trim())
+        .filter((emoji) => emoji.length > 0);
+
+    return { id: reactions.attrs.id, emojis: [...new Set(emojis)] };
+}
+
+/**
+ * Get the key identifying who reacted
+ * Room occupants are told apart by occupant JID, contacts by bare JID
+ */
+function getReactionSender(message: XMPPMessage): string {
+    return message.type === 'groupchat'
+        ? message.from
+        : JIDUtils.getBare(message.from);
+}
+
+/**
+ * Replace the reactions of one sender on a message
+ * Every reaction message carries the full set of its sender, an empty set removes them
+ * @param reactions - Current reactions of the message
+ * @param sender - Who reacted
+ * @param emojis - The sender's new reactions
+ * @returns The updated reactions
+ */
+export function applyReaction(
+    reactions: MessageReaction[] = [],
+    sender: string,
+    emojis: string[],
+): MessageReaction[] {
+    const updated = reactions
+        .map((reaction) => ({
+            emoji: reaction.emoji,
+            senders: reaction.senders.filter((s) => s !== sender),
+        }))
+        .filter((reaction) => reaction.senders.length > 0);
+
+    emojis.forEach((emoji) => {
+        const existing = updated.find((reaction) => reaction.emoji === emoji);
+        if (existing) {
+            existing.senders.push(sender);
+        } else {
+            updated.push({ emoji, senders: [sender] });
+        }
+    });
+
+    return updated;
+}
+
+/**
+ * Fold reaction messages onto the messages they react to
+ * Reactions whose target is not in the list are kept so they can be applied later
+ * @param messages - Messages in chronological order
+ * @returns The messages with aggregated reactions and without the applied reaction messages
+ */
+export function mergeReactions(messages: XMPPMessage[]): XMPPMessage[] {
+    const merged: XMPPMessage[] = [];
+
+    messages.forEach((message) => {
+        const update = message.reactsTo;
+        const position = update
+            ? merged.findIndex((target) =>
+                  // Room reactions reference the stanza id assigned by the room
+                  message.type === 'groupchat'
+                      ? target.stanza_id === update.id
+                      : target.id === update.id,
+              )
+            : -1;
+
+        if (!update || position === -1) {
+            merged.push(message);
+            return;
+        }
+
+        merged[position] = {
+            ...merged[position],
+            reactions: applyReaction(
+                merged[position].reactions,
+                getReactionSender(message),
+                update.emojis,
+            ),
+        };
+    });
+
+    return merged;
+}
@@ -0,0 +1,95 @@
+import { Element } from '@xmpp/xml';
+import { ReplyInfo } from '../../types/messages';
+import { MessageNamespaces } from '../../constants/namespaces';
+
+/**
+ * Prefix marking quoted lines in the fallback body
+ */
+const QUOTE_PREFIX = '> ';
+
+/**
+ * Add a reply reference and its quoted fallback to a message
+ * Implements XEP-0461: Message Replies and XEP-0428: Fallback Indication
+ * @param message - The message being built
+ * @param body - The reply text
+ * @param replyTo - The message replied to
+ * @returns The body to send, starting with the quote when one is given
+ */
+export function addReply(
+    message: Element,
+    body: string,
+    replyTo: ReplyInfo,
+): string {
+    message.append(
+        new Element('reply', {
+            xmlns: MessageNamespaces.REPLY,
+            to: replyTo.jid,
+            id: replyTo.id,
+        }),
+    );
+
+    if (!replyTo.quotedText) return body;
+
+    const quote =
+        replyTo.quotedText
+            .split('\n')
+            .map((line) => QUOTE_PREFIX + line)
+            .join('\n') + '\n';
+
+    // Ranges are counted in code points, not UTF-16 units
+    const fallback = new Element('fallback', {
+        xmlns: MessageNamespaces.FALLBACK,
+        for: MessageNamespaces.REPLY,
+    });
+    fallback.append(
+        new Element('body', {
+            start: '0',
+            end: Array.from(quote).length.toString(),
+        }),
+    );
+    message.append(fallback);
+
+    return quote + body;
+}
+
+/**
+ * Parse the reply reference of a message and strip its quoted fallback from the body
+ * @param stanza - The message stanza
+ * @param body - The received body
+ * @returns The reply, if any, and the body without the fallback
+ */
+export function parseReply(
+    stanza: Element,
+    body: string,
+): { replyTo?: ReplyInfo; body: string } {
+    const reply = stanza.getChild('reply', MessageNamespaces.REPLY);
+    if (!reply?.attrs.id) return { body };
+
+    const range = stanza
+        .getChildren('fallback', MessageNamespaces.FALLBACK)
+        .find((fallback) => fallback.attrs.for === MessageNamespaces.REPLY)
+        ?.getChild('body');
+
+    const replyTo: ReplyInfo = { id: reply.attrs.id, jid: reply.attrs.to };
+    if (!range) return { replyTo, body };
+
+    const chars = Array.from(body);
+    const start = parseInt(range.attrs.start, 10);
+    const end = parseInt(range.attrs.end, 10);
+    if (isNaN(start) || isNaN(end) || start > end || end > chars.length) {
+        return { replyTo, body };
+    }
+
+    const quotedText = chars
+        .slice(start, end)
+        .join('')
+        .replace(/\n$/, '')
+        .split('\n')
+        .map((line) => (line.startsWith('>') ? line.replace(/^> ?/, '') : line))
+        .join('\n');
+
+    return {
+        replyTo: { ...replyTo, quotedText },
+        body: [...chars.slice(0, start), ...chars.slice(end)].join(''),
+    };
+}
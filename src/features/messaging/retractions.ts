@@ -0,0 +1,101 @@
+import { Element } from '@xmpp/xml';
+import { RetractionInfo, XMPPMessage } from '../../types/messages';
+import { MessageNamespaces } from '../../constants/namespaces';
+import { isSameSender } from './corrections';
+
+/**
+ * Read the moderator and reason attached to a retract or retracted element
+ */
+function parseRetractionDetails(
+    element: Element,
+): Omit<RetractionInfo, 'id' | 'stamp'> {
+    const moderated = element.getChild('moderated', MessageNamespaces.MODERATE);
+    const reason = element.getChildText('reason');
+
+    return {
+        moderated: !!moderated,
+        ...(moderated?.attrs.by && { by: moderated.attrs.by }),
+        ...(reason && { reason }),
+    };
+}
+
+/**
+ * Parse the retraction request carried by a message, if any
+ * Implements XEP-0424: Message Retraction and XEP-0425: Moderated Message Retraction
+ * @param stanza - The message stanza
+ */
+export function parseRetraction(stanza: Element): RetractionInfo | null {
+    const retract = stanza.getChild('retract', MessageNamespaces.RETRACT);
+    if (!retract?.attrs.id) return null;
+
+    return { id: retract.attrs.id, ...parseRetractionDetails(retract) };
+}
+
+/**
+ * Parse the tombstone left in place of a retracted message, if any
+ * @param stanza - The message stanza
+ * @param id - Id of the message the tombstone stands for
+ */
+export function parseTombstone(
+    stanza: Element,
+    id: string,
+): RetractionInfo | null {
+    const retracted = stanza.getChild('retracted', MessageNamespaces.RETRACT);
+    if (!retracted) return null;
+
+    return {
+        id: retracted.attrs.id || id,
+        ...parseRetractionDetails(retracted),
+        ...(retracted.attrs.stamp && {
+            stamp: new Date(retracted.attrs.stamp),
+        }),
+    };
+}
+
+/**
+ * Check if a retraction may remove a message
+ * Moderated retractions must come from the room's bare JID, others from the author
+ */
+function mayRetract(original: XMPPMessage, retraction: XMPPMessage): boolean {
+    if (!retraction.retracts?.moderated) {
+        return isSameSender(original, retraction);
+    }
+    return (
+        original.type === 'groupchat' && retraction.from === original.roomJid
+    );
+}
+
+/**
+ * Turn retracted messages into tombstones and drop the applied retractions
+ * Retractions whose target is not in the list are kept so they can be applied later
+ * @param messages - Messages in chronological order
+ * @returns The messages with retracted bodies removed
+ */
+export function mergeRetractions(messages: XMPPMessage[]): XMPPMessage[] {
+    const merged: XMPPMessage[] = [];
+
+    messages.forEach((message) => {
+        const retraction = message.retracts;
+        const position = retraction
+            ? merged.findIndex(
+                  (original) =>
+                      (original.id === retraction.id ||
+                          original.stanza_id === retraction.id) &&
+                      mayRetract(original, message),
+              )
+            : -1;
+
+        if (!retraction || position === -1) {
+            merged.push(message);
+            return;
+        }
+
+        merged[position] = {
+            ...merged[position],
+            body: '',
+            retracted: { ...retraction, stamp: message.time },
+        };
+    });
+
+    return merged;
+}
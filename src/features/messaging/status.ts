@@ -1,7 +1,10 @@
 import { Element } from '@xmpp/xml';
+import { v4 as uuidv4 } from 'uuid';
 import { ConnectionManager } from '../../core/connection';
 import {
+    ChatMarkerType,
     MessageReadStatus,
+    MessageStatusConfig,
     MessageStatusErrorType,
 } from '../../types/message_status';
 import { XMPPMessage } from '../../types/messages';
@@ -9,29 +12,77 @@ import { MessageNamespaces } from '../../constants/namespaces';
 
 /**
  * Manager class for handling message read status
+ * Exchanges standard chat markers and, unless disabled, the custom mod_message_status IQs
+ * Implements XEP-0333: Chat Markers
  */
 export class MessageStatusManager {
-    constructor(private connection: ConnectionManager) {}
+    private statusIQ: boolean;
+    private autoReceipts: boolean;
+
+    constructor(
+        private connection: ConnectionManager,
+        config: MessageStatusConfig = {},
+    ) {
+        this.statusIQ = config.statusIQ ?? true;
+        this.autoReceipts = config.autoReceipts ?? false;
+    }
 
     /**
-     * Send a read receipt to the message sender
-     * @param message - The message that was read
+     * Answer the delivery receipt request of an incoming message when auto receipts are enabled
+     * Room messages are never answered, as receipts would come from every occupant
+     * @param message - The received message
+     * @returns True if a receipt was sent
      */
-    private async sendReadReceipt(message: XMPPMessage): Promise<void> {
-        const receipt = new Element('message', {
-            id: message.id,
-            to: message.from,
-            from: message.to,
-            type: 'chat',
-        });
+    public async answerReceiptRequest(message: XMPPMessage): Promise<boolean> {
+        if (
+            !this.autoReceipts ||
+            !message.receiptRequested ||
+            !message.id ||
+            message.type === 'groupchat'
+        ) {
+            return false;
+        }
 
-        const displayed = new Element('displayed', {
-            xmlns: MessageNamespaces.RECEIPT,
-            id: message.id,
+        await this.sendDeliveryReceipt(message);
+        return true;
+    }
+
+    /**
+     * Check if a chat marker may be sent for a message
+     * Only markable messages are marked, room messages also need the stanza id the room assigned
+     * @param message - The message to mark
+     */
+    private isMarkable(message: XMPPMessage): boolean {
+        if (!message.markable) return false;
+        return message.type !== 'groupchat' || !!message.stanza_id;
+    }
+
+    /**
+     * Send a chat marker to the message sender, unless the message is not markable
+     * Room messages are marked in the room using the stanza id the room assigned
+     * @param message - The marked message
+     * @param type - The marker to send
+     */
+    private async sendMarker(
+        message: XMPPMessage,
+        type: ChatMarkerType,
+    ): Promise<void> {
+        if (!this.isMarkable(message)) return;
+
+        const isRoom = message.type === 'groupchat';
+        const marker = new Element('message', {
+            id: uuidv4(),
+            to: isRoom ? message.roomJid : message.from,
+            type: isRoom ? 'groupchat' : 'chat',
         });
 
-        receipt.append(displayed);
-        await this.connection.sendStanza(receipt);
+        marker.append(
+            new Element(type, {
+                xmlns: MessageNamespaces.CHAT_MARKERS,
+                id: isRoom ? message.stanza_id : message.id,
+            }),
+        );
+        await this.connection.sendStanza(marker);
     }
 
     /**
@@ -61,6 +112,21 @@ export class MessageStatusManager {
      * @returns Promise that resolves when the message is marked as read
      */
     public async markAsRead(message: XMPPMessage): Promise<void> {
+        try {
+            if (this.statusIQ) {
+                await this.sendMarkReadIQ(message);
+            }
+            await this.sendMarker(message, 'displayed');
+        } catch (error: any) {
+            throw this.handleError(error);
+        }
+    }
+
+    /**
+     * Store the read status of a message with mod_message_status
+     * @param message - The message that was read
+     */
+    private async sendMarkReadIQ(message: XMPPMessage): Promise<void> {
         const iq = new Element('iq', { type: 'set' });
         const markRead = new Element('mark-read', {
             xmlns: MessageNamespaces.STATUS,
@@ -70,13 +136,7 @@ export class MessageStatusManager {
         });
 
         iq.append(markRead);
-
-        try {
-            await this.connection.sendIQ(iq);
-            await this.sendReadReceipt(message);
-        } catch (error: any) {
-            throw this.handleError(error);
-        }
+        await this.connection.sendIQ(iq);
     }
 
     /**
@@ -85,6 +145,11 @@ export class MessageStatusManager {
      * @returns Promise that resolves when the message is marked as delivered
      */
     public async markAsDelivered(message: XMPPMessage): Promise<void> {
+        if (!this.statusIQ) {
+            await this.sendDeliveryReceipt(message);
+            return;
+        }
+
         const iq = new Element('iq', { type: 'set' });
         const markDelivered = new Element('mark-delivered', {
             xmlns: MessageNamespaces.STATUS,
@@ -113,6 +178,11 @@ export class MessageStatusManager {
         messageId: string,
         jid: string,
     ): Promise<MessageReadStatus> {
+        // Without the server module statuses only arrive as markers
+        if (!this.statusIQ) {
+            return { delivered: false, read: false };
+        }
+
         const iq = new Element('iq', { type: 'get' });
         const statusQuery = new Element('get-status', {
             xmlns: MessageNamespaces.STATUS,
@@ -142,6 +212,46 @@ export class MessageStatusManager {
         }
     }
 
+    /**
+     * Mark every message of a conversation up to a given one as displayed
+     * A single displayed marker is sent for the last markable message, which covers all earlier messages
+     * @param messages - Messages of one conversation in chronological order
+     * @param id - Id (or stanza id) of the last displayed message
+     * @returns The messages that were marked
+     * @throws {Error} If no message has the given id
+     */
+    public async markDisplayedUpTo(
+        messages: Array<XMPPMessage>,
+        id: string,
+    ): Promise<XMPPMessage[]> {
+        const index = messages.findIndex(
+            (message) => message.id === id || message.stanza_id === id,
+        );
+        if (index === -1) {
+            const err = new Error('Message not found');
+            err.name = 'not_found';
+            throw err;
+        }
+
+        const marked = messages.slice(0, index + 1);
+        try {
+            if (this.statusIQ) {
+                await Promise.all(
+                    marked.map((message) => this.sendMarkReadIQ(message)),
+                );
+            }
+            const last = [...marked]
+                .reverse()
+                .find((message) => this.isMarkable(message));
+            if (last) {
+                await this.sendMarker(last, 'displayed');
+            }
+        } catch (error: any) {
+            throw this.handleError(error);
+        }
+        return marked;
+    }
+
     /**
      * Mark multiple messages as read
      * @param messages - Array of messages to mark as read
@@ -0,0 +1,105 @@
+import { Element } from '@xmpp/xml';
+import { MUCNamespaces, StanzaNamespaces } from '../../constants/namespaces';
+import { XMPPError } from '../../types/events';
+import { MUCAffiliation, MUCRole, RoomPresence } from '../../types/muc';
+import { JIDUtils } from '../../utils/jid';
+
+/**
+ * Status codes defined by XEP-0045 that the handler cares about
+ */
+export const MUC_STATUS_CODES = {
+    SELF_PRESENCE: '110',
+    NICK_CHANGED: '303',
+} as const;
+
+/**
+ * Handles parsing of Multi-User Chat stanzas
+ * Implements XEP-0045: Multi-User Chat
+ */
+export class MUCHandler {
+    /**
+     * Check if a presence stanza carries MUC occupant information
+     * @param stanza - The stanza to check
+     */
+    public isRoomPresence(stanza: Element): boolean {
+        return (
+            stanza.name === 'presence' &&
+            !!(
+                stanza.getChild('x', MUCNamespaces.MUC_USER) ||
+                stanza.getChild('x', MUCNamespaces.MUC)
+            )
+        );
+    }
+
+    /**
+     * Parse an occupant presence received from a room
+     * @param stanza - The presence stanza to parse
+     * @returns Parsed room presence or null if the stanza is not a room presence
+     */
+    public parsePresence(stanza: Element): RoomPresence | null {
+        try {
+            if (stanza.name !== 'presence' || !stanza.attrs.from) {
+                return null;
+            }
+
+            const roomJid = JIDUtils.getBare(stanza.attrs.from);
+            const nickname = JIDUtils.getNickname(stanza.attrs.from) || '';
+            const x = stanza.getChild('x', MUCNamespaces.MUC_USER);
+            const item = x?.getChild('item');
+
+            const statusCodes = (x?.getChildren('status') || [])
+                .map((status) => status.attrs.code)
+                .filter(Boolean);
+
+            const type =
+                stanza.attrs.type === 'unavailable' ||
+                stanza.attrs.type === 'error'
+                    ? stanza.attrs.type
+                    : 'available';
+
+            return {
+                roomJid,
+                nickname,
+                type,
+                occupant: {
+                    nickname,
+                    jid: item?.attrs.jid,
+                    affiliation: (item?.attrs.affiliation ||
+                        'none') as MUCAffiliation,
+                    role: (item?.attrs.role || 'none') as MUCRole,
+                },
+                statusCodes,
+                isSelf: statusCodes.includes(MUC_STATUS_CODES.SELF_PRESENCE),
+                newNickname: statusCodes.includes(MUC_STATUS_CODES.NICK_CHANGED)
+                    ? item?.attrs.nick
+                    : undefined,
+            };
+        } catch (error) {
+            return null;
+        }
+    }
+
+    /**
+     * Parse the error element of an error stanza
+     * @param stanza - The error stanza
+     * @returns XMPPError describing the condition
+     */
+    public parseError(stanza: Element): XMPPError {
+        const error = stanza.getChild('error');
+        const condition = error?.children.find(
+            (child): child is Element =>
+                typeof child !== 'string' &&
+                child.attrs.xmlns === StanzaNamespaces.ERRORS &&
+                child.name !== 'text',
+        );
+
+        return {
+            code: condition?.name || 'undefined-condition',
+            message:
+                error?.getChildText('text', StanzaNamespaces.ERRORS) ||
+                condition?.name ||
+                'Unknown room error',
+            type: (error?.attrs.type || 'cancel') as XMPPError['type'],
+        };
+    }
+}
@@ -0,0 +1,100 @@
+import { Element } from '@xmpp/xml';
+import { MessageNamespaces, MUCNamespaces } from '../../constants/namespaces';
+import { RoomHistoryOptions, RoomJoinOptions } from '../../types/muc';
+
+/**
+ * Builds XMPP stanzas for Multi-User Chat operations
+ * Implements XEP-0045: Multi-User Chat
+ */
+export class MUCQueryBuilder {
+    /**
+     * Creates a basic Element with attributes
+     * @param name - Name of the element
+     * @param attrs - Element attributes
+     * @returns New Element instance
+     */
+    private createElement(
+        name: string,
+        attrs: Record<string, string> = {},
+    ): Element {
+        return new Element(name, attrs);
+    }
+
+    /**
+     * Creates the history element limiting the discussion history sent on join
+     * @param history - History options
+     * @returns History Element
+     */
+    private createHistoryElement(history: RoomHistoryOptions): Element {
+        const attrs: Record<string, string> = {};
+
+        if (history.maxStanzas !== undefined) {
+            attrs.maxstanzas = history.maxStanzas.toString();
+        }
+        if (history.maxChars !== undefined) {
+            attrs.maxchars = history.maxChars.toString();
+        }
+        if (history.seconds !== undefined) {
+            attrs.seconds = history.seconds.toString();
+        }
+        if (history.since) {
+            attrs.since = history.since.toISOString();
+        }
+
+        return this.createElement('history', attrs);
+    }
+
+    /**
+     * Creates the MUC element attached to a join presence
+     * @param options - Join options
+     * @returns MUC x Element
+     */
+    public createJoinElement(options: RoomJoinOptions = {}): Element {
+        const x = this.createElement('x', { xmlns: MUCNamespaces.MUC });
+
+        if (options.password) {
+            const password = this.createElement('password');
+            password.children.push(options.password);
+            x.append(password);
+        }
+
+        if (options.history) {
+            x.append(this.createHistoryElement(options.history));
+        }
+
+        return x;
+    }
+
+    /**
+     * Creates a moderation request removing a message from a room
+     * Implements XEP-0425: Moderated Message Retraction
+     * @param roomJid - Bare JID of the room
+     * @param stanzaId - Stanza id the room assigned to the message
+     * @param reason - Optional reason shown to occupants
+     * @returns IQ Element
+     */
+    public createModerateRequest(
+        roomJid: string,
+        stanzaId: string,
+        reason?: string,
+    ): Element {
+        const iq = this.createElement('iq', { type: 'set', to: roomJid });
+        const moderate = this.createElement('moderate', {
+            xmlns: MessageNamespaces.MODERATE,
+            id: stanzaId,
+        });
+
+        moderate.append(
+            this.createElement('retract', { xmlns: MessageNamespaces.RETRACT }),
+        );
+
+        if (reason) {
+            const reasonElement = this.createElement('reason');
+            reasonElement.children.push(reason);
+            moderate.append(reasonElement);
+        }
+
+        iq.append(moderate);
+        return iq;
+    }
+}
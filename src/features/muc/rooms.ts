@@ -0,0 +1,318 @@
+import { Element } from '@xmpp/xml';
+import { EventEmitter } from 'events';
+import { ConnectionManager } from '../../core/connection';
+import { MessageManager } from '../messaging/messages';
+import { MUCHandler } from './handlers';
+import { MUCQueryBuilder } from './queries';
+import { MessageOptions } from '../../types/messages';
+import { RoomJoinOptions, RoomOccupant, RoomPresence } from '../../types/muc';
+import { JIDUtils } from '../../utils/jid';
+
+/**
+ * Default values for room management
+ */
+const DEFAULTS = {
+    JOIN_TIMEOUT: 10000,
+} as const;
+
+/**
+ * State kept for every room the user has joined or is joining
+ */
+interface RoomState {
+    nickname: string;
+    joined: boolean;
+    occupants: Map<string, RoomOccupant>;
+}
+
+/**
+ * A join request waiting for the room's self-presence
+ */
+interface PendingJoin {
+    resolve: () => void;
+    reject: (error: Error) => void;
+    timeout: NodeJS.Timeout;
+}
+
+/**
+ * Manages Multi-User Chat rooms
+ * Handles joining and leaving rooms, occupant tracking and group messages
+ * Implements XEP-0045: Multi-User Chat
+ */
+export class RoomManager extends EventEmitter {
+    private rooms: Map<string, RoomState> = new Map();
+    private pendingJoins: Map<string, PendingJoin> = new Map();
+    private queryBuilder: MUCQueryBuilder;
+    private handler: MUCHandler;
+
+    constructor(
+        private connection: ConnectionManager,
+        private messages: MessageManager,
+    ) {
+        super();
+        this.queryBuilder = new MUCQueryBuilder();
+        this.handler = new MUCHandler();
+    }
+
+    /**
+     * Join a room
+     * @param roomJid - Bare JID of the room
+     * @param nickname - Nickname to use inside the room
+     * @param options - Password and discussion history options
+     * @returns Promise that resolves once the room confirms the join
+     */
+    public async joinRoom(
+        roomJid: string,
+        nickname: string,
+        options: RoomJoinOptions = {},
+    ): Promise<void> {
+        const room = JIDUtils.getBare(roomJid);
+        if (this.pendingJoins.has(room)) {
+            throw new Error(`Already joining room ${room}`);
+        }
+
+        this.rooms.set(room, {
+            nickname,
+            joined: false,
+            occupants: new Map(),
+        });
+
+        const joined = new Promise<void>((resolve, reject) => {
+            const timeout = setTimeout(() => {
+                this.pendingJoins.delete(room);
+                this.rooms.delete(room);
+                reject(new Error(`Timed out joining room ${room}`));
+            }, this.connection.getConfig().timeout || DEFAULTS.JOIN_TIMEOUT);
+
+            this.pendingJoins.set(room, { resolve, reject, timeout });
+        });
+
+        try {
+            await this.connection.sendPresenceToRoom(
+                `${room}/${nickname}`,
+                'available',
+                this.queryBuilder.createJoinElement(options),
+            );
+        } catch (error) {
+            // The send error is thrown below, so nobody awaits the pending join
+            this.cancelJoin(room);
+            this.rooms.delete(room);
+            throw error;
+        }
+
+        return joined;
+    }
+
+    /**
+     * Leave a room
+     * @param roomJid - Bare JID of the room
+     */
+    public async leaveRoom(roomJid: string): Promise<void> {
+        const room = JIDUtils.getBare(roomJid);
+        const state = this.rooms.get(room);
+        if (!state) {
+            throw new Error(`Not in room ${room}`);
+        }
+
+        await this.connection.sendPresenceToRoom(
+            `${room}/${state.nickname}`,
+            'unavailable',
+        );
+    }
+
+    /**
+     * Send a message to all occupants of a room
+     * @param roomJid - Bare JID of the room
+     * @param body - Message body
+     * @param options - Message options
+     */
+    public async sendGroupMessage(
+        roomJid: string,
+        body: string,
+        options?: MessageOptions,
+    ): Promise<void> {
+        const room = JIDUtils.getBare(roomJid);
+        if (!this.rooms.get(room)?.joined) {
+            throw new Error(`Not in room ${room}`);
+        }
+
+        const message = this.messages.createGroupChatMessage(
+            room,
+            body,
+            options,
+        );
+        await this.connection.sendStanza(message);
+    }
+
+    /**
+     * Remove a message from a room for all occupants (moderators only)
+     * @param roomJid - Bare JID of the room
+     * @param stanzaId - Stanza id the room assigned to the message
+     * @param reason - Optional reason shown to occupants
+     * @throws {Error} If the room rejects the request, e.g. when not a moderator
+     */
+    public async moderateMessage(
+        roomJid: string,
+        stanzaId: string,
+        reason?: string,
+    ): Promise<void> {
+        const iq = this.queryBuilder.createModerateRequest(
+            JIDUtils.getBare(roomJid),
+            stanzaId,
+            reason,
+        );
+        await this.connection.sendIQ(iq);
+    }
+
+    /**
+     * Get the current occupants of a joined room
+     * @param roomJid - Bare JID of the room
+     */
+    public getOccupants(roomJid: string): RoomOccupant[] {
+        const state = this.rooms.get(JIDUtils.getBare(roomJid));
+        return state ? [...state.occupants.values()] : [];
+    }
+
+    /**
+     * Get the nickname used in a room
+     * @param roomJid - Bare JID of the room
+     */
+    public getNickname(roomJid: string): string | null {
+        return this.rooms.get(JIDUtils.getBare(roomJid))?.nickname || null;
+    }
+
+    /**
+     * Get the bare JIDs of all joined rooms
+     */
+    public getJoinedRooms(): string[] {
+        return [...this.rooms.entries()]
+            .filter(([, state]) => state.joined)
+            .map(([room]) => room);
+    }
+
+    /**
+     * Check if a stanza originates from a room being tracked
+     * @param stanza - The stanza to check
+     */
+    public isRoomStanza(stanza: Element): boolean {
+        if (!stanza.attrs.from) return false;
+        try {
+            return (
+                this.rooms.has(JIDUtils.getBare(stanza.attrs.from)) ||
+                this.handler.isRoomPresence(stanza)
+            );
+        } catch {
+            return false;
+        }
+    }
+
+    /**
+     * Handle a presence stanza received from a room
+     * @param stanza - The presence stanza
+     */
+    public handlePresence(stanza: Element): void {
+        const presence = this.handler.parsePresence(stanza);
+        if (!presence) return;
+
+        const state = this.rooms.get(presence.roomJid);
+        if (!state) return;
+
+        if (presence.type === 'error') {
+            this.handleError(presence.roomJid, stanza);
+            return;
+        }
+
+        const isSelf = presence.isSelf || presence.nickname === state.nickname;
+
+        if (presence.type === 'unavailable') {
+            this.handleUnavailable(state, presence, isSelf);
+        } else {
+            state.occupants.set(presence.nickname, presence.occupant);
+            if (isSelf && !state.joined) {
+                state.joined = true;
+                this.settleJoin(presence.roomJid);
+                this.emit('room:join', {
+                    roomJid: presence.roomJid,
+                    nickname: presence.nickname,
+                });
+            }
+        }
+
+        if (this.rooms.has(presence.roomJid)) {
+            this.emitOccupants(presence.roomJid, state);
+        }
+    }
+
+    /**
+     * Forget all room state, e.g. after the connection was lost
+     */
+    public reset(): void {
+        this.pendingJoins.forEach((_, room) =>
+            this.settleJoin(room, new Error('Connection closed')),
+        );
+        this.rooms.clear();
+    }
+
+    private handleUnavailable(
+        state: RoomState,
+        presence: RoomPresence,
+        isSelf: boolean,
+    ): void {
+        state.occupants.delete(presence.nickname);
+
+        if (presence.newNickname) {
+            if (isSelf) {
+                state.nickname = presence.newNickname;
+            }
+            return;
+        }
+
+        if (isSelf) {
+            this.rooms.delete(presence.roomJid);
+            this.emit('room:leave', {
+                roomJid: presence.roomJid,
+                nickname: presence.nickname,
+            });
+        }
+    }
+
+    private handleError(roomJid: string, stanza: Element): void {
+        const error = this.handler.parseError(stanza);
+        const state = this.rooms.get(roomJid);
+
+        if (state && !state.joined) {
+            this.rooms.delete(roomJid);
+            const joinError = new Error(error.message);
+            joinError.name = error.code;
+            this.settleJoin(roomJid, joinError);
+        }
+
+        this.emit('room:error', { roomJid, error });
+    }
+
+    private settleJoin(roomJid: string, error?: Error): void {
+        const pending = this.cancelJoin(roomJid);
+        if (!pending) return;
+
+        if (error) {
+            pending.reject(error);
+        } else {
+            pending.resolve();
+        }
+    }
+
+    private cancelJoin(roomJid: string): PendingJoin | undefined {
+        const pending = this.pendingJoins.get(roomJid);
+        if (!pending) return undefined;
+
+        clearTimeout(pending.timeout);
+        this.pendingJoins.delete(roomJid);
+        return pending;
+    }
+
+    private emitOccupants(roomJid: string, state: RoomState): void {
+        this.emit('room:occupants', {
+            roomJid,
+            occupants: [...state.occupants.values()],
+        });
+    }
+}
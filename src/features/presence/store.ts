@@ -0,0 +1,119 @@
+import { PresenceMessage } from '../../types/messages';
+import { JIDUtils } from '../../utils/jid';
+
+/**
+ * Ranking of availability sub-states, most available first
+ * A presence without show ranks right after 'chat'
+ */
+const SHOW_RANKING = ['chat', undefined, 'away', 'dnd', 'xa'];
+
+/**
+ * Presence of one resource, with the order it was received in
+ */
+interface ResourcePresence {
+    presence: PresenceMessage;
+    sequence: number;
+}
+
+/**
+ * Keeps the latest presence of every resource of every contact
+ * and aggregates the resources of a bare JID into its best presence
+ * The best resource has the highest priority, then the most available show,
+ * then the most recent presence
+ */
+export class PresenceStore {
+    private contacts: Map<string, Map<string, ResourcePresence>> = new Map();
+    private sequence = 0;
+
+    /**
+     * Record an availability presence
+     * Subscription and error presences are ignored
+     * @param presence - The parsed presence
+     * @returns The best presence of the contact, or null once every resource is unavailable
+     */
+    public update(presence: PresenceMessage): PresenceMessage | null {
+        if (!presence.from || presence.subscription || presence.error) {
+            return null;
+        }
+
+        const bare = JIDUtils.getBare(presence.from);
+        const resources = this.contacts.get(bare) || new Map();
+        const resource = presence.resource || '';
+
+        if (presence.status === 'unavailable') {
+            // Unavailable presence from the bare JID covers all resources
+            if (resource) {
+                resources.delete(resource);
+            } else {
+                resources.clear();
+            }
+        } else {
+            resources.set(resource, {
+                presence,
+                sequence: this.sequence++,
+            });
+        }
+
+        if (resources.size) {
+            this.contacts.set(bare, resources);
+        } else {
+            this.contacts.delete(bare);
+        }
+
+        return this.get(bare);
+    }
+
+    /**
+     * Get the presence of a contact
+     * @param jid - Bare JID for the best presence, full JID for a single resource
+     * @returns The presence, or null if unavailable
+     */
+    public get(jid: string): PresenceMessage | null {
+        const parts = JIDUtils.parse(jid);
+        const resources = this.contacts.get(JIDUtils.getBare(jid));
+        if (!resources) return null;
+
+        if (parts.resource) {
+            return resources.get(parts.resource)?.presence || null;
+        }
+        return this.rank([...resources.values()])[0]?.presence || null;
+    }
+
+    /**
+     * Get the presence of every available resource of a contact, best first
+     * @param jid - JID of the contact
+     */
+    public getResources(jid: string): PresenceMessage[] {
+        const resources = this.contacts.get(JIDUtils.getBare(jid));
+        if (!resources) return [];
+
+        return this.rank([...resources.values()]).map(
+            (entry) => entry.presence,
+        );
+    }
+
+    /**
+     * Check if any resource of a contact is available
+     * @param jid - JID of the contact
+     */
+    public isAvailable(jid: string): boolean {
+        return this.get(jid) !== null;
+    }
+
+    /**
+     * Forget all presence, e.g. when a new session starts
+     */
+    public clear(): void {
+        this.contacts.clear();
+    }
+
+    private rank(entries: ResourcePresence[]): ResourcePresence[] {
+        return entries.sort(
+            (a, b) =>
+                b.presence.priority - a.presence.priority ||
+                SHOW_RANKING.indexOf(a.presence.show) -
+                    SHOW_RANKING.indexOf(b.presence.show) ||
+                b.sequence - a.sequence,
+        );
+    }
+}
@@ -0,0 +1,42 @@
+import { ConnectionManager } from '../../core/connection';
+import {
+    PresenceMessage,
+    SubscriptionConfig,
+    SubscriptionRequest,
+} from '../../types/messages';
+import { JIDUtils } from '../../utils/jid';
+
+/**
+ * Handles incoming presence subscription requests
+ * Requests accepted by the configured policy are answered right away,
+ * all others are left for the user to accept or deny
+ * Implements RFC 6121: Managing Presence Subscriptions
+ */
+export class SubscriptionManager {
+    constructor(
+        private connection: ConnectionManager,
+        private config: SubscriptionConfig = {},
+    ) {}
+
+    /**
+     * Handle a subscribe presence
+     * @param presence - The parsed subscribe presence
+     * @returns The request if the user has to decide on it, null if it was accepted
+     */
+    public async handleRequest(
+        presence: PresenceMessage,
+    ): Promise<SubscriptionRequest | null> {
+        const request: SubscriptionRequest = {
+            from: JIDUtils.getBare(presence.from),
+            ...(presence.nick && { nick: presence.nick }),
+            ...(presence.statusText && { status: presence.statusText }),
+        };
+
+        if (this.config.autoAccept && (await this.config.autoAccept(request))) {
+            await this.connection.acceptSubscription(request.from);
+            return null;
+        }
+
+        return request;
+    }
+}
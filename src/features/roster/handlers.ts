@@ -0,0 +1,116 @@
+import { Element } from '@xmpp/xml';
+import { RosterNamespaces } from '../../constants/namespaces';
+import { RosterItem, RosterSubscription } from '../../types/roster';
+import { JIDUtils } from '../../utils/jid';
+
+/**
+ * Subscription states a roster item can have
+ */
+const SUBSCRIPTIONS: RosterSubscription[] = ['none', 'to', 'from', 'both'];
+
+/**
+ * A change pushed by the server
+ */
+export interface RosterPush {
+    version: string | null;
+    /** The updated item, or only the JID when the contact was removed */
+    item: RosterItem;
+    removed: boolean;
+}
+
+/**
+ * Handles parsing of roster stanzas
+ * Implements RFC 6121: Roster Management
+ */
+export class RosterHandler {
+    /**
+     * Check if a stanza is a roster push from the user's own server
+     * Pushes from anyone else must be ignored
+     * @param stanza - The stanza to check
+     * @param ownJid - The user's JID
+     */
+    public isRosterPush(stanza: Element, ownJid: string | null): boolean {
+        if (
+            stanza.name !== 'iq' ||
+            stanza.attrs.type !== 'set' ||
+            !stanza.getChild('query', RosterNamespaces.ROSTER)
+        ) {
+            return false;
+        }
+
+        if (!stanza.attrs.from) return true;
+        return (
+            !!ownJid &&
+            JIDUtils.getBare(stanza.attrs.from) === JIDUtils.getBare(ownJid)
+        );
+    }
+
+    /**
+     * Parse a roster result
+     * @param stanza - The IQ result
+     * @returns The roster, or null when the cached roster is up to date
+     */
+    public parseRoster(stanza: Element): {
+        version: string | null;
+        items: RosterItem[];
+    } | null {
+        const query = stanza.getChild('query', RosterNamespaces.ROSTER);
+        if (!query) return null;
+
+        return {
+            version: query.attrs.ver ?? null,
+            items: query
+                .getChildren('item')
+                .filter((item) => item.attrs.subscription !== 'remove')
+                .map((item) => this.parseItem(item))
+                .filter((item): item is RosterItem => item !== null),
+        };
+    }
+
+    /**
+     * Parse a roster push
+     * @param stanza - The IQ set pushed by the server
+     */
+    public parsePush(stanza: Element): RosterPush | null {
+        const query = stanza.getChild('query', RosterNamespaces.ROSTER);
+        const items = query?.getChildren('item') || [];
+        // A push carries exactly one item
+        if (!query || items.length !== 1) return null;
+
+        const item = this.parseItem(items[0]);
+        if (!item) return null;
+
+        return {
+            version: query.attrs.ver ?? null,
+            item,
+            removed: items[0].attrs.subscription === 'remove',
+        };
+    }
+
+    /**
+     * Parse a roster item element
+     */
+    public parseItem(element: Element): RosterItem | null {
+        if (!element.attrs.jid) return null;
+
+        const subscription = SUBSCRIPTIONS.includes(element.attrs.subscription)
+            ? (element.attrs.subscription as RosterSubscription)
+            : 'none';
+
+        return {
+            jid: JIDUtils.getBare(element.attrs.jid),
+            ...(element.attrs.name && { name: element.attrs.name }),
+            groups: element
+                .getChildren('group')
+                .map((group) => group.getText())
+                .filter(Boolean),
+            subscription,
+            ...(element.attrs.ask === 'subscribe' && {
+                ask: 'subscribe' as const,
+            }),
+            ...(['true', '1'].includes(element.attrs.approved) && {
+                approved: true,
+            }),
+        };
+    }
+}
@@ -0,0 +1,67 @@
+import { Element } from '@xmpp/xml';
+import { RosterNamespaces } from '../../constants/namespaces';
+import { RosterItemUpdate } from '../../types/roster';
+
+/**
+ * Builds XMPP stanzas for roster operations
+ * Implements RFC 6121: Roster Management
+ */
+export class RosterQueryBuilder {
+    /**
+     * Creates a roster get request
+     * @param version - Version of the cached roster, to only receive changes (XEP-0237)
+     * @returns IQ Element
+     */
+    public createGetRequest(version?: string | null): Element {
+        const iq = new Element('iq', { type: 'get' });
+        const query = new Element('query', { xmlns: RosterNamespaces.ROSTER });
+
+        // An empty version asks a versioning server for the full roster
+        if (version !== undefined && version !== null) {
+            query.attrs.ver = version;
+        }
+
+        iq.append(query);
+        return iq;
+    }
+
+    /**
+     * Creates a request adding or updating a contact
+     * @param jid - Bare JID of the contact
+     * @param update - Name and groups of the contact
+     * @returns IQ Element
+     */
+    public createSetRequest(jid: string, update: RosterItemUpdate): Element {
+        const item = new Element('item', { jid });
+        if (update.name) {
+            item.attrs.name = update.name;
+        }
+
+        [...new Set(update.groups || [])].forEach((group) => {
+            const groupElement = new Element('group');
+            groupElement.children.push(group);
+            item.append(groupElement);
+        });
+
+        return this.createItemRequest(item);
+    }
+
+    /**
+     * Creates a request removing a contact
+     * @param jid - Bare JID of the contact
+     * @returns IQ Element
+     */
+    public createRemoveRequest(jid: string): Element {
+        return this.createItemRequest(
+            new Element('item', { jid, subscription: 'remove' }),
+        );
+    }
+
+    private createItemRequest(item: Element): Element {
+        const iq = new Element('iq', { type: 'set' });
+        const query = new Element('query', { xmlns: RosterNamespaces.ROSTER });
+        query.append(item);
+        iq.append(query);
+        return iq;
+    }
+}
@@ -0,0 +1,269 @@
+import { Element } from '@xmpp/xml';
+import { EventEmitter } from 'events';
+import { ConnectionManager } from '../../core/connection';
+import { RosterHandler } from './handlers';
+import { RosterQueryBuilder } from './queries';
+import {
+    RosterCache,
+    RosterConfig,
+    RosterItem,
+    RosterItemUpdate,
+    RosterSnapshot,
+    RosterSubscription,
+} from '../../types/roster';
+import { IQError } from '../../types/connection';
+import { XMPPError } from '../../types/events';
+import { RosterNamespaces } from '../../constants/namespaces';
+import { JIDUtils } from '../../utils/jid';
+
+/**
+ * Keeps the roster in memory only
+ */
+export class MemoryRosterCache implements RosterCache {
+    private snapshot: RosterSnapshot | null = null;
+
+    public async load(): Promise<RosterSnapshot | null> {
+        return this.snapshot && copySnapshot(this.snapshot);
+    }
+
+    public async save(snapshot: RosterSnapshot): Promise<void> {
+        this.snapshot = copySnapshot(snapshot);
+    }
+}
+
+function copySnapshot(snapshot: RosterSnapshot): RosterSnapshot {
+    return {
+        version: snapshot.version,
+        items: snapshot.items.map((item) => ({
+            ...item,
+            groups: [...item.groups],
+        })),
+    };
+}
+
+/**
+ * Manages the user's contact list and the subscription state of every contact
+ * The roster is restored from the cache so versioned servers only send what changed
+ * Implements RFC 6121: Roster Management and XEP-0237: Roster Versioning
+ */
+export class RosterManager extends EventEmitter {
+    private items: Map<string, RosterItem> = new Map();
+    private version: string | null = null;
+    private cache: RosterCache;
+    private restored: Promise<void> | null = null;
+    private queryBuilder: RosterQueryBuilder;
+    private handler: RosterHandler;
+
+    constructor(
+        private connection: ConnectionManager,
+        config: RosterConfig = {},
+    ) {
+        super();
+        this.cache = config.cache || new MemoryRosterCache();
+        this.queryBuilder = new RosterQueryBuilder();
+        this.handler = new RosterHandler();
+
+        this.connection.registerIQHandler(
+            RosterNamespaces.ROSTER,
+            'set',
+            (iq) => this.answerPush(iq),
+        );
+    }
+
+    /**
+     * Fetch the roster from the server
+     * Sends the cached version so the server can answer with pushes for the changes only
+     * The version is only sent to servers advertising roster versioning (RFC 6121 2.6)
+     * @returns All contacts on the roster
+     */
+    public async getRoster(): Promise<RosterItem[]> {
+        await this.restore();
+
+        const version = this.connection.supportsRosterVersioning()
+            ? (this.version ?? '')
+            : undefined;
+        const response = await this.connection.sendIQ(
+            this.queryBuilder.createGetRequest(version),
+        );
+
+        // An empty result means the cached roster is current
+        const roster = this.handler.parseRoster(response);
+        if (roster) {
+            this.items = new Map(roster.items.map((item) => [item.jid, item]));
+            this.version = roster.version;
+            await this.save();
+        }
+
+        return this.getContacts();
+    }
+
+    /**
+     * Get all known contacts without querying the server
+     */
+    public getContacts(): RosterItem[] {
+        return [...this.items.values()].map((item) => this.copyItem(item));
+    }
+
+    /**
+     * Get a contact of the roster
+     * @param jid - JID of the contact
+     */
+    public getContact(jid: string): RosterItem | null {
+        const item = this.items.get(JIDUtils.getBare(jid));
+        return item ? this.copyItem(item) : null;
+    }
+
+    /**
+     * Get the subscription state towards a contact
+     * @param jid - JID of the contact
+     */
+    public getSubscription(jid: string): RosterSubscription {
+        return this.items.get(JIDUtils.getBare(jid))?.subscription || 'none';
+    }
+
+    /**
+     * Get the roster version the cached roster corresponds to
+     */
+    public getVersion(): string | null {
+        return this.version;
+    }
+
+    /**
+     * Add a contact to the roster
+     * The roster itself is updated by the push the server sends in return
+     * @param jid - JID of the contact
+     * @param name - Display name of the contact
+     * @param groups - Groups the contact belongs to
+     */
+    public async addContact(
+        jid: string,
+        name?: string,
+        groups: string[] = [],
+    ): Promise<void> {
+        await this.connection.sendIQ(
+            this.queryBuilder.createSetRequest(JIDUtils.getBare(jid), {
+                name,
+                groups,
+            }),
+        );
+    }
+
+    /**
+     * Change the name or groups of a contact
+     * Fields that are not given keep their current value
+     * @param jid - JID of the contact
+     * @param update - The new name and/or groups
+     * @throws {Error} If the contact is not on the roster
+     */
+    public async updateContact(
+        jid: string,
+        update: RosterItemUpdate,
+    ): Promise<void> {
+        const bare = JIDUtils.getBare(jid);
+        const item = this.items.get(bare);
+        if (!item) {
+            throw new Error(`${bare} is not in the roster`);
+        }
+
+        // Roster sets replace the whole item
+        await this.connection.sendIQ(
+            this.queryBuilder.createSetRequest(bare, {
+                name: update.name ?? item.name,
+                groups: update.groups ?? item.groups,
+            }),
+        );
+    }
+
+    /**
+     * Remove a contact from the roster, cancelling subscriptions in both directions
+     * @param jid - JID of the contact
+     */
+    public async removeContact(jid: string): Promise<void> {
+        await this.connection.sendIQ(
+            this.queryBuilder.createRemoveRequest(JIDUtils.getBare(jid)),
+        );
+    }
+
+    /**
+     * Check if a stanza is a roster push from the user's server
+     * @param stanza - The stanza to check
+     */
+    public isRosterPush(stanza: Element): boolean {
+        const ownJid = this.connection.getClient()?.jid?.toString() || null;
+        return this.handler.isRosterPush(stanza, ownJid);
+    }
+
+    /**
+     * Apply a roster push sent by the server
+     * @param stanza - The IQ set pushed by the server
+     */
+    public async handlePush(stanza: Element): Promise<void> {
+        if (!this.isRosterPush(stanza)) return;
+
+        const push = this.handler.parsePush(stanza);
+        if (!push) return;
+
+        await this.restore();
+
+        if (push.removed) {
+            this.items.delete(push.item.jid);
+        } else {
+            this.items.set(push.item.jid, push.item);
+        }
+        this.version = push.version ?? this.version;
+        await this.save();
+
+        if (push.removed) {
+            this.emit('roster:remove', { jid: push.item.jid });
+        } else {
+            this.emit('roster:update', this.copyItem(push.item));
+        }
+    }
+
+    /**
+     * Acknowledge a roster push, refusing pushes from anyone but the user's server
+     */
+    private async answerPush(iq: Element): Promise<void> {
+        if (!this.isRosterPush(iq)) {
+            throw new IQError('service-unavailable');
+        }
+
+        try {
+            await this.handlePush(iq);
+        } catch (error) {
+            this.emit('roster:error', {
+                code: 'ROSTER_ERROR',
+                message: (error as Error).message,
+                type: 'cancel',
+            } as XMPPError);
+            throw error;
+        }
+    }
+
+    /**
+     * Load the cached roster once, before the first query or push
+     */
+    private restore(): Promise<void> {
+        if (!this.restored) {
+            this.restored = this.cache.load().then((snapshot) => {
+                if (!snapshot) return;
+                this.items = new Map(
+                    snapshot.items.map((item) => [item.jid, item]),
+                );
+                this.version = snapshot.version;
+            });
+        }
+        return this.restored;
+    }
+
+    private async save(): Promise<void> {
+        await this.cache.save({
+            version: this.version,
+            items: [...this.items.values()],
+        });
+    }
+
+    private copyItem(item: RosterItem): RosterItem {
+        return { ...item, groups: [...item.groups] };
+    }
+}
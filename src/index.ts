@@ -1,6 +1,21 @@
 // Core exports
 export { EjabberdClient } from './client';
 export { ConnectionManager } from './core/connection';
+export { RoomManager } from './features/muc/rooms';
+export { ArchiveManager } from './features/mam/archive';
+export {
+    OutboxManager,
+    MemoryOutboxStorage,
+} from './features/messaging/outbox';
+export { CarbonsManager } from './features/messaging/carbons';
+export type { CarbonCopy } from './features/messaging/carbons';
+export { RosterManager, MemoryRosterCache } from './features/roster/roster';
+export { PresenceStore } from './features/presence/store';
+export { DiscoManager } from './features/disco/disco';
+export { CapsManager, generateCapsHash } from './features/disco/caps';
+export { mergeCorrections } from './features/messaging/corrections';
+export { mergeRetractions } from './features/messaging/retractions';
+export { mergeReactions, applyReaction } from './features/messaging/reactions';
 
 // Utils exports
 export { JIDUtils } from './utils/jid';
@@ -10,11 +25,18 @@ export type {
     ConnectionConfig,
     ConnectionState,
     ConnectionError,
+    StreamManagementState,
+    IQHandler,
+    SoftwareVersion,
 } from './types/connection';
+export { IQError } from './types/connection';
 export type {
     XMPPError,
     CompositionState,
     ChatStateEvent,
+    MessageCorrectedEvent,
+    MessageRetractedEvent,
+    MessageReactionsEvent,
     ReceiptEvent,
 } from './types/events';
 export type {
@@ -25,10 +47,93 @@ export type {
     MessageOptions,
     DeliveryStatus,
     PresenceMessage,
+    PresenceShow,
+    PresenceSubscriptionType,
+    PresenceOptions,
+    SubscriptionRequest,
+    SubscriptionRequestOptions,
+    SubscriptionConfig,
+    ChatStateConfig,
+    RetractionInfo,
+    ReactionUpdate,
+    MessageReaction,
+    ReplyInfo,
+    MessageDirection,
 } from './types/messages';
+export type {
+    MessageReadStatus,
+    MessageStatusConfig,
+    ChatMarker,
+    ChatMarkerType,
+} from './types/message_status';
 export type {
     MAMQueryOptions,
     MAMResult,
     MAMFilterOptions,
     RSMOptions,
+    ArchiveIterateOptions,
+    MAMFormField,
 } from './types/mam';
+export { MAMQueryError } from './types/mam';
+export type {
+    RoomJoinOptions,
+    RoomHistoryOptions,
+    RoomOccupant,
+    MUCAffiliation,
+    MUCRole,
+} from './types/muc';
+export type {
+    OutboxConfig,
+    OutboxEntry,
+    OutboxEntryState,
+    OutboxStorage,
+} from './types/outbox';
+export type {
+    RosterItem,
+    RosterItemUpdate,
+    RosterSubscription,
+    RosterSnapshot,
+    RosterCache,
+    RosterConfig,
+} from './types/roster';
+export type {
+    DiscoConfig,
+    DiscoExtension,
+    DiscoIdentity,
+    DiscoInfo,
+    DiscoItem,
+    EntityCaps,
+} from './types/disco';
+export type {
+    UploadConfig,
+    MimePolicy,
+    ContentTypeLookup,
+    UploadService,
+    UploadOptions,
+    AttachmentInfo,
+    AttachmentSource,
+    DataAttachmentSource,
+    StreamAttachmentSource,
+    PathAttachmentSource,
+    UploadProgress,
+    UploadComplete,
+    UploadFailure,
+    FileErrorCode,
+    FileUploadSlot,
+    SupportedMimeType,
+} from './types/files';
+export { FileError } from './features/messaging/attachments';
+export {
+    PreparedAttachment,
+    prepareAttachment,
+} from './features/files/sources';
+export {
+    detectContentType,
+    sniffContentType,
+} from './features/files/detection';
+export type { ContentTypeDetection } from './features/files/detection';
+export {
+    MimeTypePolicy,
+    matchesMimePattern,
+    lookupMimeType,
+} from './features/files/policy';
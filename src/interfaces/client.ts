@@ -1,8 +1,32 @@
-import { ConnectionState } from '../types/connection';
-import { MessageOptions, XMPPMessage } from '../types/messages';
-import { MAMQueryOptions } from '../types/mam';
-import { MessageReadStatus } from '../types/message_status';
-import { XMPPError } from '../types/events';
+import { ConnectionState, StreamManagementState } from '../types/connection';
+import {
+    MessageOptions,
+    PresenceMessage,
+    PresenceOptions,
+    SubscriptionRequest,
+    SubscriptionRequestOptions,
+    XMPPMessage,
+} from '../types/messages';
+import { MAMQueryOptions, MAMResult } from '../types/mam';
+import { ChatMarker, MessageReadStatus } from '../types/message_status';
+import {
+    ChatStateEvent,
+    CompositionState,
+    MessageCorrectedEvent,
+    MessageRetractedEvent,
+    MessageReactionsEvent,
+    ReceiptEvent,
+    XMPPError,
+} from '../types/events';
+import { RoomManager } from '../features/muc/rooms';
+import { ArchiveManager } from '../features/mam/archive';
+import { OutboxManager } from '../features/messaging/outbox';
+import { CarbonsManager } from '../features/messaging/carbons';
+import { RosterManager } from '../features/roster/roster';
+import { RosterItem } from '../types/roster';
+import { PresenceStore } from '../features/presence/store';
+import { DiscoManager } from '../features/disco/disco';
+import { AttachmentSource, UploadConfig, UploadOptions } from '../types/files';
 
 /**
  * Event types that can be emitted by the XMPP client
@@ -11,8 +35,21 @@ export interface ClientEvents {
     status: (status: ConnectionState) => void;
     error: (error: XMPPError) => void;
     message: (message: XMPPMessage) => void;
-    presence: (presence: XMPPMessage) => void;
-    receipt: (receipt: { id: string; type: 'received' | 'displayed' }) => void;
+    presence: (presence: PresenceMessage) => void;
+    'presence:available': (presence: PresenceMessage) => void;
+    'presence:unavailable': (presence: PresenceMessage) => void;
+    'presence:subscription': (presence: PresenceMessage) => void;
+    'presence:subscribe': (request: SubscriptionRequest) => void;
+    'presence:error': (error: XMPPError) => void;
+    chatState: (event: ChatStateEvent) => void;
+    'message:corrected': (event: MessageCorrectedEvent) => void;
+    'message:retracted': (event: MessageRetractedEvent) => void;
+    'message:reactions': (event: MessageReactionsEvent) => void;
+    marker: (marker: ChatMarker) => void;
+    receipt: (receipt: ReceiptEvent) => void;
+    'roster:update': (item: RosterItem) => void;
+    'roster:remove': (data: { jid: string }) => void;
+    'roster:error': (error: XMPPError) => void;
     mamResult: (result: { messages: XMPPMessage[]; complete: boolean }) => void;
     'message:read': (data: {
         messageId: string;
@@ -33,6 +70,17 @@ export interface ClientEvents {
  * Implements XEP-0363 (HTTP File Upload)
  * Implements XEP-0313 (Message Archive Management)
  * Implements XEP-0184 (Message Delivery Receipts)
+ * Implements XEP-0045 (Multi-User Chat)
+ * Implements XEP-0085 (Chat State Notifications)
+ * Implements XEP-0308 (Last Message Correction)
+ * Implements XEP-0424 (Message Retraction)
+ * Implements XEP-0425 (Moderated Message Retraction)
+ * Implements XEP-0444 (Message Reactions)
+ * Implements XEP-0333 (Chat Markers)
+ * Implements XEP-0280 (Message Carbons)
+ * Implements RFC 6121 (Roster Management) and XEP-0237 (Roster Versioning)
+ * Implements XEP-0030 (Service Discovery)
+ * Implements XEP-0115 (Entity Capabilities)
  */
 export interface IXMPPClient {
     /**
@@ -42,6 +90,7 @@ export interface IXMPPClient {
     disconnect(): Promise<void>;
     getStatus(): ConnectionState;
     getUserJID(): string | null;
+    getStreamManagementState(): StreamManagementState;
 
     /**
      * Messaging
@@ -51,26 +100,75 @@ export interface IXMPPClient {
         body: string,
         options?: MessageOptions,
     ): Promise<void>;
-    sendAttachment(to: string, body: string, file: File): Promise<void>;
+    sendAttachment(
+        to: string,
+        body: string,
+        file: AttachmentSource,
+        options?: UploadOptions,
+    ): Promise<void>;
+    uploadConfig(): Promise<UploadConfig>;
+    correctMessage(
+        to: string,
+        originalId: string,
+        newBody: string,
+    ): Promise<void>;
+    retractMessage(to: string, messageId: string): Promise<void>;
+    react(to: string, messageId: string, emojis: string[]): Promise<void>;
+    setChatState(to: string, state: CompositionState): Promise<void>;
+    readonly outbox: OutboxManager;
+    readonly carbons: CarbonsManager;
 
     /**
      * Message Archive Management (MAM)
      */
-    queryArchive(options: MAMQueryOptions): Promise<void>;
+    queryArchive(options: MAMQueryOptions): Promise<MAMResult>;
+    readonly archive: ArchiveManager;
+
+    /**
+     * Multi-User Chat (MUC)
+     */
+    readonly rooms: RoomManager;
+
+    /**
+     * Service Discovery
+     */
+    readonly disco: DiscoManager;
+    serverFeatures(): Promise<string[]>;
+    peerSupports(fullJid: string, feature: string): Promise<boolean>;
+
+    /**
+     * Roster Management
+     */
+    readonly roster: RosterManager;
 
     /**
      * Presence Management
      */
-    broadcastPresence(type: 'available' | 'unavailable'): Promise<void>;
-    subscribeToPresence(jid: string): Promise<void>;
+    broadcastPresence(
+        presence?: 'available' | 'unavailable' | PresenceOptions,
+    ): Promise<void>;
+    readonly presence: PresenceStore;
+    subscribeToPresence(
+        jid: string,
+        options?: SubscriptionRequestOptions,
+    ): Promise<void>;
     probePresence(jid: string): Promise<void>;
     acceptSubscription(jid: string): Promise<void>;
+    denySubscription(jid: string): Promise<void>;
+    cancelSubscription(jid: string): Promise<void>;
+    unsubscribe(jid: string): Promise<void>;
+    preApproveSubscription(jid: string): Promise<void>;
+    supportsPreApproval(): boolean;
 
     /**
      * Message Status Management
      */
     markMessageAsRead(message: XMPPMessage): Promise<void>;
     markMessageAsDelivered(message: XMPPMessage): Promise<void>;
+    markMessagesAsReadUpTo(
+        messages: XMPPMessage[],
+        messageId: string,
+    ): Promise<void>;
     getMessageStatus(
         messageId: string,
         jid: string,
@@ -1,5 +1,11 @@
 import { Element } from '@xmpp/xml';
+import { XMPPError } from './events';
 import { UploadConfig } from './files';
+import { OutboxConfig } from './outbox';
+import { ChatStateConfig, SubscriptionConfig } from './messages';
+import { MessageStatusConfig } from './message_status';
+import { RosterConfig } from './roster';
+import { DiscoConfig } from './disco';
 
 /**
  * Configuration for XMPP connection
@@ -12,8 +18,35 @@ export interface ConnectionConfig {
     resource?: string;
     timeout?: number;
     attachmentConfig?: UploadConfig;
+    streamManagement?: boolean;
+    outbox?: OutboxConfig;
+    chatStates?: ChatStateConfig;
+    messageStatus?: MessageStatusConfig;
+    carbons?: boolean;
+    roster?: RosterConfig;
+    subscriptions?: SubscriptionConfig;
+    disco?: DiscoConfig;
+    software?: SoftwareVersion;
 }
 
+/**
+ * Software name and version reported to other entities (XEP-0092)
+ */
+export interface SoftwareVersion {
+    name: string;
+    version: string;
+    os?: string;
+}
+
+/**
+ * Answers an incoming IQ request
+ * Returns the payload of the result, nothing for an empty result,
+ * or throws an IQError to answer with an error
+ */
+export type IQHandler = (
+    iq: Element,
+) => Element | void | Promise<Element | void>;
+
 /**
  * Connection states
  */
@@ -21,6 +54,7 @@ export type ConnectionState =
     | 'online'
     | 'offline'
     | 'connecting'
+    | 'resuming'
     | 'connected'
     | 'authenticating'
     | 'authenticated'
@@ -28,6 +62,19 @@ export type ConnectionState =
     | 'disconnected'
     | 'error';
 
+/**
+ * Stream Management (XEP-0198) session state
+ */
+export interface StreamManagementState {
+    enabled: boolean;
+    resumable: boolean;
+    id: string | null;
+    max: number | null;
+    inbound: number;
+    outbound: number;
+    unacked: number;
+}
+
 /**
  * Connection events
  */
@@ -37,6 +84,8 @@ export interface ConnectionEvents {
     online: () => void;
     offline: () => void;
     stanza: (stanza: Element) => void;
+    'stanza:acked': (stanza: Element) => void;
+    'stanza:failed': (stanza: Element) => void;
 }
 
 /**
@@ -51,3 +100,16 @@ export class ConnectionError extends Error {
         this.name = 'ConnectionError';
     }
 }
+
+/**
+ * Error condition sent back to the sender of an IQ request
+ */
+export class IQError extends Error {
+    constructor(
+        public readonly condition: string,
+        public readonly type: XMPPError['type'] = 'cancel',
+    ) {
+        super(condition);
+        this.name = 'IQError';
+    }
+}
@@ -0,0 +1,62 @@
+/**
+ * An identity of an entity, e.g. server/im or store/file
+ */
+export interface DiscoIdentity {
+    category: string;
+    type: string;
+    name?: string;
+    lang?: string;
+}
+
+/**
+ * Extended information attached to disco#info (XEP-0128)
+ * Fields are keyed by variable name
+ */
+export interface DiscoExtension {
+    formType: string;
+    fields: Record<string, string[]>;
+}
+
+/**
+ * Identities and features of an entity
+ */
+export interface DiscoInfo {
+    jid: string;
+    node?: string;
+    identities: DiscoIdentity[];
+    features: string[];
+    extensions: DiscoExtension[];
+}
+
+/**
+ * An item associated with an entity, usually a service
+ */
+export interface DiscoItem {
+    jid: string;
+    node?: string;
+    name?: string;
+}
+
+/**
+ * Service discovery configuration
+ */
+export interface DiscoConfig {
+    /** How long results are cached in milliseconds */
+    cacheTtl?: number;
+    /** Identity the client advertises to other entities */
+    identity?: DiscoIdentity;
+    /** Node identifying the client software in entity capabilities */
+    capsNode?: string;
+}
+
+/**
+ * Entity capabilities advertised in presence (XEP-0115)
+ */
+export interface EntityCaps {
+    /** Hash function, only sha-1 can be verified */
+    hash: string;
+    /** Identifies the software of the entity */
+    node: string;
+    /** Hash of the entity's identities and features */
+    ver: string;
+}
@@ -5,11 +5,18 @@ import {
     GroupChatMessage,
     FileMessage,
     PresenceMessage,
+    SubscriptionRequest,
 } from './messages';
 import { ConnectionState } from './connection';
 import { MAMResult } from './mam';
+import { RoomOccupant } from './muc';
+import { OutboxEntry } from './outbox';
+import { UploadComplete, UploadFailure, UploadProgress } from './files';
+import { RosterItem } from './roster';
+import { ChatMarker } from './message_status';
 
-export type CompositionState = 'active' | 'paused' | 'gone' | 'inactive';
+export type CompositionState =
+    'active' | 'composing' | 'paused' | 'gone' | 'inactive';
 
 export interface XMPPError {
     code: string;
@@ -18,13 +25,39 @@ export interface XMPPError {
 }
 
 export interface ChatStateEvent {
+    from: string;
+    to: string;
     state: CompositionState;
 }
 
+export interface MessageCorrectedEvent {
+    originalId: string;
+    message: XMPPMessage;
+}
+
+export interface MessageRetractedEvent {
+    /** Id of the retracted message */
+    id: string;
+    from: string;
+    moderated: boolean;
+    by?: string;
+    reason?: string;
+}
+
+export interface MessageReactionsEvent {
+    /** Id of the message reacted to */
+    id: string;
+    from: string;
+    /** The sender's full set of reactions, empty when they were removed */
+    emojis: string[];
+}
+
 export interface ReceiptEvent {
     from: string;
     id: string;
     type: 'received' | 'displayed' | 'failed';
+    /** Why the message bounced, for failed receipts */
+    error?: XMPPError;
 }
 
 export interface MessageReadEvent {
@@ -39,28 +72,43 @@ export interface XMPPEvents {
     stanza: Element;
     'stanza:error': Element;
     'stanza:sent': Element;
+    'stanza:acked': Element;
+    'stanza:failed': Element;
     message: XMPPMessage;
     'message:chat': ChatMessage;
     'message:groupchat': GroupChatMessage;
     'message:file': FileMessage;
     'message:error': XMPPError;
+    'message:corrected': MessageCorrectedEvent;
+    'message:retracted': MessageRetractedEvent;
+    'message:reactions': MessageReactionsEvent;
     'message:read': MessageReadEvent;
     'message:delivered': MessageReadEvent;
     'message:read:error': XMPPError;
     'message:delivered:error': XMPPError;
     chatState: ChatStateEvent;
     receipt: ReceiptEvent;
+    marker: ChatMarker;
     presence: PresenceMessage;
     'presence:available': PresenceMessage;
     'presence:unavailable': PresenceMessage;
+    'presence:subscription': PresenceMessage;
+    'presence:subscribe': SubscriptionRequest;
     'presence:error': XMPPError;
     'room:join': { roomJid: string; nickname: string };
     'room:leave': { roomJid: string; nickname: string };
     'room:error': { roomJid: string; error: XMPPError };
-    'roster:update': {
-        jid: string;
-        subscription: 'none' | 'to' | 'from' | 'both';
-    };
+    'room:occupants': { roomJid: string; occupants: RoomOccupant[] };
+    'roster:update': RosterItem;
+    'roster:remove': { jid: string };
     'roster:error': XMPPError;
     mamResult: MAMResult;
+    'outbox:queued': OutboxEntry;
+    'outbox:sent': OutboxEntry;
+    'outbox:failed': OutboxEntry;
+    'outbox:cancelled': OutboxEntry;
+    'outbox:error': XMPPError;
+    'upload:progress': UploadProgress;
+    'upload:complete': UploadComplete;
+    'upload:failed': UploadFailure;
 }
@@ -1,3 +1,5 @@
+import type { Readable } from 'stream';
+
 export const SUPPORTED_MIME_TYPES = {
     // Images
     'image/jpeg': ['.jpg', '.jpeg'] as const,
@@ -34,21 +36,144 @@ export interface FileUploadSlot {
     getHeaders: Record<string, string>;
 }
 
+/**
+ * Name, size and content type of an attachment, as sent in the slot request and the message
+ */
+export interface AttachmentInfo {
+    name: string;
+    size: number;
+    type: string;
+}
+
+/**
+ * Attachment held in memory
+ */
+export interface DataAttachmentSource {
+    data: Blob | Uint8Array;
+    name: string;
+    // Content type, looked up from the name when not given
+    type?: string;
+}
+
+/**
+ * Attachment read from a Node stream, which is uploaded once and never retried
+ */
+export interface StreamAttachmentSource {
+    stream: Readable;
+    // Number of bytes the stream delivers
+    size: number;
+    name: string;
+    type?: string;
+}
+
+/**
+ * File on the server's disk, streamed from the path on every attempt
+ */
+export interface PathAttachmentSource {
+    path: string;
+    // Defaults to the file name of the path
+    name?: string;
+    type?: string;
+}
+
+/**
+ * Anything that can be sent as an attachment
+ */
+export type AttachmentSource =
+    File | DataAttachmentSource | StreamAttachmentSource | PathAttachmentSource;
+
 export interface FileUploadSlotOptions {
     filename: string;
     size: number;
     contentType: string;
     domain: string;
+    // JID of the upload service, upload.<domain> when not given
+    service?: string;
 }
 
+/**
+ * HTTP upload service found through service discovery
+ */
+export interface UploadService {
+    jid: string;
+    maxFileSize?: number;
+}
+
+/**
+ * Finds the content type of a file name, undefined for unknown extensions
+ */
+export type ContentTypeLookup = (name: string) => string | undefined;
+
+/**
+ * Content types that may be uploaded
+ * Patterns are exact types, wildcards such as image/* or * for any type
+ */
+export interface MimePolicy {
+    // Allowed patterns (default: allowedMimeTypes, else SUPPORTED_MIME_TYPES)
+    allow?: string[];
+    // Patterns rejected even when allowed
+    deny?: string[];
+    // Maximum size in bytes per pattern, the most specific pattern applies
+    maxSizes?: Record<string, number>;
+    // Extensions of content types, checked before the built-in mappings
+    extensions?: Record<string, string[]>;
+}
+
+/**
+ * Upload settings; service and maxFileSize are discovered when not given
+ */
 export interface UploadConfig {
+    service?: string;
     maxFileSize?: number;
-    allowedMimeTypes?: SupportedMimeType[];
-    uploadEndpoint: string;
+    allowedMimeTypes?: string[];
+    policy?: MimePolicy;
+    uploadEndpoint?: string;
     downloadEndpoint?: string;
     headers?: Record<string, string>;
 }
 
+/**
+ * Reasons an attachment could not be uploaded
+ */
+export type FileErrorCode =
+    | 'SIZE_EXCEEDED'
+    | 'INVALID_TYPE'
+    | 'TYPE_MISMATCH'
+    | 'UPLOAD_FAILED'
+    | 'UPLOAD_CANCELLED'
+    | 'DOWNLOAD_FAILED';
+
+/**
+ * Options for a single upload
+ */
+export interface UploadOptions {
+    // Client-side id of the upload, generated when not given
+    id?: string;
+    onProgress?: (progress: UploadProgress) => void;
+    // Aborts the upload, which then fails with UPLOAD_CANCELLED
+    signal?: AbortSignal;
+    // Attempts with a new slot after a transient HTTP failure (default: 2)
+    retries?: number;
+}
+
+export interface UploadProgress {
+    id: string;
+    loaded: number;
+    total: number;
+}
+
+export interface UploadComplete {
+    id: string;
+    slot: FileUploadSlot;
+    file: AttachmentInfo;
+}
+
+export interface UploadFailure {
+    id: string;
+    code: FileErrorCode;
+    message: string;
+}
+
 /**
  * Custom error class for file upload related errors
  * Used to distinguish file upload errors from other types of errors
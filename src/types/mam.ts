@@ -5,8 +5,17 @@ import { XMPPMessage } from './messages';
  */
 export interface FormField {
     name: string;
-    value: string | number | boolean;
-    type?: 'hidden' | 'text-single' | 'boolean' | 'list-single';
+    value: string | number | boolean | string[];
+    type?: 'hidden' | 'text-single' | 'boolean' | 'list-single' | 'list-multi';
+}
+
+/**
+ * A field advertised by the server's MAM query form
+ */
+export interface MAMFormField {
+    name: string;
+    type?: string;
+    label?: string;
 }
 
 /**
@@ -29,13 +38,21 @@ export interface MAMFilterOptions {
     fullText?: string;
     hasFile?: boolean;
     messageTypes?: Array<'chat' | 'groupchat' | 'normal'>;
+    fields?: Record<string, string | number | boolean | string[]>;
 }
 
+/**
+ * Identifies an archive: its JID, node and query namespace
+ */
+export type MAMArchive = Pick<MAMQueryOptions, 'to' | 'node' | 'namespace'>;
+
 /**
  * Options for MAM (Message Archive Management) queries
  */
 export interface MAMQueryOptions {
     queryId?: string;
+    /** JID of the archive, e.g. a room; the user's own archive by default */
+    to?: string;
     with?: string;
     node?: string;
     start?: Date;
@@ -46,6 +63,8 @@ export interface MAMQueryOptions {
     filters?: MAMFilterOptions;
     rsm?: RSMOptions;
     namespace?: string;
+    timeout?: number;
+    signal?: AbortSignal;
 }
 
 /**
@@ -66,3 +85,37 @@ export interface MAMResult {
     messages: XMPPMessage[];
     rsm?: ResultSetManagement;
 }
+
+/**
+ * Options for iterating through the whole message archive
+ */
+export interface ArchiveIterateOptions {
+    /** JID of the archive, e.g. a room; the user's own archive by default */
+    to?: string;
+    with?: string;
+    start?: Date;
+    end?: Date;
+    pageSize?: number;
+    direction?: 'forward' | 'backward';
+    signal?: AbortSignal;
+    timeout?: number;
+}
+
+/**
+ * Custom error class for MAM query related errors
+ * Used when a query uses filters the server does not support
+ */
+export class MAMQueryError extends Error {
+    constructor(
+        message: string,
+        public readonly field?: string,
+    ) {
+        super(message);
+        this.name = 'MAMQueryError';
+
+        // Maintains proper stack trace for where our error was thrown (only available on V8)
+        if (Error.captureStackTrace) {
+            Error.captureStackTrace(this, MAMQueryError);
+        }
+    }
+}
@@ -7,6 +7,36 @@ export interface MessageReadStatus {
     timestamp?: number;
 }
 
+/**
+ * Message status configuration
+ */
+export interface MessageStatusConfig {
+    /**
+     * Use the custom mod_message_status IQs next to the standard markers (default: true)
+     * Without them statuses are only exchanged through receipts and chat markers
+     */
+    statusIQ?: boolean;
+    /**
+     * Answer delivery receipt requests of incoming messages automatically (default: false)
+     */
+    autoReceipts?: boolean;
+}
+
+/**
+ * Chat marker types (XEP-0333)
+ */
+export type ChatMarkerType = 'received' | 'displayed' | 'acknowledged';
+
+/**
+ * Chat marker received from a contact
+ * A marker applies to the referenced message and every message sent before it
+ */
+export interface ChatMarker {
+    from: string;
+    id: string;
+    type: ChatMarkerType;
+}
+
 /**
  * Message status request interface
  */
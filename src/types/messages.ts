@@ -1,4 +1,6 @@
 import { MessageReadStatus } from './message_status';
+import { CompositionState, XMPPError } from './events';
+import { EntityCaps } from './disco';
 
 export interface BaseMessage {
     id: string;
@@ -7,6 +9,64 @@ export interface BaseMessage {
     to: string;
     time: Date;
     readStatus?: MessageReadStatus;
+    /** Id of the message this one corrects (XEP-0308) */
+    replaces?: string;
+    /** Set when the body was replaced by a correction */
+    corrected?: boolean;
+    /** Set when this message asks to retract another one (XEP-0424) */
+    retracts?: RetractionInfo;
+    /** Set when this message is the tombstone of a retracted message */
+    retracted?: RetractionInfo;
+    /** Set when this message carries reactions to another one (XEP-0444) */
+    reactsTo?: ReactionUpdate;
+    /** Reactions aggregated onto this message */
+    reactions?: MessageReaction[];
+    /** The message this one replies to (XEP-0461) */
+    replyTo?: ReplyInfo;
+    /** Set when the sender asked for chat markers (XEP-0333) */
+    markable?: boolean;
+    /** Set when the sender asked for a delivery receipt (XEP-0184) */
+    receiptRequested?: boolean;
+    /** Outgoing messages were sent by the user, e.g. from another device */
+    direction?: MessageDirection;
+    /** Set when the message is a copy for another resource (XEP-0280) */
+    carbon?: boolean;
+}
+
+export type MessageDirection = 'incoming' | 'outgoing';
+
+export interface ReplyInfo {
+    /** Id of the message replied to: its id in chats, stanza id in rooms */
+    id: string;
+    /** JID of the author of the message replied to */
+    jid: string;
+    /** Quoted text, sent as fallback for clients without reply support */
+    quotedText?: string;
+}
+
+export interface ReactionUpdate {
+    /** Id of the message reacted to: its id in chats, stanza id in rooms */
+    id: string;
+    /** The sender's full set of reactions, empty when they were removed */
+    emojis: string[];
+}
+
+export interface MessageReaction {
+    emoji: string;
+    /** Bare JIDs of contacts or occupant JIDs in rooms */
+    senders: string[];
+}
+
+export interface RetractionInfo {
+    /** Id of the retracted message: origin id in chats, stanza id in rooms */
+    id: string;
+    /** True when a room moderator removed the message (XEP-0425) */
+    moderated: boolean;
+    /** Occupant JID of the moderator */
+    by?: string;
+    reason?: string;
+    /** When the message was retracted (tombstones only) */
+    stamp?: Date;
 }
 
 export interface ChatMessage extends BaseMessage {
@@ -30,10 +90,71 @@ export interface GroupChatMessage extends BaseMessage {
     nickname: string;
 }
 
+/**
+ * Availability sub-state of an available presence
+ */
+export type PresenceShow = 'away' | 'chat' | 'dnd' | 'xa';
+
+/**
+ * Presence types used to manage subscriptions
+ */
+export type PresenceSubscriptionType =
+    'subscribe' | 'subscribed' | 'unsubscribe' | 'unsubscribed';
+
 export interface PresenceMessage {
     type: 'presence';
     from: string;
+    /** Availability, only meaningful when neither subscription nor error is set */
     status: 'available' | 'unavailable';
+    /** Resource of the sender, if the presence came from a full JID */
+    resource?: string;
+    show?: PresenceShow;
+    /** Human readable status message */
+    statusText?: string;
+    /** Resource priority from -128 to 127 (default 0) */
+    priority: number;
+    subscription?: PresenceSubscriptionType;
+    /** Nickname the sender suggests, usually sent with subscription requests */
+    nick?: string;
+    /** Entity capabilities of the sending resource */
+    caps?: EntityCaps;
+    error?: XMPPError;
+}
+
+/**
+ * A subscription request waiting for the user to accept or deny it
+ */
+export interface SubscriptionRequest {
+    /** Bare JID of the contact asking to see the user's presence */
+    from: string;
+    nick?: string;
+    /** Message sent along with the request */
+    status?: string;
+}
+
+/**
+ * Nickname and message sent along with a subscription request
+ */
+export interface SubscriptionRequestOptions {
+    nick?: string;
+    status?: string;
+}
+
+/**
+ * Handling of incoming subscription requests
+ */
+export interface SubscriptionConfig {
+    /** Decides whether a request is accepted without asking the user */
+    autoAccept?: (request: SubscriptionRequest) => boolean | Promise<boolean>;
+}
+
+/**
+ * Options for broadcasting an available presence
+ */
+export interface PresenceOptions {
+    show?: PresenceShow;
+    status?: string;
+    priority?: number;
 }
 
 export type XMPPMessage = ChatMessage | FileMessage | GroupChatMessage;
@@ -51,11 +172,22 @@ export interface MessageOptions {
     priority?: 'high' | 'medium' | 'low';
     delay?: Date;
     replacesId?: string;
+    chatState?: CompositionState;
+    replyTo?: ReplyInfo;
+}
+
+export interface ChatStateConfig {
+    /** Delay after the last composing state before paused is sent (ms) */
+    pauseTimeout?: number;
+    /** Delay after active or paused before inactive is sent (ms) */
+    inactiveTimeout?: number;
 }
 
 export interface MessageReceipt {
     from: string;
     id: string;
     type: DeliveryStatus;
+    /** Why the message bounced, for failed receipts */
+    error?: XMPPError;
 }
-export type DeliveryStatus = 'received' | 'displayed';
+export type DeliveryStatus = 'received' | 'displayed' | 'failed';
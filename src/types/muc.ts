@@ -0,0 +1,50 @@
+/**
+ * Affiliation of an occupant with a room (long-lived)
+ */
+export type MUCAffiliation = 'owner' | 'admin' | 'member' | 'outcast' | 'none';
+
+/**
+ * Role of an occupant within a room (session-scoped)
+ */
+export type MUCRole = 'moderator' | 'participant' | 'visitor' | 'none';
+
+/**
+ * Discussion history to request when joining a room
+ */
+export interface RoomHistoryOptions {
+    maxStanzas?: number;
+    maxChars?: number;
+    seconds?: number;
+    since?: Date;
+}
+
+/**
+ * Options for joining a room
+ */
+export interface RoomJoinOptions {
+    password?: string;
+    history?: RoomHistoryOptions;
+}
+
+/**
+ * An occupant of a room
+ */
+export interface RoomOccupant {
+    nickname: string;
+    jid?: string;
+    affiliation: MUCAffiliation;
+    role: MUCRole;
+}
+
+/**
+ * Parsed occupant presence received from a room
+ */
+export interface RoomPresence {
+    roomJid: string;
+    nickname: string;
+    type: 'available' | 'unavailable' | 'error';
+    occupant: RoomOccupant;
+    statusCodes: string[];
+    isSelf: boolean;
+    newNickname?: string;
+}
@@ -0,0 +1,38 @@
+import { MessageOptions } from './messages';
+
+/**
+ * Delivery state of an outbox entry
+ */
+export type OutboxEntryState = 'queued' | 'sent' | 'failed';
+
+/**
+ * A message waiting in the outbox
+ */
+export interface OutboxEntry {
+    id: string;
+    to: string;
+    body: string;
+    options?: MessageOptions;
+    state: OutboxEntryState;
+    attempts: number;
+    createdAt: number;
+    error?: string;
+}
+
+/**
+ * Storage adapter used to persist pending outbox entries
+ */
+export interface OutboxStorage {
+    load(): Promise<OutboxEntry[]>;
+    save(entry: OutboxEntry): Promise<void>;
+    remove(id: string): Promise<void>;
+}
+
+/**
+ * Configuration for the offline outbox
+ */
+export interface OutboxConfig {
+    enabled: boolean;
+    storage?: OutboxStorage;
+    maxAttempts?: number;
+}
@@ -0,0 +1,50 @@
+/**
+ * Presence subscription state between the user and a contact
+ */
+export type RosterSubscription = 'none' | 'to' | 'from' | 'both';
+
+/**
+ * A contact on the user's roster
+ */
+export interface RosterItem {
+    jid: string;
+    name?: string;
+    groups: string[];
+    subscription: RosterSubscription;
+    /** Set while a subscription request sent to the contact is pending */
+    ask?: 'subscribe';
+    /** Set when the contact's subscription was pre-approved */
+    approved?: boolean;
+}
+
+/**
+ * Changes to a contact's name or groups
+ */
+export interface RosterItemUpdate {
+    name?: string;
+    groups?: string[];
+}
+
+/**
+ * A roster as returned by the server or restored from a cache
+ */
+export interface RosterSnapshot {
+    /** Roster version (XEP-0237), null when the server does not version rosters */
+    version: string | null;
+    items: RosterItem[];
+}
+
+/**
+ * Persists the roster between sessions so versioned servers only send changes
+ */
+export interface RosterCache {
+    load(): Promise<RosterSnapshot | null>;
+    save(snapshot: RosterSnapshot): Promise<void>;
+}
+
+/**
+ * Roster configuration
+ */
+export interface RosterConfig {
+    cache?: RosterCache;
+}